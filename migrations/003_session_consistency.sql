@@ -0,0 +1,20 @@
+-- Migration 003: Session consistency model
+-- Created: October 19, 2026
+-- Description: Registers the session (read-your-writes) consistency model and
+--              the cache statuses reported by the consistency routes
+
+-- Add session_guard to the recorded consistency models
+ALTER TABLE performance_metrics
+  DROP CONSTRAINT IF EXISTS performance_metrics_consistency_model_check;
+ALTER TABLE performance_metrics
+  ADD CONSTRAINT performance_metrics_consistency_model_check
+  CHECK (consistency_model IN ('neural_authority', 'neural_cache', 'smart_memory', 'session_guard'));
+
+-- Accept every X-Cache-Status the routes report
+ALTER TABLE performance_metrics
+  DROP CONSTRAINT IF EXISTS performance_metrics_cache_status_check;
+ALTER TABLE performance_metrics
+  ADD CONSTRAINT performance_metrics_cache_status_check
+  CHECK (cache_status IN ('HIT', 'MISS', 'STALE', 'COALESCED', 'EVICTED', 'BYPASS'));
+
+COMMENT ON COLUMN performance_metrics.consistency_model IS 'neural_authority (strong), neural_cache (TTL), smart_memory (LRU), session_guard (read-your-writes)';
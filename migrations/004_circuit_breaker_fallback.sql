@@ -0,0 +1,10 @@
+-- Migration 004: Circuit breaker fallback
+-- Created: October 19, 2026
+-- Description: Accepts the FALLBACK cache status, reported when cached routes
+--              serve cached data because the database circuit breaker is open
+
+ALTER TABLE performance_metrics
+  DROP CONSTRAINT IF EXISTS performance_metrics_cache_status_check;
+ALTER TABLE performance_metrics
+  ADD CONSTRAINT performance_metrics_cache_status_check
+  CHECK (cache_status IN ('HIT', 'MISS', 'STALE', 'COALESCED', 'EVICTED', 'BYPASS', 'FALLBACK'));
@@ -0,0 +1,31 @@
+-- Migration 005: Cart checkout
+-- Created: October 19, 2026
+-- Description: Cart items added through the session consistency mode, and at
+--              most one order per cart so repeated checkouts can't charge twice
+
+-- Products added to a cart from the session-consistent route
+ALTER TABLE cart_items
+  DROP CONSTRAINT IF EXISTS cart_items_mode_check;
+ALTER TABLE cart_items
+  ADD CONSTRAINT cart_items_mode_check
+  CHECK (mode IN ('fresh', 'fast', 'smart', 'session'));
+
+-- A cart is checked out once: a second order insert fails with unique_violation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_cart_id ON orders(cart_id);
+
+-- Checked-out carts are closed: adding an item fails with check_violation
+CREATE OR REPLACE FUNCTION reject_items_after_checkout()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM orders WHERE cart_id = NEW.cart_id) THEN
+    RAISE EXCEPTION 'Cart % is already checked out', NEW.cart_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS cart_items_reject_after_checkout ON cart_items;
+CREATE TRIGGER cart_items_reject_after_checkout
+  BEFORE INSERT ON cart_items
+  FOR EACH ROW EXECUTE FUNCTION reject_items_after_checkout();
@@ -7,7 +7,7 @@ const nextConfig: NextConfig = {
   },
   
   // External packages for server components
-  serverExternalPackages: ['bcrypt', '@supabase/supabase-js'],
+  serverExternalPackages: ['bcrypt', '@supabase/supabase-js', 'ioredis'],
 
   // Security headers for production
   async headers() {
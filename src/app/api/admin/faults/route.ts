@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { z, ZodError } from 'zod';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { createLogger, type Logger } from '@/lib/logger';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
+import { FAULT_PRESETS, faultInjector, FaultInjectionStats, faultPreset } from '@/lib/repository/faults';
+import { FaultProfile, FaultProfileSchema } from '@/lib/types';
+
+/**
+ * Fault Injection Admin API
+ *
+ * Reads and replaces the fault profile applied to data-layer calls on this
+ * server instance (see src/lib/repository/faults.ts). Requires
+ * `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ *
+ * @swagger
+ * /api/admin/faults:
+ *   get:
+ *     summary: Active fault profile, presets and injection statistics
+ *     responses:
+ *       200:
+ *         description: Current profile
+ *       401:
+ *         description: Missing or invalid admin token
+ *       403:
+ *         description: Admin API disabled (ADMIN_API_TOKEN not set)
+ *   put:
+ *     summary: Activate a preset or a custom fault profile
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             oneOf:
+ *               - type: object
+ *                 properties:
+ *                   preset:
+ *                     type: string
+ *                     enum: [none, slow-network, long-tail, flaky, timeouts, partial-outage]
+ *               - type: object
+ *                 description: Custom profile (name, default rule, per-operation rules)
+ *     responses:
+ *       200:
+ *         description: Profile activated
+ *       400:
+ *         description: Bad Request - Unknown preset or invalid profile
+ *   delete:
+ *     summary: Restore the FAULT_PROFILE the server started with
+ *     responses:
+ *       200:
+ *         description: Profile restored
+ */
+
+interface FaultProfileResponse {
+  profile?: FaultProfile;
+  presets?: string[];
+  stats?: FaultInjectionStats;
+  error?: string;
+  metadata: {
+    requestId: string;
+    timestamp: string;
+    duration: number;
+    fault_profile: string;
+  };
+}
+
+const SetFaultProfileSchema = z.union([
+  z.object({ preset: z.string() }).strict(),
+  FaultProfileSchema
+]);
+
+function respond(body: FaultProfileResponse, status: number): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Request-ID': body.metadata.requestId,
+      'X-Fault-Profile': body.metadata.fault_profile
+    }
+  });
+}
+
+type FaultAction = (context: { request: NextRequest; logger: Logger }) => Promise<{
+  status: number;
+  body: Omit<FaultProfileResponse, 'metadata'>;
+}>;
+
+/**
+ * Wrap an action with the admin security profile, authorization, logging
+ * and response metadata
+ */
+function handler(method: string, action: FaultAction) {
+  return withSecurity(async (request: NextRequest): Promise<NextResponse> => {
+    const requestId = uuidv4();
+    const logger = createLogger(requestId);
+    const startTime = performance.now();
+
+    const metadata = () => ({
+      requestId,
+      timestamp: new Date().toISOString(),
+      duration: Math.round((performance.now() - startTime) * 100) / 100,
+      fault_profile: faultInjector.profileName()
+    });
+
+    const denied = authorizeAdmin(request, requestId, logger);
+    if (denied) {
+      return denied;
+    }
+
+    logger.info(`Processing fault profile ${method} request`);
+
+    const { status, body } = await action({ request, logger });
+    return respond({ ...body, metadata: metadata() }, status);
+  }, SECURITY_PROFILES.ADMIN_API);
+}
+
+function currentState(): Omit<FaultProfileResponse, 'metadata'> {
+  return {
+    profile: faultInjector.getProfile(),
+    presets: Object.keys(FAULT_PRESETS),
+    stats: faultInjector.getStats()
+  };
+}
+
+export const GET = handler('GET', async () => ({ status: 200, body: currentState() }));
+
+export const PUT = handler('PUT', async ({ request, logger }) => {
+  let profile: FaultProfile;
+
+  try {
+    const body = SetFaultProfileSchema.parse(await request.json());
+
+    if ('preset' in body) {
+      const preset = faultPreset(body.preset);
+      if (!preset) {
+        return { status: 400, body: { error: `Unknown preset: ${body.preset}`, presets: Object.keys(FAULT_PRESETS) } };
+      }
+      profile = preset;
+    } else {
+      profile = body;
+    }
+  } catch (error) {
+    if (error instanceof ZodError || error instanceof SyntaxError) {
+      logger.warn('Invalid fault profile', {
+        zodErrors: error instanceof ZodError ? error.issues : undefined
+      });
+      return { status: 400, body: { error: 'Invalid fault profile' } };
+    }
+    throw error;
+  }
+
+  faultInjector.setProfile(profile);
+  logger.warn('Fault profile activated', { name: profile.name });
+
+  return { status: 200, body: currentState() };
+});
+
+export const DELETE = handler('DELETE', async ({ logger }) => {
+  faultInjector.reset();
+  logger.warn('Fault profile reset', { name: faultInjector.profileName() });
+
+  return { status: 200, body: currentState() };
+});
+
+// Handle CORS preflight requests
+export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.ADMIN_API);
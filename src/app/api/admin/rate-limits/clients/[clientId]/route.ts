@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { authorizeAdminUser } from '@/lib/adminAuth';
+import { errorResponse } from '@/lib/apiErrors';
+import { createLogger } from '@/lib/logger';
+import { getEndpointRateLimits } from '@/lib/rateLimit';
+import { faultInjector } from '@/lib/repository/faults';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
+import { RateLimitClientIdSchema } from '@/lib/types';
+
+/**
+ * Rate Limit Client Admin API
+ *
+ * Unblocks a client by forgetting its limiter state on every endpoint, so
+ * its next request starts with full capacity. Requires a signed-in user with
+ * the `admin` role.
+ *
+ * @swagger
+ * /api/admin/rate-limits/clients/{clientId}:
+ *   delete:
+ *     summary: Reset a client's rate-limit state on every endpoint
+ *     parameters:
+ *       - name: clientId
+ *         in: path
+ *         required: true
+ *         description: URL-encoded `user:{id}` or `ip:{address}`, as listed in topClients
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Client unblocked
+ *       400:
+ *         description: Bad Request - Invalid client ID
+ *       401:
+ *         description: Not signed in
+ *       403:
+ *         description: Signed-in user is not an admin
+ */
+
+/**
+ * Path params may arrive still encoded depending on the client; decode once, tolerantly
+ */
+function decodeClientId(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+async function resetClient(
+  request: NextRequest,
+  { params }: { params: Promise<{ clientId: string }> }
+): Promise<NextResponse> {
+  const requestId = uuidv4();
+  const logger = createLogger(requestId);
+  const startTime = performance.now();
+  const duration = () => Math.round((performance.now() - startTime) * 100) / 100;
+  const metadata = () => ({
+    requestId,
+    timestamp: new Date().toISOString(),
+    duration: duration(),
+    fault_profile: faultInjector.profileName()
+  });
+  const headers = { 'Content-Type': 'application/json', 'X-Request-ID': requestId };
+
+  const authorized = await authorizeAdminUser(request, requestId, logger);
+  if (authorized instanceof NextResponse) {
+    return authorized;
+  }
+
+  const { clientId } = await params;
+  const parsed = RateLimitClientIdSchema.safeParse(decodeClientId(clientId));
+  if (!parsed.success) {
+    logger.warn('Invalid rate limit client ID', { clientId });
+    return NextResponse.json(
+      { error: 'Invalid client ID - expected user:{id} or ip:{address}', metadata: metadata() },
+      { status: 400, headers }
+    );
+  }
+
+  try {
+    // Keys are `${clientId}:${pathname}`; matching up to the path keeps
+    // ip:2001:db8::1 from also resetting ip:2001:db8::1:5
+    const removedKeys = await getEndpointRateLimits().store.resetPrefix(`${parsed.data}:/api/`);
+    logger.warn('Rate limit client unblocked', { clientId: parsed.data, removedKeys, userId: authorized.id });
+
+    return NextResponse.json(
+      { clientId: parsed.data, removedKeys, metadata: metadata() },
+      { status: 200, headers }
+    );
+  } catch (error) {
+    return errorResponse(error, 'admin/rate-limits/clients', requestId, logger, duration());
+  }
+}
+
+export const DELETE = withSecurity(resetClient, SECURITY_PROFILES.ADMIN_API);
+
+// Handle CORS preflight requests
+export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.ADMIN_API);
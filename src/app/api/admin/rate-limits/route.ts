@@ -0,0 +1,255 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { ZodError } from 'zod';
+import { authorizeAdminUser } from '@/lib/adminAuth';
+import { errorResponse } from '@/lib/apiErrors';
+import { createLogger, type Logger } from '@/lib/logger';
+import {
+  ClientUsage,
+  DEFAULT_RATE_LIMIT_ALGORITHM,
+  EndpointRejections,
+  getEndpointRateLimits,
+  RATE_LIMITS,
+  RateLimitOverride,
+  RateLimitRule,
+  RateLimitStoreKind,
+  TIER_MULTIPLIERS
+} from '@/lib/rateLimit';
+import { faultInjector } from '@/lib/repository/faults';
+import type { RequestUser } from '@/lib/requestUser';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
+import { RateLimitActivityQuerySchema, RateLimitOverrideRequestSchema } from '@/lib/types';
+
+/**
+ * Rate Limit Admin API
+ *
+ * Shows what the middleware's rate limiter is doing (busiest clients,
+ * rejections per endpoint and minute) and temporarily overrides entries of
+ * RATE_LIMITS without a redeploy. Requires a signed-in user with the `admin`
+ * role. State is per instance unless RATE_LIMIT_STORE=redis.
+ *
+ * Clients are unblocked through /api/admin/rate-limits/clients/{clientId}.
+ *
+ * @swagger
+ * /api/admin/rate-limits:
+ *   get:
+ *     summary: Limits, active overrides, top clients and rejections over time
+ *     parameters:
+ *       - name: top
+ *         in: query
+ *         description: Number of clients to list (1-100)
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - name: minutes
+ *         in: query
+ *         description: Activity window in minutes (1-60)
+ *         schema:
+ *           type: integer
+ *           default: 15
+ *     responses:
+ *       200:
+ *         description: Rate limit state
+ *       401:
+ *         description: Not signed in
+ *       403:
+ *         description: Signed-in user is not an admin
+ *   put:
+ *     summary: Override one RATE_LIMITS entry for a limited time
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [pattern, requests]
+ *             properties:
+ *               pattern:
+ *                 type: string
+ *                 description: RATE_LIMITS key, e.g. /api/check-fast or default
+ *               requests:
+ *                 type: integer
+ *               window_ms:
+ *                 type: integer
+ *               algorithm:
+ *                 type: string
+ *                 enum: [fixed-window, sliding-log, sliding-window, token-bucket]
+ *               ttl_seconds:
+ *                 type: integer
+ *                 default: 3600
+ *     responses:
+ *       200:
+ *         description: Override active
+ *       400:
+ *         description: Bad Request - Unknown pattern or invalid override
+ *   delete:
+ *     summary: Remove the override for `pattern`, or every override
+ *     parameters:
+ *       - name: pattern
+ *         in: query
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Overrides removed
+ */
+
+interface EndpointLimit extends RateLimitRule {
+  pattern: string;
+  methods?: string[]; // Absent when every method counts
+  overridden: boolean;
+}
+
+interface RateLimitAdminResponse {
+  store?: RateLimitStoreKind;
+  limits?: EndpointLimit[]; // Base (anonymous) limits with overrides applied
+  tierMultipliers?: Record<string, number>;
+  overrides?: RateLimitOverride[];
+  topClients?: ClientUsage[];
+  rejections?: EndpointRejections[];
+  removed?: number;
+  error?: string;
+  metadata: {
+    requestId: string;
+    timestamp: string;
+    duration: number;
+    fault_profile: string;
+  };
+}
+
+type RateLimitAction = (context: { request: NextRequest; logger: Logger; user: RequestUser }) => Promise<{
+  status: number;
+  body: Omit<RateLimitAdminResponse, 'metadata'>;
+}>;
+
+function respond(body: RateLimitAdminResponse, status: number): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Request-ID': body.metadata.requestId
+    }
+  });
+}
+
+/**
+ * Wrap an action with the admin security profile, authorization, logging
+ * and response metadata
+ */
+function handler(method: string, action: RateLimitAction) {
+  return withSecurity(async (request: NextRequest): Promise<NextResponse> => {
+    const requestId = uuidv4();
+    const logger = createLogger(requestId);
+    const startTime = performance.now();
+    const duration = () => Math.round((performance.now() - startTime) * 100) / 100;
+
+    const authorized = await authorizeAdminUser(request, requestId, logger);
+    if (authorized instanceof NextResponse) {
+      return authorized;
+    }
+
+    logger.info(`Processing rate limit admin ${method} request`, { userId: authorized.id });
+
+    try {
+      const { status, body } = await action({ request, logger, user: authorized });
+      return respond({
+        ...body,
+        metadata: {
+          requestId,
+          timestamp: new Date().toISOString(),
+          duration: duration(),
+          fault_profile: faultInjector.profileName()
+        }
+      }, status);
+    } catch (error) {
+      return errorResponse(error, 'admin/rate-limits', requestId, logger, duration());
+    }
+  }, SECURITY_PROFILES.ADMIN_API);
+}
+
+async function currentLimits(): Promise<Pick<RateLimitAdminResponse, 'store' | 'limits' | 'tierMultipliers' | 'overrides'>> {
+  const { store, control } = getEndpointRateLimits();
+  const overrides = await control.getOverrides();
+
+  return {
+    store: store.kind,
+    limits: Object.entries(RATE_LIMITS).map(([pattern, config]) => {
+      const override = overrides.find(candidate => candidate.pattern === pattern);
+      const rule = override ?? config;
+      return {
+        pattern,
+        methods: config.methods,
+        requests: rule.requests,
+        windowMs: rule.windowMs,
+        algorithm: rule.algorithm ?? DEFAULT_RATE_LIMIT_ALGORITHM,
+        overridden: Boolean(override)
+      };
+    }),
+    tierMultipliers: TIER_MULTIPLIERS,
+    overrides
+  };
+}
+
+export const GET = handler('GET', async ({ request, logger }) => {
+  const query = RateLimitActivityQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!query.success) {
+    logger.warn('Invalid rate limit activity query', { zodErrors: query.error.issues });
+    return { status: 400, body: { error: 'Invalid query parameters' } };
+  }
+
+  const { control } = getEndpointRateLimits();
+  const { top, minutes } = query.data;
+  const [limits, topClients, rejections] = await Promise.all([
+    currentLimits(),
+    control.getTopClients(top, minutes),
+    control.getRejections(minutes)
+  ]);
+
+  return { status: 200, body: { ...limits, topClients, rejections } };
+});
+
+export const PUT = handler('PUT', async ({ request, logger, user }) => {
+  let override: RateLimitOverride;
+
+  try {
+    const body = RateLimitOverrideRequestSchema.parse(await request.json());
+    const base = RATE_LIMITS[body.pattern];
+    if (!base) {
+      return { status: 400, body: { error: `Unknown rate limit pattern: ${body.pattern}` } };
+    }
+
+    const now = Date.now();
+    override = {
+      pattern: body.pattern,
+      requests: body.requests,
+      windowMs: body.window_ms ?? base.windowMs,
+      algorithm: body.algorithm ?? base.algorithm ?? DEFAULT_RATE_LIMIT_ALGORITHM,
+      createdAt: now,
+      expiresAt: now + body.ttl_seconds * 1000,
+      createdBy: user.id
+    };
+  } catch (error) {
+    if (error instanceof ZodError || error instanceof SyntaxError) {
+      logger.warn('Invalid rate limit override', {
+        zodErrors: error instanceof ZodError ? error.issues : undefined
+      });
+      return { status: 400, body: { error: 'Invalid rate limit override' } };
+    }
+    throw error;
+  }
+
+  await getEndpointRateLimits().control.setOverride(override);
+  logger.warn('Rate limit override set', { ...override });
+
+  return { status: 200, body: await currentLimits() };
+});
+
+export const DELETE = handler('DELETE', async ({ request, logger }) => {
+  const pattern = request.nextUrl.searchParams.get('pattern') ?? undefined;
+  const removed = await getEndpointRateLimits().control.removeOverrides(pattern);
+  logger.warn('Rate limit overrides removed', { pattern: pattern ?? 'all', removed });
+
+  return { status: 200, body: { ...(await currentLimits()), removed } };
+});
+
+// Handle CORS preflight requests
+export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.ADMIN_API);
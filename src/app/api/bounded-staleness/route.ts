@@ -0,0 +1,117 @@
+import { createConsistencyRoute, BoundedStalenessStrategy } from '@/lib/consistency';
+
+/**
+ * Bounded Staleness API Route - Client-Chosen Maximum Lag
+ * 
+ * This endpoint lets the client choose how stale its data may be. A cached
+ * response is served only while it is younger than `max_staleness_ms`;
+ * older entries are refreshed from the database first. Sweeping the bound
+ * from 0 (always fresh) to minutes (mostly cached) traces the latency curve
+ * of the consistency/latency trade-off.
+ * 
+ * Features:
+ * - Per-request staleness bound in milliseconds
+ * - Entries shared across bounds, so one workload serves every sweep point
+ * - Single-flight coalescing: concurrent refreshes share one database query
+ * - X-Data-Age reports how old the served data is
+ * 
+ * Trade-offs:
+ * - ✅ Staleness is explicit and guaranteed, not incidental
+ * - ✅ Clients trade latency for freshness per request
+ * - ❌ Tight bounds approach strong-consistency latency
+ * 
+ * @swagger
+ * /api/bounded-staleness:
+ *   get:
+ *     summary: Fetch products no older than a client-chosen bound
+ *     description: Returns cached product data younger than max_staleness_ms, refreshing from the database otherwise
+ *     parameters:
+ *       - in: query
+ *         name: max_staleness_ms
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 300000
+ *           default: 5000
+ *         description: Maximum age of the returned data in milliseconds (0 always reads the database)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Keyset cursor from metadata.next_cursor (cannot be combined with offset)
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *       - in: query
+ *         name: brand
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *       - in: query
+ *         name: min_price
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *       - in: query
+ *         name: max_price
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *       - in: query
+ *         name: in_stock
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: Case-insensitive search over name and description
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [updated_desc, price_asc, price_desc, name_asc]
+ *           default: updated_desc
+ *       - in: query
+ *         name: fields
+ *         schema:
+ *           type: string
+ *           enum: [summary, full]
+ *           default: full
+ *         description: summary omits inventory, currency, brand, description and image_url
+ *       - in: query
+ *         name: verify_staleness
+ *         schema:
+ *           type: boolean
+ *         description: Compare cached products with database versions (X-Stale-Items, X-Max-Version-Lag, X-Staleness-Age)
+ *     responses:
+ *       200:
+ *         description: Products retrieved within the staleness bound
+ *       304:
+ *         description: Not Modified (client cache hit)
+ *       400:
+ *         description: Bad Request - Invalid query parameters or staleness bound
+ *       500:
+ *         description: Internal Server Error
+ */
+
+const route = createConsistencyRoute(new BoundedStalenessStrategy());
+
+export const GET = route.GET;
+export const OPTIONS = route.OPTIONS;
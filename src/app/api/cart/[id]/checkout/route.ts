@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { repository } from '@/lib/repository';
+import { faultInjector } from '@/lib/repository/faults';
+import { checkoutCart } from '@/lib/cart';
+import { createLogger } from '@/lib/logger';
+import { errorResponse } from '@/lib/apiErrors';
+import { CartIdSchema, CartResponse } from '@/lib/types';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
+
+/**
+ * Checkout API Route - Stale Price at Checkout
+ *
+ * Re-reads every item's price from the database, charges the authoritative
+ * total, and stores each item whose price drifted since it was added in
+ * `orders.price_changes`. The drift is returned so clients can see what
+ * reading prices through a cached model would have cost.
+ *
+ * A cart is checked out once: repeating the request (e.g. a retry after a
+ * timeout) returns the original order with 200 instead of charging again.
+ *
+ * @swagger
+ * /api/cart/{id}/checkout:
+ *   post:
+ *     summary: Check out a cart at authoritative prices
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Cart was already checked out; returns that order unchanged
+ *       201:
+ *         description: Order created; price_changes lists items whose price drifted
+ *       400:
+ *         description: Bad Request - Invalid cart ID or empty cart
+ *       404:
+ *         description: Cart not found
+ *       409:
+ *         description: Conflict - Some products are no longer available
+ */
+
+async function submitCheckout(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const requestId = uuidv4();
+  const logger = createLogger(requestId);
+  const startTime = performance.now();
+  const { id } = await params;
+
+  const metadata = () => ({
+    requestId,
+    timestamp: new Date().toISOString(),
+    duration: Math.round((performance.now() - startTime) * 100) / 100,
+    fault_profile: faultInjector.profileName()
+  });
+  const headers = { 'Content-Type': 'application/json', 'X-Request-ID': requestId };
+
+  try {
+    if (!CartIdSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { error: 'Invalid cart ID', metadata: metadata() } satisfies CartResponse,
+        { status: 400, headers }
+      );
+    }
+
+    const cart = await repository.getCart(id, requestId);
+    if (!cart) {
+      return NextResponse.json(
+        { error: 'Cart not found', metadata: metadata() } satisfies CartResponse,
+        { status: 404, headers }
+      );
+    }
+
+    if (cart.items.length === 0) {
+      return NextResponse.json(
+        { error: 'Cart is empty', metadata: metadata() } satisfies CartResponse,
+        { status: 400, headers }
+      );
+    }
+
+    const result = await checkoutCart(cart, requestId);
+
+    if (!result.order) {
+      return NextResponse.json(
+        {
+          error: `Products no longer available: ${result.unavailable.join(', ')}`,
+          metadata: metadata()
+        } satisfies CartResponse,
+        { status: 409, headers }
+      );
+    }
+
+    const responseMetadata = metadata();
+    const drift = result.priceChanges.reduce((sum, change) => sum + change.difference * change.quantity, 0);
+
+    return NextResponse.json(
+      {
+        order: result.order,
+        price_changes: result.priceChanges,
+        metadata: responseMetadata
+      } satisfies CartResponse,
+      {
+        // A repeated checkout returns the original order rather than charging again
+        status: result.replayed ? 200 : 201,
+        headers: {
+          ...headers,
+          'X-Checkout-Replayed': result.replayed.toString(),
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'X-Response-Time': `${responseMetadata.duration}ms`,
+          'X-Price-Changes': result.priceChanges.length.toString(),
+          'X-Price-Drift': drift.toString()
+        }
+      }
+    );
+
+  } catch (error) {
+    return errorResponse(error, 'checkout', requestId, logger, metadata().duration);
+  }
+}
+
+export const POST = withSecurity(submitCheckout, SECURITY_PROFILES.CREDENTIALED_API);
+
+// Handle preflight CORS requests
+export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.CREDENTIALED_API);
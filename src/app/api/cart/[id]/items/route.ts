@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { ZodError } from 'zod';
+import { repository } from '@/lib/repository';
+import { faultInjector } from '@/lib/repository/faults';
+import { readProductForMode } from '@/lib/consistency';
+import { createLogger } from '@/lib/logger';
+import { errorResponse } from '@/lib/apiErrors';
+import { AddCartItemSchema, CartIdSchema, CartResponse } from '@/lib/types';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
+
+/**
+ * Cart Items API Route - Add to Cart Through a Consistency Mode
+ *
+ * The product's price is read through the chosen mode (fresh, fast, smart
+ * or session) and stored as the item's `added_price`, exactly as a shopper
+ * on that model's product page would have seen it. Checkout later compares
+ * it with the authoritative price.
+ *
+ * @swagger
+ * /api/cart/{id}/items:
+ *   post:
+ *     summary: Add a product to a cart at the price a consistency mode serves
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [product_id]
+ *             properties:
+ *               product_id:
+ *                 type: string
+ *                 format: uuid
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 100
+ *                 default: 1
+ *               mode:
+ *                 type: string
+ *                 enum: [fresh, fast, smart, session]
+ *                 default: fresh
+ *     responses:
+ *       201:
+ *         description: Item added (X-Cache-Status shows how the price was read)
+ *       400:
+ *         description: Bad Request - Invalid cart ID or body
+ *       404:
+ *         description: Cart or product not found
+ *       409:
+ *         description: Conflict - Cart is already checked out
+ */
+
+async function addCartItem(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const requestId = uuidv4();
+  const logger = createLogger(requestId);
+  const startTime = performance.now();
+  const { id } = await params;
+
+  const metadata = () => ({
+    requestId,
+    timestamp: new Date().toISOString(),
+    duration: Math.round((performance.now() - startTime) * 100) / 100,
+    fault_profile: faultInjector.profileName()
+  });
+  const headers = { 'Content-Type': 'application/json', 'X-Request-ID': requestId };
+
+  try {
+    let cartId: string;
+    let body;
+
+    try {
+      cartId = CartIdSchema.parse(id);
+      body = AddCartItemSchema.parse(await request.json());
+    } catch (error) {
+      if (error instanceof ZodError || error instanceof SyntaxError) {
+        logger.warn('Invalid add-to-cart request', {
+          cartId: id,
+          zodErrors: error instanceof ZodError ? error.issues : undefined
+        });
+
+        return NextResponse.json(
+          { error: 'Invalid add-to-cart request', metadata: metadata() } satisfies CartResponse,
+          { status: 400, headers }
+        );
+      }
+      throw error;
+    }
+
+    const cart = await repository.getCart(cartId, requestId);
+    if (!cart) {
+      return NextResponse.json(
+        { error: 'Cart not found', metadata: metadata() } satisfies CartResponse,
+        { status: 404, headers }
+      );
+    }
+
+    // Read the price the way the chosen consistency model serves it
+    const url = new URL(request.url);
+    const read = await readProductForMode(body.mode, body.product_id, {
+      requestId,
+      logger,
+      searchParams: url.searchParams,
+      headers: request.headers
+    });
+
+    if (!read.data) {
+      return NextResponse.json(
+        { error: 'Product not found', metadata: metadata() } satisfies CartResponse,
+        { status: 404, headers }
+      );
+    }
+
+    const item = await repository.addCartItem(cartId, {
+      product_id: body.product_id,
+      added_price: read.data.price,
+      quantity: body.quantity,
+      mode: body.mode
+    }, requestId);
+
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Cart is already checked out', metadata: metadata() } satisfies CartResponse,
+        { status: 409, headers }
+      );
+    }
+
+    const responseMetadata = metadata();
+
+    logger.info('Item added to cart', {
+      cartId,
+      productId: body.product_id,
+      mode: body.mode,
+      addedPrice: item.added_price,
+      cacheStatus: read.cacheStatus,
+      duration: responseMetadata.duration
+    });
+
+    return NextResponse.json(
+      { item, metadata: responseMetadata } satisfies CartResponse,
+      {
+        status: 201,
+        headers: {
+          ...headers,
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'X-Response-Time': `${responseMetadata.duration}ms`,
+          'X-Consistency-Mode': body.mode,
+          'X-Cache-Status': read.cacheStatus,
+          'X-From-Cache': read.fromCache.toString(),
+          'X-Product-Version': read.data.version.toString()
+        }
+      }
+    );
+
+  } catch (error) {
+    return errorResponse(error, 'cart items', requestId, logger, metadata().duration);
+  }
+}
+
+export const POST = withSecurity(addCartItem, SECURITY_PROFILES.CREDENTIALED_API);
+
+// Handle preflight CORS requests
+export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.CREDENTIALED_API);
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { repository } from '@/lib/repository';
+import { faultInjector } from '@/lib/repository/faults';
+import { createLogger } from '@/lib/logger';
+import { errorResponse } from '@/lib/apiErrors';
+import { CartIdSchema, CartResponse } from '@/lib/types';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
+
+/**
+ * Cart API Route - Read a Cart
+ *
+ * @swagger
+ * /api/cart/{id}:
+ *   get:
+ *     summary: Fetch a cart with its items
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Cart with its items (added_price and mode per item)
+ *       400:
+ *         description: Bad Request - Invalid cart ID
+ *       404:
+ *         description: Cart not found
+ */
+
+async function getCart(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const requestId = uuidv4();
+  const logger = createLogger(requestId);
+  const startTime = performance.now();
+  const { id } = await params;
+
+  const metadata = () => ({
+    requestId,
+    timestamp: new Date().toISOString(),
+    duration: Math.round((performance.now() - startTime) * 100) / 100,
+    fault_profile: faultInjector.profileName()
+  });
+  const headers = { 'Content-Type': 'application/json', 'X-Request-ID': requestId };
+
+  try {
+    if (!CartIdSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { error: 'Invalid cart ID', metadata: metadata() } satisfies CartResponse,
+        { status: 400, headers }
+      );
+    }
+
+    const cart = await repository.getCart(id, requestId);
+
+    if (!cart) {
+      return NextResponse.json(
+        { error: 'Cart not found', metadata: metadata() } satisfies CartResponse,
+        { status: 404, headers }
+      );
+    }
+
+    return NextResponse.json(
+      { cart, metadata: metadata() } satisfies CartResponse,
+      {
+        status: 200,
+        headers: {
+          ...headers,
+          'Cache-Control': 'no-cache, no-store, must-revalidate'
+        }
+      }
+    );
+
+  } catch (error) {
+    return errorResponse(error, 'cart', requestId, logger, metadata().duration);
+  }
+}
+
+export const GET = withSecurity(getCart, SECURITY_PROFILES.CREDENTIALED_API);
+
+// Handle preflight CORS requests
+export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.CREDENTIALED_API);
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { ZodError } from 'zod';
+import { repository } from '@/lib/repository';
+import { faultInjector } from '@/lib/repository/faults';
+import { createLogger } from '@/lib/logger';
+import { errorResponse } from '@/lib/apiErrors';
+import { CreateCartSchema, CartResponse } from '@/lib/types';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
+
+/**
+ * Cart API Route - Create or Resume a Cart
+ *
+ * Carts belong to a client session. Posting a session ID returns that
+ * session's newest open cart, creating an empty one on first use and after
+ * each checkout.
+ *
+ * @swagger
+ * /api/cart:
+ *   post:
+ *     summary: Create (or resume) the cart for a session
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [session_id]
+ *             properties:
+ *               session_id:
+ *                 type: string
+ *                 maxLength: 255
+ *     responses:
+ *       200:
+ *         description: Cart with its items
+ *       400:
+ *         description: Bad Request - Missing or invalid session_id
+ *       503:
+ *         description: Service Unavailable - Database connection failed
+ */
+
+async function createCart(request: NextRequest): Promise<NextResponse> {
+  const requestId = uuidv4();
+  const logger = createLogger(requestId);
+  const startTime = performance.now();
+
+  const metadata = () => ({
+    requestId,
+    timestamp: new Date().toISOString(),
+    duration: Math.round((performance.now() - startTime) * 100) / 100,
+    fault_profile: faultInjector.profileName()
+  });
+
+  try {
+    let sessionId: string;
+
+    try {
+      sessionId = CreateCartSchema.parse(await request.json()).session_id;
+    } catch (error) {
+      if (error instanceof ZodError || error instanceof SyntaxError) {
+        logger.warn('Invalid cart request', {
+          zodErrors: error instanceof ZodError ? error.issues : undefined
+        });
+
+        return NextResponse.json(
+          { error: 'Invalid cart request', metadata: metadata() } satisfies CartResponse,
+          { status: 400, headers: { 'Content-Type': 'application/json', 'X-Request-ID': requestId } }
+        );
+      }
+      throw error;
+    }
+
+    const cart = await repository.getOrCreateCart(sessionId, requestId);
+    const responseMetadata = metadata();
+
+    logger.info('Cart ready', { cartId: cart.id, items: cart.items.length, duration: responseMetadata.duration });
+
+    return NextResponse.json(
+      { cart, metadata: responseMetadata } satisfies CartResponse,
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Request-ID': requestId,
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'X-Response-Time': `${responseMetadata.duration}ms`
+        }
+      }
+    );
+
+  } catch (error) {
+    return errorResponse(error, 'cart', requestId, logger, metadata().duration);
+  }
+}
+
+export const POST = withSecurity(createCart, SECURITY_PROFILES.CREDENTIALED_API);
+
+// Handle preflight CORS requests
+export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.CREDENTIALED_API);
@@ -1,15 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { supabase } from '@/lib/supabase';
+import { repository, RepositoryKind } from '@/lib/repository';
+import { faultInjector } from '@/lib/repository/faults';
+import { replicas, ReplicaStatus } from '@/lib/repository/replicas';
+import type { CircuitBreakerStatus } from '@/lib/circuitBreaker';
 import { createLogger } from '@/lib/logger';
-import { addRateLimitHeaders, getRateLimitStats } from '@/lib/rateLimit';
-import { applySecurityHeaders, createPreflightResponse, SECURITY_PROFILES } from '@/lib/security';
+import { addRateLimitHeaders, getRateLimitStats, RateLimitStoreKind } from '@/lib/rateLimit';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
 
 /**
  * Health Check Endpoint
  * 
  * Provides system health status including database connectivity,
- * response times, and service availability. Essential for monitoring
+ * circuit breaker state, response times, and service availability. Essential for monitoring
  * and alerting in production environments.
  */
 
@@ -18,9 +21,11 @@ interface HealthCheckResponse {
   timestamp: string;
   requestId: string;
   version: string;
+  faultProfile: string; // Injected fault profile (see /api/admin/faults)
   checks: {
     database: {
       status: 'up' | 'down';
+      backend?: RepositoryKind;
       responseTime?: number;
       error?: string;
     };
@@ -28,13 +33,17 @@ interface HealthCheckResponse {
       status: 'up';
       responseTime: number;
     };
+    circuitBreaker: CircuitBreakerStatus;
+    replicas: ReplicaStatus[];
     rateLimit: {
-      status: 'operational';
-      stats: {
+      status: 'operational' | 'down';
+      stats?: {
+        store: RateLimitStoreKind;
         totalKeys: number;
         activeKeys: number;
         memoryUsage: number;
       };
+      error?: string;
     };
   };
   uptime: number;
@@ -42,7 +51,7 @@ interface HealthCheckResponse {
 
 const startTime = Date.now();
 
-export async function GET(request: NextRequest): Promise<NextResponse> {
+async function getHealth(request: NextRequest): Promise<NextResponse> {
   const requestId = uuidv4();
   const logger = createLogger(requestId);
   const checkStartTime = performance.now();
@@ -54,17 +63,20 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     timestamp: new Date().toISOString(),
     requestId,
     version: process.env.npm_package_version || '1.0.0',
+    faultProfile: faultInjector.profileName(),
     checks: {
       database: {
-        status: 'down'
+        status: 'down',
+        backend: repository.kind
       },
       api: {
         status: 'up',
         responseTime: 0
       },
+      circuitBreaker: repository.getCircuitStatus(),
+      replicas: replicas.getStatus(),
       rateLimit: {
-        status: 'operational',
-        stats: getRateLimitStats()
+        status: 'operational'
       }
     },
     uptime: Math.round((Date.now() - startTime) / 1000)
@@ -73,11 +85,12 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   // Check database connectivity
   try {
     const dbStartTime = performance.now();
-    const isHealthy = await supabase.healthCheck(requestId);
+    const isHealthy = await repository.healthCheck(requestId);
     const dbResponseTime = Math.round((performance.now() - dbStartTime) * 100) / 100;
 
     response.checks.database = {
       status: isHealthy ? 'up' : 'down',
+      backend: repository.kind,
       responseTime: dbResponseTime
     };
 
@@ -88,12 +101,27 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   } catch (error) {
     response.checks.database = {
       status: 'down',
+      backend: repository.kind,
       error: error instanceof Error ? error.message : 'Unknown database error'
     };
     response.status = 'unhealthy';
     logger.error('Database health check error', error as Error);
   }
 
+  // Rate limiting fails open, so an unreachable store doesn't degrade the API
+  try {
+    response.checks.rateLimit.stats = await getRateLimitStats();
+  } catch (error) {
+    response.checks.rateLimit = {
+      status: 'down',
+      error: error instanceof Error ? error.message : 'Unknown rate limit store error'
+    };
+    logger.warn('Rate limit store check failed', { error: (error as Error).message });
+  }
+
+  // Report the breaker after the probe, which may have opened or closed it
+  response.checks.circuitBreaker = repository.getCircuitStatus();
+
   // Calculate total API response time
   response.checks.api.responseTime = Math.round((performance.now() - checkStartTime) * 100) / 100;
 
@@ -108,22 +136,22 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   logger.info('Health check completed', {
     status: response.status,
     databaseStatus: response.checks.database.status,
+    circuitState: response.checks.circuitBreaker.state,
     responseTime: response.checks.api.responseTime
   });
 
-  const healthResponse = NextResponse.json(response, {
+  return NextResponse.json(response, {
     status: httpStatus,
     headers: {
       'Content-Type': 'application/json',
-      'X-Request-ID': requestId
+      'X-Request-ID': requestId,
+      'X-Circuit-State': response.checks.circuitBreaker.state,
+      'X-Fault-Profile': response.faultProfile
     }
   });
-
-  // Apply security headers using the PUBLIC_API profile
-  return applySecurityHeaders(healthResponse, request, SECURITY_PROFILES.PUBLIC_API);
 }
 
+export const GET = withSecurity(getHealth, SECURITY_PROFILES.PUBLIC_API);
+
 // Handle CORS preflight requests
-export async function OPTIONS(request: NextRequest): Promise<NextResponse> {
-  return createPreflightResponse(request, SECURITY_PROFILES.PUBLIC_API);
-}
\ No newline at end of file
+export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.PUBLIC_API);
\ No newline at end of file
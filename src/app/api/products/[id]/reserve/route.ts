@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { ZodError } from 'zod';
+import { repository } from '@/lib/repository';
+import { faultInjector } from '@/lib/repository/faults';
+import { replicas } from '@/lib/repository/replicas';
+import { invalidateProduct } from '@/lib/cache/invalidation';
+import { readProductForMode, recordSessionWrite, SESSION_TOKEN_HEADER } from '@/lib/consistency';
+import { reserveInventory } from '@/lib/inventory';
+import { createLogger } from '@/lib/logger';
+import { errorResponse } from '@/lib/apiErrors';
+import { ProductIdSchema, ReserveInventorySchema, ReserveInventoryResponse } from '@/lib/types';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
+
+/**
+ * Inventory Reservation API Route - Optimistic Concurrency on Product.version
+ *
+ * The client reads the stock level through a consistency mode (as a shopper
+ * on that model's product page would), then the reservation decrements the
+ * real inventory with compare-and-swap on `version`, retrying on conflict.
+ * When the observed stock allowed the purchase but the real stock does not,
+ * the response reports an oversell attempt - the cost of acting on a cached
+ * inventory count in check-fast (`fast`) or smart-memory (`smart`).
+ *
+ * @swagger
+ * /api/products/{id}/reserve:
+ *   post:
+ *     summary: Reserve stock for a product using compare-and-swap on its version
+ *     parameters:
+ *       - in: header
+ *         name: X-Session-Token
+ *         schema:
+ *           type: string
+ *         description: Existing session token to extend with this write
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 100
+ *                 default: 1
+ *               mode:
+ *                 type: string
+ *                 enum: [fresh, fast, smart, session]
+ *                 default: fresh
+ *                 description: Consistency mode the stock level is read through
+ *               invalidation:
+ *                 type: string
+ *                 enum: [none, key, tag]
+ *                 default: key
+ *     responses:
+ *       200:
+ *         description: Stock reserved (X-Reserve-Attempts and X-Version-Conflicts show contention)
+ *       400:
+ *         description: Bad Request - Invalid product ID or body
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: Conflict - Insufficient stock (X-Oversell set when the observed stock said otherwise) or persistent version conflicts
+ */
+
+async function reserveProduct(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const requestId = uuidv4();
+  const logger = createLogger(requestId);
+  const startTime = performance.now();
+  const { id } = await params;
+
+  const metadata = () => ({
+    requestId,
+    timestamp: new Date().toISOString(),
+    duration: Math.round((performance.now() - startTime) * 100) / 100,
+    fault_profile: faultInjector.profileName()
+  });
+  const headers = { 'Content-Type': 'application/json', 'X-Request-ID': requestId };
+
+  try {
+    let productId: string;
+    let body;
+
+    try {
+      productId = ProductIdSchema.parse(id);
+      body = ReserveInventorySchema.parse(await request.json());
+    } catch (error) {
+      if (error instanceof ZodError || error instanceof SyntaxError) {
+        logger.warn('Invalid reservation request', {
+          productId: id,
+          zodErrors: error instanceof ZodError ? error.issues : undefined
+        });
+
+        return NextResponse.json(
+          { error: 'Invalid reservation request', metadata: metadata() } satisfies ReserveInventoryResponse,
+          { status: 400, headers }
+        );
+      }
+      throw error;
+    }
+
+    // The stock level the client acts on, read through its consistency mode
+    const url = new URL(request.url);
+    const observed = await readProductForMode(body.mode, productId, {
+      requestId,
+      logger,
+      searchParams: url.searchParams,
+      headers: request.headers
+    });
+
+    // Replicas must hold the pre-write catalogue for the write to lag behind
+    await replicas.ready();
+
+    const result = observed.data
+      ? await reserveInventory(observed.data, body.quantity, body.mode, requestId)
+      : null;
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Product not found', metadata: metadata() } satisfies ReserveInventoryResponse,
+        { status: 404, headers }
+      );
+    }
+
+    const { reservation, product } = result;
+    const reserved = reservation.outcome === 'reserved';
+    const responseHeaders: Record<string, string> = {
+      ...headers,
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'X-Consistency-Mode': body.mode,
+      'X-Cache-Status': observed.cacheStatus,
+      'X-Observed-Inventory': reservation.observed_inventory.toString(),
+      'X-Reserve-Attempts': reservation.attempts.toString(),
+      'X-Version-Conflicts': reservation.conflicts.toString(),
+      'X-Oversell': reservation.oversell.toString(),
+      'X-Product-Version': product.version.toString(),
+      'Access-Control-Expose-Headers': `X-Observed-Inventory, X-Reserve-Attempts, X-Version-Conflicts, X-Oversell, X-Product-Version, X-DB-Attempts, ${SESSION_TOKEN_HEADER}`
+    };
+
+    if (reserved) {
+      // A reservation is a product write: apply the invalidation policy and
+      // record it for read-your-writes like PATCH /api/products/{id}
+      await invalidateProduct(product, body.invalidation, requestId);
+      replicas.recordWrite(product);
+      responseHeaders[SESSION_TOKEN_HEADER] = recordSessionWrite(request.headers.get(SESSION_TOKEN_HEADER), product);
+    }
+
+    const responseMetadata = metadata();
+    responseHeaders['X-Response-Time'] = `${responseMetadata.duration}ms`;
+    responseHeaders['X-DB-Attempts'] = repository.takeAttempts(requestId).toString();
+
+    logger.info('Reservation request completed', {
+      productId,
+      mode: body.mode,
+      outcome: reservation.outcome,
+      oversell: reservation.oversell,
+      attempts: reservation.attempts,
+      duration: responseMetadata.duration
+    });
+
+    return NextResponse.json(
+      {
+        reservation,
+        error: reserved ? undefined : reservation.outcome === 'conflict'
+          ? 'Product is being updated concurrently - please retry'
+          : 'Insufficient inventory',
+        metadata: responseMetadata
+      } satisfies ReserveInventoryResponse,
+      { status: reserved ? 200 : 409, headers: responseHeaders }
+    );
+
+  } catch (error) {
+    return errorResponse(error, 'reservation', requestId, logger, metadata().duration, {
+      'X-DB-Attempts': repository.takeAttempts(requestId).toString()
+    });
+  }
+}
+
+export const POST = withSecurity(reserveProduct, SECURITY_PROFILES.CREDENTIALED_API);
+
+// Handle preflight CORS requests
+export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.CREDENTIALED_API);
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { ZodError } from 'zod';
+import { repository } from '@/lib/repository';
+import { faultInjector } from '@/lib/repository/faults';
+import { replicas } from '@/lib/repository/replicas';
+import { invalidateProduct } from '@/lib/cache/invalidation';
+import { recordSessionWrite, SESSION_TOKEN_HEADER } from '@/lib/consistency';
+import { createLogger } from '@/lib/logger';
+import { errorResponse } from '@/lib/apiErrors';
+import { ProductIdSchema, UpdateProductSchema, UpdateProductResponse } from '@/lib/types';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
+
+/**
+ * Product Write API Route - Price/Inventory Updates with Cache Invalidation
+ *
+ * Writes go straight to the database (the products trigger bumps `version`
+ * and `updated_at`), then an invalidation policy runs against the TTL and
+ * LRU caches so each consistency model's reaction to writes can be measured.
+ *
+ * Invalidation policies:
+ * - none: cached entries stay until TTL/LRU expiry (maximum staleness)
+ * - key: only cached responses containing this product are dropped
+ * - tag: every cached response for the product's category is dropped
+ *
+ * The response carries an X-Session-Token recording the write; sending it to
+ * /api/session-consistent guarantees the client reads its own writes.
+ *
+ * @swagger
+ * /api/products/{id}:
+ *   patch:
+ *     summary: Update a product's price and/or inventory
+ *     parameters:
+ *       - in: header
+ *         name: X-Session-Token
+ *         schema:
+ *           type: string
+ *         description: Existing session token to extend with this write
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               price:
+ *                 type: integer
+ *                 minimum: 0
+ *               inventory:
+ *                 type: integer
+ *                 minimum: 0
+ *               invalidation:
+ *                 type: string
+ *                 enum: [none, key, tag]
+ *                 default: key
+ *     responses:
+ *       200:
+ *         description: Product updated and invalidation applied (X-Session-Token carries the write)
+ *       400:
+ *         description: Bad Request - Invalid product ID or body
+ *       404:
+ *         description: Product not found
+ *       503:
+ *         description: Service Unavailable - Database connection failed
+ */
+
+async function updateProduct(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const requestId = uuidv4();
+  const logger = createLogger(requestId);
+  const startTime = performance.now();
+  const { id } = await params;
+
+  logger.info('Processing product update request', { productId: id });
+
+  const metadata = () => ({
+    requestId,
+    timestamp: new Date().toISOString(),
+    duration: Math.round((performance.now() - startTime) * 100) / 100,
+    fault_profile: faultInjector.profileName()
+  });
+
+  try {
+    let productId: string;
+    let update;
+
+    try {
+      productId = ProductIdSchema.parse(id);
+      update = UpdateProductSchema.parse(await request.json());
+    } catch (error) {
+      if (error instanceof ZodError || error instanceof SyntaxError) {
+        logger.warn('Invalid product update request', {
+          productId: id,
+          zodErrors: error instanceof ZodError ? error.issues : undefined
+        });
+
+        return NextResponse.json(
+          {
+            error: 'Invalid product update request',
+            metadata: metadata()
+          } satisfies UpdateProductResponse,
+          {
+            status: 400,
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Request-ID': requestId
+            }
+          }
+        );
+      }
+      throw error;
+    }
+
+    const { invalidation: policy, ...changes } = update;
+
+    // Replicas must hold the pre-write catalogue for the write to lag behind
+    await replicas.ready();
+
+    const dbStartTime = performance.now();
+    const product = await repository.updateProduct(productId, changes, requestId);
+    const dbDuration = Math.round((performance.now() - dbStartTime) * 100) / 100;
+
+    if (!product) {
+      return NextResponse.json(
+        {
+          error: 'Product not found',
+          metadata: metadata()
+        } satisfies UpdateProductResponse,
+        {
+          status: 404,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Request-ID': requestId
+          }
+        }
+      );
+    }
+
+    // Run the invalidation policy against both caches
+    const invalidation = await invalidateProduct(product, policy, requestId);
+    replicas.recordWrite(product);
+    const sessionToken = recordSessionWrite(request.headers.get(SESSION_TOKEN_HEADER), product);
+    const responseMetadata = metadata();
+
+    logger.info('Product update completed', {
+      productId,
+      version: product.version,
+      policy,
+      duration: responseMetadata.duration
+    });
+
+    const response: UpdateProductResponse = {
+      product,
+      invalidation: {
+        policy,
+        tags: invalidation.tags,
+        ttl_keys: invalidation.ttlKeys.length,
+        lru_keys: invalidation.lruKeys.length
+      },
+      metadata: responseMetadata
+    };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Request-ID': requestId,
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'X-Response-Time': `${responseMetadata.duration}ms`,
+        'X-DB-Time': `${dbDuration}ms`,
+        'X-DB-Attempts': repository.takeAttempts(requestId).toString(),
+        'X-Product-Version': product.version.toString(),
+        'X-Invalidation-Policy': policy,
+        'X-Invalidated-Keys': (invalidation.ttlKeys.length + invalidation.lruKeys.length).toString(),
+        [SESSION_TOKEN_HEADER]: sessionToken,
+        'Access-Control-Expose-Headers': `X-Product-Version, X-Invalidation-Policy, X-DB-Attempts, ${SESSION_TOKEN_HEADER}`
+      }
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'product update', requestId, logger, metadata().duration, {
+      'X-DB-Attempts': repository.takeAttempts(requestId).toString()
+    });
+  }
+}
+
+export const PATCH = withSecurity(updateProduct, SECURITY_PROFILES.CREDENTIALED_API);
+
+// Handle preflight CORS requests
+export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.CREDENTIALED_API);
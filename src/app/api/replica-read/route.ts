@@ -0,0 +1,116 @@
+import { createConsistencyRoute, ReplicaReadStrategy } from '@/lib/consistency';
+
+/**
+ * Replica Read API Route - Replication Lag Between Regions
+ * 
+ * Reads products from a simulated read replica in the chosen region. Each
+ * replica applies the primary's writes after its configured lag, so reading
+ * a region right after PATCH /api/products/{id} can return the old version:
+ * a read-after-write anomaly caused by replication, not caching.
+ * 
+ * Features:
+ * - Region per request (`region`), including `primary` for a baseline
+ * - Single product mode with `id`
+ * - X-Replication-Lag and X-Replication-Pending describe the region's backlog
+ * - verify_staleness measures the lag in versions and milliseconds
+ * 
+ * Trade-offs:
+ * - ✅ Replica reads skip the trip to the primary region
+ * - ❌ Writes are invisible in a region until replication catches up
+ * 
+ * @swagger
+ * /api/replica-read:
+ *   get:
+ *     summary: Fetch products from a regional read replica
+ *     description: Returns product data as the chosen region's replica currently sees it
+ *     parameters:
+ *       - in: query
+ *         name: region
+ *         schema:
+ *           type: string
+ *         description: Replica region from REPLICA_REGIONS, or primary (default is the first replica region)
+ *       - in: query
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Read a single product instead of a list
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Keyset cursor from metadata.next_cursor (cannot be combined with offset)
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *       - in: query
+ *         name: brand
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *       - in: query
+ *         name: min_price
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *       - in: query
+ *         name: max_price
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *       - in: query
+ *         name: in_stock
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: Case-insensitive search over name and description
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [updated_desc, price_asc, price_desc, name_asc]
+ *           default: updated_desc
+ *       - in: query
+ *         name: fields
+ *         schema:
+ *           type: string
+ *           enum: [summary, full]
+ *           default: full
+ *         description: summary omits inventory, currency, brand, description and image_url
+ *       - in: query
+ *         name: verify_staleness
+ *         schema:
+ *           type: boolean
+ *         description: Compare replica products with primary versions (X-Stale-Items, X-Max-Version-Lag, X-Staleness-Age)
+ *     responses:
+ *       200:
+ *         description: Products as the region's replica sees them
+ *       400:
+ *         description: Bad Request - Invalid query parameters or unknown region
+ *       500:
+ *         description: Internal Server Error
+ */
+
+const route = createConsistencyRoute(new ReplicaReadStrategy());
+
+export const GET = route.GET;
+export const OPTIONS = route.OPTIONS;
@@ -0,0 +1,131 @@
+import { createConsistencyRoute, SessionConsistencyStrategy } from '@/lib/consistency';
+
+/**
+ * Session Consistent API Route - Read-Your-Writes Model (Session Consistency)
+ * 
+ * This endpoint serves TTL-cached data like check-fast, but guarantees that a
+ * client always sees its own writes. Writes through PATCH /api/products/{id}
+ * return an X-Session-Token listing the product versions the client wrote;
+ * sending it back here bypasses any cached response that predates them.
+ * 
+ * Features:
+ * - TTL caching with stale-while-revalidate and single-flight coalescing
+ * - Read-your-writes via a client-held session token
+ * - Cache bypass only for sessions whose writes the cache has not seen
+ * - Bypassed entries are refreshed so later readers benefit too
+ * 
+ * Trade-offs:
+ * - ✅ Cache-speed reads for clients that haven't written
+ * - ✅ Writers never read their own data back stale
+ * - ❌ Other clients may still see stale data within the TTL window
+ * - ❌ Responses vary per session, so they are not shareable by CDNs
+ * 
+ * @swagger
+ * /api/session-consistent:
+ *   get:
+ *     summary: Fetch products with session (read-your-writes) consistency
+ *     description: Returns cached product data unless it predates writes recorded in the session token
+ *     parameters:
+ *       - in: header
+ *         name: X-Session-Token
+ *         schema:
+ *           type: string
+ *         description: Token returned by PATCH /api/products/{id}
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Keyset cursor from metadata.next_cursor (cannot be combined with offset)
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *       - in: query
+ *         name: brand
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *       - in: query
+ *         name: min_price
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *       - in: query
+ *         name: max_price
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *       - in: query
+ *         name: in_stock
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: Case-insensitive search over name and description
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [updated_desc, price_asc, price_desc, name_asc]
+ *           default: updated_desc
+ *       - in: query
+ *         name: fields
+ *         schema:
+ *           type: string
+ *           enum: [summary, full]
+ *           default: full
+ *         description: summary omits inventory, currency, brand, description and image_url
+ *       - in: query
+ *         name: id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Fetch a single product (SingleProductResponse with served_from_cache/is_fresh) through a per-product cache key
+ *       - in: query
+ *         name: cache_ttl
+ *         schema:
+ *           type: integer
+ *           minimum: 5
+ *           maximum: 300
+ *           default: 60
+ *         description: Cache TTL in seconds
+ *       - in: query
+ *         name: stale_window
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 600
+ *           default: 0
+ *         description: Seconds a stale entry may be served while it is refreshed in the background (0 disables SWR)
+ *     responses:
+ *       200:
+ *         description: Products retrieved (cached, or fresh when the session's writes required it)
+ *       304:
+ *         description: Not Modified (client cache hit)
+ *       400:
+ *         description: Bad Request
+ *       500:
+ *         description: Internal Server Error
+ */
+
+const route = createConsistencyRoute(new SessionConsistencyStrategy());
+
+export const GET = route.GET;
+export const OPTIONS = route.OPTIONS;
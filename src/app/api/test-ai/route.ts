@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
 import { testAIServices, testBudgetTracking } from '@/lib/ai/test-utils';
 
 /**
@@ -8,7 +9,7 @@ import { testAIServices, testBudgetTracking } from '@/lib/ai/test-utils';
  * OpenAI API key is working correctly.
  */
 
-export async function GET() {
+async function testAI(): Promise<NextResponse> {
   try {
     // Test AI services availability and functionality
     const serviceTest = await testAIServices();
@@ -36,4 +37,9 @@ export async function GET() {
       message: 'AI services test failed'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+export const GET = withSecurity(testAI, SECURITY_PROFILES.PUBLIC_API);
+
+// Handle CORS preflight requests
+export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.PUBLIC_API);
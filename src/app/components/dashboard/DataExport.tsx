@@ -223,7 +223,7 @@ const AdvancedExportConfig = ({
         <div>
           <h4 className="font-semibold text-white mb-3">Models to Include</h4>
           <div className="space-y-2">
-            {['Neural Authority', 'Neural Cache', 'Smart Memory'].map((model) => (
+            {['Neural Authority', 'Neural Cache', 'Smart Memory', 'Session Guard'].map((model) => (
               <label
                 key={model}
                 className="flex items-center gap-3 p-3 bg-primary-800/30 border border-primary-600/20 rounded-lg hover:border-primary-500/40 transition-colors cursor-pointer"
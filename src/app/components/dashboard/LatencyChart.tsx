@@ -26,7 +26,8 @@ interface LatencyChartProps {
 const modelColors = {
   'Neural Authority': '#EF4444', // Red - Direct database (highest latency, most accurate)
   'Neural Cache': '#00C6AE',     // Accent teal - TTL cache (balanced)
-  'Smart Memory': '#A855F7'      // Purple - LRU cache (intelligent caching)
+  'Smart Memory': '#A855F7',     // Purple - LRU cache (intelligent caching)
+  'Session Guard': '#F59E0B'     // Amber - TTL cache with read-your-writes
 };
 
 const modelInfo = {
@@ -44,6 +45,11 @@ const modelInfo = {
     description: 'LRU intelligent caching',
     icon: Icons.Brain,
     expectedLatency: '30-150ms'
+  },
+  'Session Guard': {
+    description: 'TTL caching with read-your-writes',
+    icon: Icons.ShieldCheck,
+    expectedLatency: '50-500ms'
   }
 };
 
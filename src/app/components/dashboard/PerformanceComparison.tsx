@@ -29,7 +29,8 @@ interface PerformanceComparisonProps {
 const modelColors = {
   'Neural Authority': '#EF4444', // Red
   'Neural Cache': '#00C6AE',     // Accent teal
-  'Smart Memory': '#A855F7'      // Purple
+  'Smart Memory': '#A855F7',     // Purple
+  'Session Guard': '#F59E0B'     // Amber
 };
 
 const analysisTypes = [
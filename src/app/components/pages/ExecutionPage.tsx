@@ -48,7 +48,7 @@ const ConsistencyCard = ({
   title: string;
   description: string;
   endpoint: string;
-  colorTheme: 'neural' | 'cache' | 'smart';
+  colorTheme: 'neural' | 'cache' | 'smart' | 'session';
   onTest: (endpoint: string, mode: string) => void;
   isLoading: boolean;
   isActive: boolean;
@@ -74,6 +74,13 @@ const ConsistencyCard = ({
       text: 'group-hover:text-purple-400',
       ring: 'ring-purple-500',
       border: 'border-purple-500'
+    },
+    session: {
+      spotlightColor: 'rgba(245, 158, 11, 0.3)' as const, // Amber spotlight for Session Guard
+      icon: 'bg-amber-500',
+      text: 'group-hover:text-amber-400',
+      ring: 'ring-amber-500',
+      border: 'border-amber-500'
     }
   };
 
@@ -111,7 +118,8 @@ const ConsistencyCard = ({
           <BorderMagicButton 
             primaryColor={
               colorTheme === 'neural' ? '#EF4444' : 
-              colorTheme === 'cache' ? '#00C6AE' : '#A855F7'
+              colorTheme === 'cache' ? '#00C6AE' :
+              colorTheme === 'session' ? '#F59E0B' : '#A855F7'
             }
             onClick={(e) => {
               e.stopPropagation(); // Prevent card click when button is clicked
@@ -341,7 +349,7 @@ export default function ExecutionPage() {
 
       // Add metric to performance dashboard
       const metricData = {
-        modelName: mode as 'Neural Authority' | 'Neural Cache' | 'Smart Memory',
+        modelName: mode as 'Neural Authority' | 'Neural Cache' | 'Smart Memory' | 'Session Guard',
         endpoint,
         responseTime: currentResponseTime,
         cacheStatus: (cacheMetrics.status as any) || 'MISS',
@@ -350,7 +358,11 @@ export default function ExecutionPage() {
         fromCache: cacheMetrics.fromCache === 'true',
         efficiency: cacheMetrics.efficiency || 'standard',
         requestId: result.metadata?.requestId || `req_${Date.now()}`,
-        dataCount: (result.data as Product[])?.length || 0
+        dataCount: (result.data as Product[])?.length || 0,
+        stalenessChecked: response.headers.get('X-Staleness-Checked') === 'true',
+        staleItems: parseInt(response.headers.get('X-Stale-Items') || '0', 10),
+        maxVersionLag: parseInt(response.headers.get('X-Max-Version-Lag') || '0', 10),
+        stalenessMs: parseInt(response.headers.get('X-Staleness-Age') || '0', 10)
       };
       
       addMetric(metricData);
@@ -360,7 +372,8 @@ export default function ExecutionPage() {
         const consistencyModelMapping = {
           'Neural Authority': 'neural_authority',
           'Neural Cache': 'neural_cache', 
-          'Smart Memory': 'smart_memory'
+          'Smart Memory': 'smart_memory',
+          'Session Guard': 'session_guard'
         } as const;
 
         await userProfileService.recordPerformanceMetric({
@@ -380,7 +393,7 @@ export default function ExecutionPage() {
 
       // Create AI metric for this test
       const aiMetric = createAIMetricFromExecution(
-        mode as 'Neural Authority' | 'Neural Cache' | 'Smart Memory',
+        mode as 'Neural Authority' | 'Neural Cache' | 'Smart Memory' | 'Session Guard',
         endpoint,
         currentResponseTime,
         cacheMetrics,
@@ -400,7 +413,7 @@ export default function ExecutionPage() {
     } catch (error) {
       // Create AI metric for failed request
       const errorMetric = createAIMetricFromExecution(
-        (state.lastFetchMode || 'Neural Authority') as 'Neural Authority' | 'Neural Cache' | 'Smart Memory',
+        (state.lastFetchMode || 'Neural Authority') as 'Neural Authority' | 'Neural Cache' | 'Smart Memory' | 'Session Guard',
         endpoint,
         responseTime || 0,
         null,
@@ -435,6 +448,12 @@ export default function ExecutionPage() {
       description: 'AI-optimized caching with predictive freshness. Balanced speed and accuracy.',
       endpoint: '/api/smart-memory',
       colorTheme: 'smart' as const
+    },
+    {
+      title: 'Session Guard',
+      description: 'TTL caching that never hides your own writes. Cache speed until you change the data.',
+      endpoint: '/api/session-consistent',
+      colorTheme: 'session' as const
     }
   ];
 
@@ -482,7 +501,7 @@ export default function ExecutionPage() {
           )}
         </motion.div>
         
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-8 max-w-7xl mx-auto" data-testid="consistency-models">
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-8 max-w-7xl mx-auto" data-testid="consistency-models">
           {consistencyModels.map((model, index) => (
             <motion.div
               key={model.title}
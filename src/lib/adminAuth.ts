@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import type { Logger } from '@/lib/logger';
+import { RequestUser, resolveRequestUser } from '@/lib/requestUser';
+import type { ApiResponse } from '@/lib/types';
+
+/**
+ * Admin API Authorization
+ *
+ * Admin routes change server behaviour for every client, so they require
+ * either `Authorization: Bearer <ADMIN_API_TOKEN>` (fault injection; without
+ * ADMIN_API_TOKEN set that API is disabled outright rather than left open)
+ * or a signed-in user whose `user_profiles.role` is `admin` (rate limits).
+ */
+
+function tokensMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Returns the response to send when the request isn't authorized, or null
+ * when it may proceed
+ */
+export function authorizeAdmin(
+  request: NextRequest,
+  requestId: string,
+  logger: Logger
+): NextResponse | null {
+  const expected = process.env.ADMIN_API_TOKEN;
+  const metadata = { requestId, timestamp: new Date().toISOString(), duration: 0 };
+  const headers = { 'Content-Type': 'application/json', 'X-Request-ID': requestId };
+
+  if (!expected) {
+    logger.warn('Admin API request rejected - ADMIN_API_TOKEN is not configured');
+    return NextResponse.json(
+      { error: 'Admin API disabled', metadata } satisfies ApiResponse,
+      { status: 403, headers }
+    );
+  }
+
+  const authorization = request.headers.get('authorization') || '';
+  const [scheme, token] = authorization.split(' ');
+
+  if (scheme?.toLowerCase() !== 'bearer' || !token || !tokensMatch(token, expected)) {
+    logger.warn('Admin API request rejected - invalid credentials');
+    return NextResponse.json(
+      { error: 'Unauthorized', metadata } satisfies ApiResponse,
+      { status: 401, headers: { ...headers, 'WWW-Authenticate': 'Bearer realm="admin"' } }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Returns the signed-in admin, or the response to send when the request
+ * has no session (401) or the user isn't an admin (403)
+ */
+export async function authorizeAdminUser(
+  request: NextRequest,
+  requestId: string,
+  logger: Logger
+): Promise<RequestUser | NextResponse> {
+  const metadata = { requestId, timestamp: new Date().toISOString(), duration: 0 };
+  const headers = { 'Content-Type': 'application/json', 'X-Request-ID': requestId };
+  const user = await resolveRequestUser(request);
+
+  if (!user) {
+    logger.warn('Admin API request rejected - no session');
+    return NextResponse.json(
+      { error: 'Unauthorized', metadata } satisfies ApiResponse,
+      { status: 401, headers }
+    );
+  }
+
+  if (user.role !== 'admin') {
+    logger.warn('Admin API request rejected - admin role required', { userId: user.id, role: user.role });
+    return NextResponse.json(
+      { error: 'Forbidden', metadata } satisfies ApiResponse,
+      { status: 403, headers }
+    );
+  }
+
+  return user;
+}
@@ -98,7 +98,7 @@ export class CacheOptimizer {
     expectedPerformance: {
       latency: number;
       hitRate: number;
-      consistency: 'strong' | 'eventual';
+      consistency: 'strong' | 'session' | 'eventual';
     };
   } {
     const {
@@ -317,7 +317,7 @@ export class CacheOptimizer {
     requestCount: number;
     errorRate: number;
   }> {
-    const models: ConsistencyModel[] = ['neural_authority', 'neural_cache', 'smart_memory'];
+    const models: ConsistencyModel[] = ['neural_authority', 'neural_cache', 'smart_memory', 'session_guard'];
     const analysis: Record<string, any> = {};
 
     models.forEach(model => {
@@ -347,7 +347,7 @@ export class CacheOptimizer {
     analysis: Record<string, any>,
     requirements: { maxAcceptableLatency: number; minRequiredConsistency: string }
   ): { model: ConsistencyModel; confidence: number; rationale: string } {
-    const models: ConsistencyModel[] = ['neural_authority', 'neural_cache', 'smart_memory'];
+    const models: ConsistencyModel[] = ['neural_authority', 'neural_cache', 'smart_memory', 'session_guard'];
     let bestModel: ConsistencyModel = 'smart_memory';
     let bestScore = 0;
     let rationale = 'Default balanced choice';
@@ -393,7 +393,8 @@ export class CacheOptimizer {
     const consistencyMap = {
       'neural_authority': 'strong' as const,
       'neural_cache': 'eventual' as const,
-      'smart_memory': 'eventual' as const
+      'smart_memory': 'eventual' as const,
+      'session_guard': 'session' as const
     };
 
     return {
@@ -433,7 +434,8 @@ export class CacheOptimizer {
     const policies = {
       'neural_authority': 'None (no caching)',
       'neural_cache': 'TTL-based expiration',
-      'smart_memory': 'LRU (Least Recently Used)'
+      'smart_memory': 'LRU (Least Recently Used)',
+      'session_guard': 'TTL-based expiration, bypassed after your own writes'
     };
 
     return {
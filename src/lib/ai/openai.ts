@@ -169,7 +169,7 @@ class OpenAIClient {
     Focus on:
     - Cache hit rate improvements
     - Latency reduction strategies
-    - Optimal consistency model selection (neural_authority, neural_cache, smart_memory)
+    - Optimal consistency model selection (neural_authority, neural_cache, smart_memory, session_guard)
     - Configuration optimizations
     
     Respond in JSON format with: recommendations, expectedImprovements, and rationale.
@@ -332,7 +332,7 @@ export class PerformanceAnalyzer {
   }
 
   private calculateModelPerformance(metrics: PerformanceMetrics[]): Record<string, number> {
-    const models = ['neural_authority', 'neural_cache', 'smart_memory'];
+    const models = ['neural_authority', 'neural_cache', 'smart_memory', 'session_guard'];
     const performance: Record<string, number> = {};
 
     models.forEach(model => {
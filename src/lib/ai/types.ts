@@ -12,7 +12,7 @@ export interface PerformanceMetrics {
   cacheStatus: 'HIT' | 'MISS' | 'STALE' | 'EXPIRED';
   hitRate: number;
   endpoint: string;
-  consistencyModel: 'neural_authority' | 'neural_cache' | 'smart_memory';
+  consistencyModel: 'neural_authority' | 'neural_cache' | 'smart_memory' | 'session_guard';
   timestamp: string;
   dataSize?: number;
   errorOccurred?: boolean;
@@ -85,7 +85,7 @@ export interface CacheOptimizationResult {
     averageLatency: number;
   };
   optimizedStrategy: {
-    recommendedModel: 'neural_authority' | 'neural_cache' | 'smart_memory';
+    recommendedModel: 'neural_authority' | 'neural_cache' | 'smart_memory' | 'session_guard';
     expectedHitRate: number;
     expectedLatency: number;
     rationale: string;
@@ -142,7 +142,7 @@ export interface AIServiceError {
 
 // Utility Types
 export type AIAnalysisType = 'performance' | 'caching' | 'anomaly' | 'optimization' | 'comprehensive';
-export type ConsistencyModel = 'neural_authority' | 'neural_cache' | 'smart_memory';
+export type ConsistencyModel = 'neural_authority' | 'neural_cache' | 'smart_memory' | 'session_guard';
 export type CacheStatus = 'HIT' | 'MISS' | 'STALE' | 'EXPIRED';
 export type Priority = 'low' | 'medium' | 'high' | 'critical';
 export type Confidence = number; // 0-1 scale
\ No newline at end of file
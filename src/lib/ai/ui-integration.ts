@@ -8,7 +8,7 @@ import type { PerformanceMetrics } from '@/lib/ai/types';
  */
 
 interface ExecutionMetric {
-  modelName: 'Neural Authority' | 'Neural Cache' | 'Smart Memory';
+  modelName: 'Neural Authority' | 'Neural Cache' | 'Smart Memory' | 'Session Guard';
   endpoint: string;
   responseTime: number;
   cacheStatus: string;
@@ -42,7 +42,8 @@ export function convertToAIMetrics(
     const consistencyModelMap = {
       'Neural Authority': 'neural_authority' as const,
       'Neural Cache': 'neural_cache' as const,
-      'Smart Memory': 'smart_memory' as const
+      'Smart Memory': 'smart_memory' as const,
+      'Session Guard': 'session_guard' as const
     };
 
     // Map cache status to standard format
@@ -74,7 +75,7 @@ export function convertToAIMetrics(
  * Create a single AI metric from current execution data
  */
 export function createAIMetricFromExecution(
-  modelName: 'Neural Authority' | 'Neural Cache' | 'Smart Memory',
+  modelName: 'Neural Authority' | 'Neural Cache' | 'Smart Memory' | 'Session Guard',
   endpoint: string,
   responseTime: number,
   cacheMetrics: CacheMetrics | null,
@@ -84,7 +85,8 @@ export function createAIMetricFromExecution(
   const consistencyModelMap = {
     'Neural Authority': 'neural_authority' as const,
     'Neural Cache': 'neural_cache' as const,
-    'Smart Memory': 'smart_memory' as const
+    'Smart Memory': 'smart_memory' as const,
+    'Session Guard': 'session_guard' as const
   };
 
   // Parse hit rate from cache metrics
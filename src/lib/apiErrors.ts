@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import type { Logger } from '@/lib/logger';
+import {
+  CircuitOpenError,
+  DatabaseError,
+  ValidationError,
+  TimeoutError,
+  ApiResponse
+} from '@/lib/types';
+import { faultInjector } from '@/lib/repository/faults';
+
+/**
+ * API Error Responses
+ *
+ * Maps data-layer errors to HTTP responses so every route reports them the
+ * same way: ValidationError 422, TimeoutError 504, DatabaseError 503
+ * (CircuitOpenError with Retry-After until the next trial call), anything
+ * else 500.
+ */
+
+export function errorResponse(
+  error: unknown,
+  endpoint: string,
+  requestId: string,
+  logger: Logger,
+  duration: number,
+  headers: Record<string, string> = {}
+): NextResponse {
+  const metadata = {
+    requestId,
+    timestamp: new Date().toISOString(),
+    duration,
+    fault_profile: faultInjector.profileName()
+  };
+  const baseHeaders = {
+    'Content-Type': 'application/json',
+    'X-Request-ID': requestId,
+    ...headers
+  };
+
+  if (error instanceof ValidationError) {
+    logger.error(`Validation error in ${endpoint} endpoint`, error);
+    return NextResponse.json(
+      { error: 'Data validation failed', metadata } satisfies ApiResponse,
+      { status: 422, headers: baseHeaders }
+    );
+  }
+
+  if (error instanceof TimeoutError) {
+    logger.error(`Database timeout in ${endpoint} endpoint`, error);
+    return NextResponse.json(
+      { error: 'Request timeout - please try again', metadata } satisfies ApiResponse,
+      { status: 504, headers: { ...baseHeaders, 'Retry-After': '5' } }
+    );
+  }
+
+  if (error instanceof CircuitOpenError) {
+    logger.warn(`Database circuit open in ${endpoint} endpoint`, { retryAfterMs: error.retryAfterMs });
+    return NextResponse.json(
+      { error: 'Database temporarily unavailable', metadata } satisfies ApiResponse,
+      {
+        status: 503,
+        headers: {
+          ...baseHeaders,
+          'Retry-After': Math.max(1, Math.ceil(error.retryAfterMs / 1000)).toString(),
+          'X-Circuit-State': 'open'
+        }
+      }
+    );
+  }
+
+  if (error instanceof DatabaseError) {
+    logger.error(`Database error in ${endpoint} endpoint`, error);
+    return NextResponse.json(
+      { error: 'Database service unavailable', metadata } satisfies ApiResponse,
+      { status: 503, headers: { ...baseHeaders, 'Retry-After': '10' } }
+    );
+  }
+
+  // Handle unexpected errors
+  logger.error(`Unexpected error in ${endpoint} endpoint`, error as Error);
+  return NextResponse.json(
+    { error: 'Internal server error', metadata } satisfies ApiResponse,
+    { status: 500, headers: baseHeaders }
+  );
+}
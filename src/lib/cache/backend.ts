@@ -0,0 +1,117 @@
+/**
+ * Cache Backend Abstraction
+ *
+ * Storage layer that TTLCache and LRUCache sit on. The cache classes own
+ * logging and the public API; backends own where entries live and how they
+ * expire or get evicted.
+ *
+ * Backends:
+ * - memory: per-process storage (NodeCache for TTL, linked hash list for LRU)
+ * - redis: shared storage so every serverless instance sees the same cache
+ *
+ * Selected with CACHE_BACKEND=memory|redis (defaults to memory).
+ */
+
+export type CacheBackendKind = 'memory' | 'redis';
+
+/**
+ * How a backend drops entries once it reaches maxSize
+ * - ttl: entries only leave on expiry; writes are rejected when full
+ * - lru: the least recently used entry is evicted to make room
+ */
+export type EvictionPolicy = 'ttl' | 'lru';
+
+export type CacheCounter = 'hits' | 'misses' | 'staleHits' | 'coalesced' | 'evictions' | 'expirations';
+
+export interface StoredCacheEntry<T = unknown> {
+  value: T;
+  cachedAt: number; // epoch ms
+  expiresAt: number; // epoch ms, end of the fresh window
+  staleUntil: number; // epoch ms, entry is dropped after this (>= expiresAt)
+  accessCount: number;
+  lastAccess: number; // epoch ms
+}
+
+export interface CacheBackendOptions {
+  namespace: string;
+  maxSize: number;
+  policy: EvictionPolicy;
+  checkPeriodSeconds?: number;
+}
+
+export interface CacheBackend {
+  readonly kind: CacheBackendKind;
+
+  /**
+   * Read an entry that has not passed staleUntil. Callers decide whether a
+   * stale entry (past expiresAt) is servable. LRU backends also promote it
+   * to most recently used.
+   */
+  get<T>(key: string): Promise<StoredCacheEntry<T> | null>;
+
+  /**
+   * Store a value fresh for ttlSeconds and retained for a further
+   * staleSeconds; resolves false when the backend refused the write
+   */
+  set<T>(key: string, value: T, ttlSeconds: number, staleSeconds?: number): Promise<boolean>;
+
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Attach invalidation tags (e.g. `product:{id}`, `category:{name}`) to a key
+   */
+  tag(key: string, tags: string[]): Promise<void>;
+
+  /**
+   * Live keys carrying a tag
+   */
+  keysForTag(tag: string): Promise<string[]>;
+
+  /**
+   * Remove every entry and resolve the number removed
+   */
+  clear(): Promise<number>;
+
+  /**
+   * Live keys; LRU backends order them from most to least recently used
+   */
+  keys(): Promise<string[]>;
+
+  size(): Promise<number>;
+
+  /**
+   * Bump a shared counter. Never rejects: metrics must not fail requests.
+   */
+  increment(counter: CacheCounter): Promise<void>;
+
+  getCounters(): Promise<Record<CacheCounter, number>>;
+}
+
+export function emptyCounters(): Record<CacheCounter, number> {
+  return { hits: 0, misses: 0, staleHits: 0, coalesced: 0, evictions: 0, expirations: 0 };
+}
+
+/**
+ * Build a new entry fresh for ttlSeconds and servable-stale for staleSeconds after that
+ */
+export function createStoredEntry<T>(value: T, ttlSeconds: number, staleSeconds: number = 0): StoredCacheEntry<T> {
+  const now = Date.now();
+  const expiresAt = now + ttlSeconds * 1000;
+
+  return {
+    value,
+    cachedAt: now,
+    expiresAt,
+    staleUntil: expiresAt + Math.max(0, staleSeconds) * 1000,
+    accessCount: 0,
+    lastAccess: now
+  };
+}
+
+/**
+ * Resolve the configured backend kind from CACHE_BACKEND
+ */
+export function resolveBackendKind(): CacheBackendKind {
+  const configured = (process.env.CACHE_BACKEND || 'memory').toLowerCase();
+  return configured === 'redis' ? 'redis' : 'memory';
+}
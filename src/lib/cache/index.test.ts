@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TTLCache } from './index';
+import { MemoryTTLBackend } from './memory-backend';
+
+const T = Date.UTC(2026, 0, 1);
+
+function createTTLCache(): TTLCache {
+  return new TTLCache(60, 100, new MemoryTTLBackend({ namespace: 'test', maxSize: 100, policy: 'ttl', checkPeriodSeconds: 0 }));
+}
+
+describe('TTLCache stale-while-revalidate', () => {
+  // NodeCache and the entries both expire by Date.now
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'], now: T });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves an expired entry only inside its stale window, and only when asked', async () => {
+    const cache = createTTLCache();
+    await cache.set('key', 'v1', 10, 'req', 20);
+
+    expect(await cache.get('key', 'req', { allowStale: true })).toMatchObject({ data: 'v1', isStale: false });
+
+    vi.setSystemTime(T + 10_000);
+    expect(await cache.get('key', 'req')).toBeNull();
+    expect(await cache.get('key', 'req', { allowStale: true })).toMatchObject({ data: 'v1', isStale: true });
+
+    vi.setSystemTime(T + 30_000);
+    expect(await cache.get('key', 'req', { allowStale: true })).toBeNull();
+
+    const metrics = await cache.getMetrics();
+    expect(metrics).toMatchObject({ hits: 1, staleHits: 1, misses: 2 });
+  });
+
+  it('treats entries older than maxAgeMs as misses', async () => {
+    const cache = createTTLCache();
+    await cache.set('key', 'v1', 60, 'req');
+
+    vi.setSystemTime(T + 5_000);
+    expect(await cache.get('key', 'req', { maxAgeMs: 5_000 })).not.toBeNull();
+    vi.setSystemTime(T + 5_001);
+    expect(await cache.get('key', 'req', { maxAgeMs: 5_000 })).toBeNull();
+  });
+
+  it('replaces a stale entry with a fresh one when revalidated', async () => {
+    const cache = createTTLCache();
+    await cache.set('key', 'v1', 10, 'req', 20);
+    vi.setSystemTime(T + 15_000);
+
+    expect(await cache.revalidate('key', async () => 'v2', 10, 20, 'req', () => ['product:1'])).toBe(true);
+
+    expect(await cache.get('key', 'req')).toMatchObject({ data: 'v2', isStale: false, expiresAt: new Date(T + 25_000).toISOString() });
+    expect(await cache.invalidateTag('product:1', 'req')).toEqual(['key']);
+  });
+
+  it('runs one refresh per key at a time', async () => {
+    const cache = createTTLCache();
+    await cache.set('key', 'v1', 10, 'req', 20);
+    vi.setSystemTime(T + 15_000);
+
+    let finish!: (value: string) => void;
+    const loader = vi.fn(() => new Promise<string>(resolve => { finish = resolve; }));
+    const first = cache.revalidate('key', loader, 10, 20, 'req');
+
+    expect(cache.isRevalidating('key')).toBe(true);
+    expect(await cache.revalidate('key', loader, 10, 20, 'req')).toBe(false);
+    expect(loader).toHaveBeenCalledOnce();
+
+    finish('v2');
+    expect(await first).toBe(true);
+    expect(cache.isRevalidating('key')).toBe(false);
+  });
+
+  it('keeps serving the stale entry when a refresh fails', async () => {
+    const cache = createTTLCache();
+    await cache.set('key', 'v1', 10, 'req', 20);
+    vi.setSystemTime(T + 15_000);
+
+    expect(await cache.revalidate('key', async () => { throw new Error('database down'); }, 10, 20, 'req')).toBe(false);
+
+    expect(await cache.get('key', 'req', { allowStale: true })).toMatchObject({ data: 'v1', isStale: true });
+  });
+});
+
+describe('TTLCache coalescing', () => {
+  it('shares one load between concurrent misses and counts the joiners', async () => {
+    const cache = createTTLCache();
+    let finish!: (value: string) => void;
+    const pending = new Promise<string>(resolve => { finish = resolve; });
+    const loader = vi.fn(() => pending);
+
+    const loads = [cache.coalesce('key', loader, 'a'), cache.coalesce('key', loader, 'b'), cache.coalesce('key', loader, 'c')];
+    finish('value');
+
+    expect(await Promise.all(loads)).toEqual([
+      { data: 'value', coalesced: false },
+      { data: 'value', coalesced: true },
+      { data: 'value', coalesced: true }
+    ]);
+    expect(loader).toHaveBeenCalledOnce();
+    expect((await cache.getMetrics()).coalesced).toBe(2);
+  });
+});
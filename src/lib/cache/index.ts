@@ -1,29 +1,50 @@
-import NodeCache from 'node-cache';
 import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from '@/lib/logger';
 import { Product } from '@/lib/types';
+import {
+  CacheBackend,
+  CacheBackendKind,
+  CacheBackendOptions,
+  StoredCacheEntry,
+  emptyCounters,
+  resolveBackendKind
+} from './backend';
+import { MemoryLRUBackend, MemoryTTLBackend } from './memory-backend';
+import { RedisCacheBackend } from './redis-backend';
+import { SingleFlight } from './single-flight';
 
 /**
  * Production-Grade Cache Management System
- * 
+ *
  * Implements multiple caching strategies:
  * 1. TTL Cache - Time-based expiration (eventual consistency)
  * 2. LRU Cache - Least Recently Used eviction (smart memory management)
- * 
+ *
  * Features:
  * - Cache hit/miss tracking
  * - Performance metrics
  * - Cache warming and invalidation
- * - Thread-safe operations
+ * - Single-flight coalescing of concurrent misses
+ * - Pluggable storage backends (in-memory or Redis, see ./backend)
  * - Memory usage monitoring
  */
 
+export type { CacheBackend, CacheBackendKind, CacheBackendOptions, StoredCacheEntry } from './backend';
+export { MemoryLRUBackend, MemoryTTLBackend } from './memory-backend';
+export { RedisCacheBackend, getRedisClient } from './redis-backend';
+export { SingleFlight } from './single-flight';
+
 export interface CacheMetrics {
   hits: number;
   misses: number;
+  staleHits?: number;
+  coalesced?: number;
   hitRate: number;
   size: number;
   memoryUsage: number;
+  evictions?: number;
+  expirations?: number;
+  backend?: CacheBackendKind;
   lastAccess?: string;
 }
 
@@ -31,115 +52,248 @@ export interface CacheEntry<T> {
   data: T;
   cachedAt: string;
   expiresAt: string;
+  staleUntil: string;
+  isStale: boolean;
   accessCount: number;
   lastAccess: string;
 }
 
+export interface CacheGetOptions {
+  /**
+   * Return entries past their fresh TTL but still inside the stale window
+   */
+  allowStale?: boolean;
+
+  /**
+   * Treat entries cached longer ago than this as misses (bounded staleness)
+   */
+  maxAgeMs?: number;
+}
+
+/**
+ * Create the storage backend selected by CACHE_BACKEND
+ */
+export function createCacheBackend(options: CacheBackendOptions): CacheBackend {
+  if (resolveBackendKind() === 'redis') {
+    return new RedisCacheBackend(options);
+  }
+
+  return options.policy === 'lru'
+    ? new MemoryLRUBackend(options)
+    : new MemoryTTLBackend(options);
+}
+
+function toCacheEntry<T>(stored: StoredCacheEntry<T>): CacheEntry<T> {
+  return {
+    data: stored.value,
+    cachedAt: new Date(stored.cachedAt).toISOString(),
+    expiresAt: new Date(stored.expiresAt).toISOString(),
+    staleUntil: new Date(stored.staleUntil).toISOString(),
+    isStale: stored.expiresAt <= Date.now(),
+    accessCount: stored.accessCount,
+    lastAccess: new Date(stored.lastAccess).toISOString()
+  };
+}
+
+/**
+ * Build metrics from backend counters
+ */
+async function collectMetrics(backend: CacheBackend, lastAccess?: string): Promise<CacheMetrics> {
+  let counters = emptyCounters();
+  let size = 0;
+
+  try {
+    [counters, size] = await Promise.all([backend.getCounters(), backend.size()]);
+  } catch (error) {
+    // Metrics are best-effort; an unreachable backend reports an empty cache
+    createLogger('cache-metrics').warn('Failed to collect cache metrics', {
+      backend: backend.kind,
+      error: (error as Error).message
+    });
+  }
+
+  // Stale entries served under SWR still count as served-from-cache
+  const served = counters.hits + counters.staleHits;
+  const total = served + counters.misses;
+
+  return {
+    hits: counters.hits,
+    misses: counters.misses,
+    staleHits: counters.staleHits,
+    coalesced: counters.coalesced,
+    hitRate: total > 0 ? (served / total) * 100 : 0,
+    size,
+    // Estimate memory usage (rough calculation)
+    memoryUsage: size * 1024,
+    evictions: counters.evictions,
+    expirations: counters.expirations,
+    backend: backend.kind,
+    lastAccess
+  };
+}
+
 /**
  * TTL Cache Implementation
- * 
+ *
  * Provides time-based cache expiration for demonstrating
  * eventual consistency with predictable staleness windows.
  */
 export class TTLCache {
-  private cache: NodeCache;
-  private metrics: CacheMetrics;
-  private logger = createLogger('ttl-cache');
+  private backend: CacheBackend;
+  private flights = new SingleFlight();
+  private lastAccess?: string;
 
   constructor(
     private readonly defaultTTL: number = 60, // 60 seconds default
-    private readonly maxSize: number = 1000
+    private readonly maxSize: number = 1000,
+    backend?: CacheBackend
   ) {
-    this.cache = new NodeCache({
-      stdTTL: this.defaultTTL,
-      maxKeys: this.maxSize,
-      useClones: false, // Better performance, but be careful with mutations
-      deleteOnExpire: true,
-      checkperiod: 10 // Check for expired keys every 10 seconds
-    });
-
-    this.metrics = {
-      hits: 0,
-      misses: 0,
-      hitRate: 0,
-      size: 0,
-      memoryUsage: 0
-    };
-
-    // Set up cache event listeners for metrics
-    this.cache.on('hit', (key) => {
-      this.metrics.hits++;
-      this.updateHitRate();
-      this.logger.debug('Cache hit', { key, hitRate: this.metrics.hitRate });
-    });
-
-    this.cache.on('miss', (key) => {
-      this.metrics.misses++;
-      this.updateHitRate();
-      this.logger.debug('Cache miss', { key, hitRate: this.metrics.hitRate });
-    });
-
-    this.cache.on('expired', (key) => {
-      this.logger.debug('Cache entry expired', { key });
+    this.backend = backend ?? createCacheBackend({
+      namespace: 'ttl',
+      maxSize: this.maxSize,
+      policy: 'ttl',
+      checkPeriodSeconds: 10 // Check for expired keys every 10 seconds
     });
   }
 
-  private updateHitRate(): void {
-    const total = this.metrics.hits + this.metrics.misses;
-    this.metrics.hitRate = total > 0 ? (this.metrics.hits / total) * 100 : 0;
-    this.metrics.size = this.cache.keys().length;
-  }
-
   /**
    * Get value from cache with detailed metrics
+   *
+   * Entries past their TTL are misses unless `allowStale` is set and the
+   * entry is still inside the stale window it was stored with.
    */
-  get<T>(key: string, requestId: string = uuidv4()): CacheEntry<T> | null {
+  async get<T>(
+    key: string,
+    requestId: string = uuidv4(),
+    options: CacheGetOptions = {}
+  ): Promise<CacheEntry<T> | null> {
     const logger = createLogger(requestId);
-    
+
     try {
-      const value = this.cache.get<T>(key);
-      const ttl = this.cache.getTtl(key);
-      
-      if (value !== undefined && ttl && ttl > Date.now()) {
-        const entry: CacheEntry<T> = {
-          data: value,
-          cachedAt: new Date(Date.now() - (this.defaultTTL * 1000 - (ttl - Date.now()))).toISOString(),
-          expiresAt: new Date(ttl).toISOString(),
-          accessCount: 1, // Would need separate tracking for exact count
-          lastAccess: new Date().toISOString()
-        };
-
-        this.metrics.lastAccess = entry.lastAccess;
-        logger.debug('TTL cache hit', { key, expiresAt: entry.expiresAt });
+      const stored = await this.backend.get<T>(key);
+      const entry = stored ? toCacheEntry(stored) : null;
+      const tooOld = !!stored && options.maxAgeMs !== undefined && Date.now() - stored.cachedAt > options.maxAgeMs;
+
+      if (entry && !tooOld && (!entry.isStale || options.allowStale)) {
+        void this.backend.increment(entry.isStale ? 'staleHits' : 'hits');
+        this.lastAccess = entry.lastAccess;
+        logger.debug(entry.isStale ? 'TTL cache stale hit' : 'TTL cache hit', {
+          key,
+          expiresAt: entry.expiresAt,
+          staleUntil: entry.staleUntil
+        });
         return entry;
       }
 
-      logger.debug('TTL cache miss', { key, reason: value === undefined ? 'not-found' : 'expired' });
+      void this.backend.increment('misses');
+      logger.debug('TTL cache miss', { key, reason: tooOld ? 'too-old' : entry ? 'expired' : 'not-found' });
       return null;
     } catch (error) {
-      logger.error('TTL cache get failed', error as Error, { key });
+      logger.error('TTL cache get failed', error as Error, { key, backend: this.backend.kind });
       return null;
     }
   }
 
   /**
    * Set value in cache with TTL
+   *
+   * `staleSeconds` keeps the entry servable (with allowStale) for that long
+   * after the TTL passes, for stale-while-revalidate reads.
    */
-  set<T>(key: string, value: T, ttlSeconds?: number, requestId: string = uuidv4()): boolean {
+  async set<T>(
+    key: string,
+    value: T,
+    ttlSeconds?: number,
+    requestId: string = uuidv4(),
+    staleSeconds: number = 0
+  ): Promise<boolean> {
     const logger = createLogger(requestId);
-    
+
     try {
       const ttl = ttlSeconds || this.defaultTTL;
-      const success = this.cache.set(key, value, ttl);
-      
+      const success = await this.backend.set(key, value, ttl, staleSeconds);
+
       if (success) {
-        logger.debug('TTL cache set', { key, ttl, expiresAt: new Date(Date.now() + ttl * 1000).toISOString() });
-        this.updateMetrics();
+        logger.debug('TTL cache set', {
+          key,
+          ttl,
+          staleSeconds,
+          expiresAt: new Date(Date.now() + ttl * 1000).toISOString()
+        });
       }
-      
+
+      return success;
+    } catch (error) {
+      logger.error('TTL cache set failed', error as Error, { key, ttlSeconds, backend: this.backend.kind });
+      return false;
+    }
+  }
+
+  /**
+   * Load a missing entry through the single-flight layer
+   *
+   * Concurrent misses for the same key share one loader call; callers that
+   * joined an existing flight get `coalesced: true` and bump the counter.
+   */
+  async coalesce<T>(
+    key: string,
+    loader: () => Promise<T>,
+    requestId: string = uuidv4()
+  ): Promise<{ data: T; coalesced: boolean }> {
+    const { value, shared } = await this.flights.run(key, loader);
+
+    if (shared) {
+      void this.backend.increment('coalesced');
+      createLogger(requestId).debug('TTL cache miss coalesced', { key });
+    }
+
+    return { data: value, coalesced: shared };
+  }
+
+  /**
+   * Whether a load or background refresh for this key is already running
+   */
+  isRevalidating(key: string): boolean {
+    return this.flights.has(key);
+  }
+
+  /**
+   * Refresh an entry in the background (stale-while-revalidate)
+   *
+   * Runs through the same single-flight layer as misses, so only one refresh
+   * per key runs at a time in this process; concurrent callers resolve false
+   * without invoking the loader.
+   */
+  async revalidate<T>(
+    key: string,
+    loader: () => Promise<T>,
+    ttlSeconds: number,
+    staleSeconds: number,
+    requestId: string = uuidv4(),
+    tagsFor?: (value: T) => string[]
+  ): Promise<boolean> {
+    const logger = createLogger(requestId);
+
+    if (this.flights.has(key)) {
+      logger.debug('TTL cache revalidation already in flight', { key });
+      return false;
+    }
+
+    try {
+      let success = false;
+      await this.flights.run(key, async () => {
+        const value = await loader();
+        success = await this.set(key, value, ttlSeconds, requestId, staleSeconds);
+        if (success && tagsFor) {
+          await this.tag(key, tagsFor(value), requestId);
+        }
+        return value;
+      });
+      logger.info('TTL cache entry revalidated', { key, success });
       return success;
     } catch (error) {
-      logger.error('TTL cache set failed', error as Error, { key, ttlSeconds });
+      // Keep serving the stale entry; the next stale read retries
+      logger.error('TTL cache revalidation failed', error as Error, { key });
       return false;
     }
   }
@@ -147,14 +301,13 @@ export class TTLCache {
   /**
    * Invalidate specific cache key
    */
-  invalidate(key: string, requestId: string = uuidv4()): boolean {
+  async invalidate(key: string, requestId: string = uuidv4()): Promise<boolean> {
     const logger = createLogger(requestId);
-    
+
     try {
-      const deleted = this.cache.del(key) > 0;
+      const deleted = await this.backend.delete(key);
       if (deleted) {
         logger.info('TTL cache entry invalidated', { key });
-        this.updateMetrics();
       }
       return deleted;
     } catch (error) {
@@ -163,16 +316,43 @@ export class TTLCache {
     }
   }
 
+  /**
+   * Attach invalidation tags to a cached key
+   */
+  async tag(key: string, tags: string[], requestId: string = uuidv4()): Promise<void> {
+    try {
+      await this.backend.tag(key, tags);
+    } catch (error) {
+      createLogger(requestId).error('TTL cache tagging failed', error as Error, { key, tags });
+    }
+  }
+
+  /**
+   * Invalidate every key carrying a tag; resolves the keys removed
+   */
+  async invalidateTag(tag: string, requestId: string = uuidv4()): Promise<string[]> {
+    const logger = createLogger(requestId);
+
+    try {
+      const keys = await this.backend.keysForTag(tag);
+      const results = await Promise.all(keys.map(key => this.backend.delete(key)));
+      const removed = keys.filter((_, i) => results[i]);
+      logger.info('TTL cache tag invalidated', { tag, removedKeys: removed.length });
+      return removed;
+    } catch (error) {
+      logger.error('TTL cache tag invalidation failed', error as Error, { tag });
+      return [];
+    }
+  }
+
   /**
    * Clear all cache entries
    */
-  clear(requestId: string = uuidv4()): void {
+  async clear(requestId: string = uuidv4()): Promise<void> {
     const logger = createLogger(requestId);
-    
+
     try {
-      const keyCount = this.cache.keys().length;
-      this.cache.flushAll();
-      this.updateMetrics();
+      const keyCount = await this.backend.clear();
       logger.info('TTL cache cleared', { clearedKeys: keyCount });
     } catch (error) {
       logger.error('TTL cache clear failed', error as Error);
@@ -182,15 +362,8 @@ export class TTLCache {
   /**
    * Get cache performance metrics
    */
-  getMetrics(): CacheMetrics {
-    this.updateMetrics();
-    return { ...this.metrics };
-  }
-
-  private updateMetrics(): void {
-    this.metrics.size = this.cache.keys().length;
-    // Estimate memory usage (rough calculation)
-    this.metrics.memoryUsage = this.metrics.size * 1024; // Rough estimate in bytes
+  async getMetrics(): Promise<CacheMetrics> {
+    return collectMetrics(this.backend, this.lastAccess);
   }
 
   /**
@@ -198,10 +371,10 @@ export class TTLCache {
    */
   async warmCache(products: Product[], requestId: string = uuidv4()): Promise<void> {
     const logger = createLogger(requestId);
-    
+
     try {
       const cacheKey = 'products:latest';
-      this.set(cacheKey, products, this.defaultTTL, requestId);
+      await this.set(cacheKey, products, this.defaultTTL, requestId);
       logger.info('Cache warmed with products', { productCount: products.length, key: cacheKey });
     } catch (error) {
       logger.error('Cache warming failed', error as Error);
@@ -209,105 +382,67 @@ export class TTLCache {
   }
 }
 
+/**
+ * How long expired LRU entries stay retained for fallback reads
+ */
+const LRU_FALLBACK_RETENTION_SECONDS = parseInt(process.env.CACHE_FALLBACK_RETENTION_SECONDS || '300', 10);
+
 /**
  * LRU Cache Implementation
- * 
+ *
  * Implements Least Recently Used eviction policy for
  * intelligent memory management at edge locations.
+ *
+ * Recency tracking and O(1) eviction live in the backend
+ * (linked hash list in memory, sorted set in Redis).
  */
 export class LRUCache {
-  private cache: NodeCache;
-  private accessOrder: Map<string, number>;
-  private metrics: CacheMetrics;
-  private logger = createLogger('lru-cache');
+  private backend: CacheBackend;
+  private flights = new SingleFlight();
+  private lastAccess?: string;
 
   constructor(
     private readonly maxSize: number = 100,
-    private readonly defaultTTL: number = 300 // 5 minutes default
+    private readonly defaultTTL: number = 300, // 5 minutes default
+    backend?: CacheBackend
   ) {
-    this.cache = new NodeCache({
-      stdTTL: this.defaultTTL,
-      maxKeys: this.maxSize,
-      useClones: false,
-      deleteOnExpire: true,
-      checkperiod: 30
-    });
-
-    this.accessOrder = new Map();
-    this.metrics = {
-      hits: 0,
-      misses: 0,
-      hitRate: 0,
-      size: 0,
-      memoryUsage: 0
-    };
-
-    // Handle cache full scenario with LRU eviction
-    this.cache.on('set', (key) => {
-      this.updateAccessOrder(key);
-      this.enforceMaxSize();
+    this.backend = backend ?? createCacheBackend({
+      namespace: 'lru',
+      maxSize: this.maxSize,
+      policy: 'lru',
+      checkPeriodSeconds: 30
     });
   }
 
-  private updateAccessOrder(key: string): void {
-    this.accessOrder.set(key, Date.now());
-  }
-
-  private enforceMaxSize(): void {
-    const keys = this.cache.keys();
-    
-    if (keys.length > this.maxSize) {
-      // Sort by access time and remove least recently used
-      const sortedKeys = Array.from(this.accessOrder.entries())
-        .sort(([, timeA], [, timeB]) => timeA - timeB)
-        .map(([key]) => key);
-
-      const keysToRemove = sortedKeys.slice(0, keys.length - this.maxSize);
-      
-      keysToRemove.forEach(key => {
-        this.cache.del(key);
-        this.accessOrder.delete(key);
-        this.logger.debug('LRU evicted entry', { key });
-      });
-    }
-  }
-
   /**
    * Get value with LRU update
+   *
+   * Expired entries are misses; `allowStale` returns them while they are
+   * still retained (circuit-breaker fallback).
    */
-  get<T>(key: string, requestId: string = uuidv4()): CacheEntry<T> | null {
+  async get<T>(
+    key: string,
+    requestId: string = uuidv4(),
+    options: Pick<CacheGetOptions, 'allowStale'> = {}
+  ): Promise<CacheEntry<T> | null> {
     const logger = createLogger(requestId);
-    
+
     try {
-      const value = this.cache.get<T>(key);
-      const ttl = this.cache.getTtl(key);
-      
-      if (value !== undefined && ttl && ttl > Date.now()) {
-        // Update access order for LRU
-        this.updateAccessOrder(key);
-        
-        const entry: CacheEntry<T> = {
-          data: value,
-          cachedAt: new Date(Date.now() - (this.defaultTTL * 1000 - (ttl - Date.now()))).toISOString(),
-          expiresAt: new Date(ttl).toISOString(),
-          accessCount: 1,
-          lastAccess: new Date().toISOString()
-        };
-
-        this.metrics.hits++;
-        this.updateHitRate();
-        this.metrics.lastAccess = entry.lastAccess;
-        
-        logger.debug('LRU cache hit', { key, expiresAt: entry.expiresAt });
+      const stored = await this.backend.get<T>(key);
+      const entry = stored ? toCacheEntry(stored) : null;
+
+      if (entry && (!entry.isStale || options.allowStale)) {
+        void this.backend.increment(entry.isStale ? 'staleHits' : 'hits');
+        this.lastAccess = entry.lastAccess;
+        logger.debug(entry.isStale ? 'LRU cache stale hit' : 'LRU cache hit', { key, expiresAt: entry.expiresAt });
         return entry;
       }
 
-      this.metrics.misses++;
-      this.updateHitRate();
+      void this.backend.increment('misses');
       logger.debug('LRU cache miss', { key });
       return null;
     } catch (error) {
-      logger.error('LRU cache get failed', error as Error, { key });
+      logger.error('LRU cache get failed', error as Error, { key, backend: this.backend.kind });
       return null;
     }
   }
@@ -315,57 +450,115 @@ export class LRUCache {
   /**
    * Set value with LRU management
    */
-  set<T>(key: string, value: T, ttlSeconds?: number, requestId: string = uuidv4()): boolean {
+  async set<T>(key: string, value: T, ttlSeconds?: number, requestId: string = uuidv4()): Promise<boolean> {
     const logger = createLogger(requestId);
-    
+
     try {
       const ttl = ttlSeconds || this.defaultTTL;
-      const success = this.cache.set(key, value, ttl);
-      
+      // Expired entries linger (until evicted) so they can serve as a fallback
+      const success = await this.backend.set(key, value, ttl, LRU_FALLBACK_RETENTION_SECONDS);
+
       if (success) {
-        this.updateAccessOrder(key);
-        this.enforceMaxSize();
         logger.debug('LRU cache set', { key, ttl });
-        this.updateMetrics();
       }
-      
+
       return success;
     } catch (error) {
-      logger.error('LRU cache set failed', error as Error, { key });
+      logger.error('LRU cache set failed', error as Error, { key, backend: this.backend.kind });
+      return false;
+    }
+  }
+
+  /**
+   * Invalidate specific cache key
+   */
+  async invalidate(key: string, requestId: string = uuidv4()): Promise<boolean> {
+    const logger = createLogger(requestId);
+
+    try {
+      const deleted = await this.backend.delete(key);
+      if (deleted) {
+        logger.info('LRU cache entry invalidated', { key });
+      }
+      return deleted;
+    } catch (error) {
+      logger.error('LRU cache invalidation failed', error as Error, { key });
       return false;
     }
   }
 
-  private updateHitRate(): void {
-    const total = this.metrics.hits + this.metrics.misses;
-    this.metrics.hitRate = total > 0 ? (this.metrics.hits / total) * 100 : 0;
-    this.metrics.size = this.cache.keys().length;
+  /**
+   * Attach invalidation tags to a cached key
+   */
+  async tag(key: string, tags: string[], requestId: string = uuidv4()): Promise<void> {
+    try {
+      await this.backend.tag(key, tags);
+    } catch (error) {
+      createLogger(requestId).error('LRU cache tagging failed', error as Error, { key, tags });
+    }
+  }
+
+  /**
+   * Invalidate every key carrying a tag; resolves the keys removed
+   */
+  async invalidateTag(tag: string, requestId: string = uuidv4()): Promise<string[]> {
+    const logger = createLogger(requestId);
+
+    try {
+      const keys = await this.backend.keysForTag(tag);
+      const results = await Promise.all(keys.map(key => this.backend.delete(key)));
+      const removed = keys.filter((_, i) => results[i]);
+      logger.info('LRU cache tag invalidated', { tag, removedKeys: removed.length });
+      return removed;
+    } catch (error) {
+      logger.error('LRU cache tag invalidation failed', error as Error, { tag });
+      return [];
+    }
   }
 
-  private updateMetrics(): void {
-    this.metrics.size = this.cache.keys().length;
-    this.metrics.memoryUsage = this.metrics.size * 1024;
+  /**
+   * Load a missing entry through the single-flight layer
+   *
+   * Concurrent misses for the same key share one loader call; callers that
+   * joined an existing flight get `coalesced: true` and bump the counter.
+   */
+  async coalesce<T>(
+    key: string,
+    loader: () => Promise<T>,
+    requestId: string = uuidv4()
+  ): Promise<{ data: T; coalesced: boolean }> {
+    const { value, shared } = await this.flights.run(key, loader);
+
+    if (shared) {
+      void this.backend.increment('coalesced');
+      createLogger(requestId).debug('LRU cache miss coalesced', { key });
+    }
+
+    return { data: value, coalesced: shared };
+  }
+
+  /**
+   * Keys ordered from most to least recently used
+   */
+  async keys(): Promise<string[]> {
+    return this.backend.keys();
   }
 
   /**
    * Get cache metrics
    */
-  getMetrics(): CacheMetrics {
-    this.updateMetrics();
-    return { ...this.metrics };
+  async getMetrics(): Promise<CacheMetrics> {
+    return collectMetrics(this.backend, this.lastAccess);
   }
 
   /**
    * Clear all entries
    */
-  clear(requestId: string = uuidv4()): void {
+  async clear(requestId: string = uuidv4()): Promise<void> {
     const logger = createLogger(requestId);
-    
+
     try {
-      const keyCount = this.cache.keys().length;
-      this.cache.flushAll();
-      this.accessOrder.clear();
-      this.updateMetrics();
+      const keyCount = await this.backend.clear();
       logger.info('LRU cache cleared', { clearedKeys: keyCount });
     } catch (error) {
       logger.error('LRU cache clear failed', error as Error);
@@ -375,4 +568,4 @@ export class LRUCache {
 
 // Singleton instances for global use
 export const ttlCache = new TTLCache(60, 1000); // 60 second TTL, 1000 max entries
-export const lruCache = new LRUCache(100, 300); // 100 max entries, 5 minute TTL
\ No newline at end of file
+export const lruCache = new LRUCache(100, 300); // 100 max entries, 5 minute TTL
@@ -0,0 +1,101 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '@/lib/logger';
+import { InvalidationPolicy, Product } from '@/lib/types';
+import { lruCache, ttlCache } from './index';
+
+/**
+ * Cache Invalidation Policies
+ *
+ * Cached product responses are tagged when stored:
+ * - `product:{id}` for every product in the response
+ * - `category:{name}` for category-filtered queries, `category:*` otherwise
+ *
+ * After a write, a policy decides which tags to drop from both caches:
+ * - none: nothing; readers see stale data until TTL/LRU expiry
+ * - key: only keys containing the written product. Lists the product
+ *   would now appear in (e.g. after re-ordering by updated_at) stay stale.
+ * - tag: every key for the product's category plus unfiltered lists
+ */
+
+export function productTag(productId: string): string {
+  return `product:${productId}`;
+}
+
+export function categoryTag(category?: string): string {
+  return `category:${category ?? '*'}`;
+}
+
+/**
+ * Tags for a cached product response
+ */
+export function productCacheTags(products: Product[], query: { category?: string } = {}): string[] {
+  return [...products.map(product => productTag(product.id)), categoryTag(query.category)];
+}
+
+/**
+ * Tags for a cached single-product response; a not-found result is tagged
+ * with the ID alone so a later write still drops it
+ */
+export function singleProductCacheTags(productId: string, product: Product | null): string[] {
+  return product ? productCacheTags([product], product) : [productTag(productId)];
+}
+
+/**
+ * Tags a policy drops after a write to this product
+ */
+export function invalidationTags(product: Product, policy: InvalidationPolicy): string[] {
+  switch (policy) {
+    case 'key':
+      return [productTag(product.id)];
+    case 'tag':
+      return [categoryTag(product.category), categoryTag()];
+    case 'none':
+    default:
+      return [];
+  }
+}
+
+export interface InvalidationResult {
+  policy: InvalidationPolicy;
+  tags: string[];
+  ttlKeys: string[];
+  lruKeys: string[];
+}
+
+/**
+ * Apply an invalidation policy to ttlCache and lruCache after a product write
+ */
+export async function invalidateProduct(
+  product: Product,
+  policy: InvalidationPolicy,
+  requestId: string = uuidv4()
+): Promise<InvalidationResult> {
+  const logger = createLogger(requestId);
+  const tags = invalidationTags(product, policy);
+  const ttlKeys = new Set<string>();
+  const lruKeys = new Set<string>();
+
+  for (const tag of tags) {
+    const [ttlRemoved, lruRemoved] = await Promise.all([
+      ttlCache.invalidateTag(tag, requestId),
+      lruCache.invalidateTag(tag, requestId)
+    ]);
+    ttlRemoved.forEach(key => ttlKeys.add(key));
+    lruRemoved.forEach(key => lruKeys.add(key));
+  }
+
+  logger.info('Cache invalidation applied', {
+    productId: product.id,
+    policy,
+    tags,
+    ttlKeys: ttlKeys.size,
+    lruKeys: lruKeys.size
+  });
+
+  return {
+    policy,
+    tags,
+    ttlKeys: Array.from(ttlKeys),
+    lruKeys: Array.from(lruKeys)
+  };
+}
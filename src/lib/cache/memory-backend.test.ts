@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryLRUBackend } from './memory-backend';
+
+function createLRU(maxSize: number): MemoryLRUBackend {
+  return new MemoryLRUBackend({ namespace: 'test', maxSize, policy: 'lru', checkPeriodSeconds: 0 });
+}
+
+describe('MemoryLRUBackend', () => {
+  // Every eviction is logged at debug level; keep that out of the test output
+  beforeEach(() => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('evicts the least recently used key once full', async () => {
+    const cache = createLRU(3);
+    await cache.set('a', 1, 60);
+    await cache.set('b', 2, 60);
+    await cache.set('c', 3, 60);
+
+    await cache.set('d', 4, 60);
+
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.keys()).toEqual(['d', 'c', 'b']);
+  });
+
+  it('lets reads change which key is evicted', async () => {
+    const cache = createLRU(3);
+    await cache.set('a', 1, 60);
+    await cache.set('b', 2, 60);
+    await cache.set('c', 3, 60);
+
+    // a and then b become the most recently used, leaving c the oldest
+    await cache.get('a');
+    await cache.get('b');
+    await cache.set('d', 4, 60);
+
+    expect(await cache.keys()).toEqual(['d', 'b', 'a']);
+    expect(await cache.get('c')).toBeNull();
+
+    // Overwriting a key also counts as a use
+    await cache.set('a', 10, 60);
+    await cache.set('e', 5, 60);
+
+    expect(await cache.keys()).toEqual(['e', 'a', 'd']);
+    expect((await cache.getCounters()).evictions).toBe(2);
+  });
+
+  it('drops expired entries from the recency order', async () => {
+    const cache = createLRU(3);
+    await cache.set('short', 1, 0);
+    await cache.set('long', 2, 60);
+
+    expect(cache.purgeExpired(Date.now() + 1)).toBe(1);
+    expect(await cache.keys()).toEqual(['long']);
+    expect((await cache.getCounters()).expirations).toBe(1);
+  });
+
+  it('matches a reference LRU over a long random workload', async () => {
+    const maxSize = 500;
+    const distinctKeys = 5000;
+    const operations = 50000;
+    const cache = createLRU(maxSize);
+
+    // Reference model: array ordered from most to least recently used
+    let expected: string[] = [];
+    const touch = (key: string) => {
+      expected = [key, ...expected.filter(candidate => candidate !== key)].slice(0, maxSize);
+    };
+
+    // Deterministic LCG so failures reproduce
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    for (let i = 0; i < operations; i++) {
+      // Skew towards a hot set so reads hit often enough to reorder the list
+      const key = `key:${Math.floor(random() ** 3 * distinctKeys)}`;
+
+      if (random() < 0.5) {
+        const hit = await cache.get(key);
+        expect(hit !== null).toBe(expected.includes(key));
+        if (hit) touch(key);
+      } else {
+        await cache.set(key, i, 60);
+        touch(key);
+      }
+    }
+
+    expect(await cache.keys()).toEqual(expected);
+    expect(await cache.size()).toBe(maxSize);
+  });
+});
@@ -0,0 +1,351 @@
+import NodeCache from 'node-cache';
+import { createLogger } from '@/lib/logger';
+import {
+  CacheBackend,
+  CacheBackendOptions,
+  CacheCounter,
+  StoredCacheEntry,
+  createStoredEntry,
+  emptyCounters
+} from './backend';
+
+/**
+ * In-Memory Cache Backends
+ *
+ * Per-process storage. Fast and dependency-free, but every serverless
+ * instance gets its own cold cache and its own hit-rate counters.
+ */
+
+/**
+ * Tag -> keys index with a reverse map so dropped keys can be untagged
+ */
+class TagIndex {
+  private keysByTag = new Map<string, Set<string>>();
+  private tagsByKey = new Map<string, Set<string>>();
+
+  add(key: string, tags: string[]): void {
+    const keyTags = this.tagsByKey.get(key) ?? new Set<string>();
+    for (const tag of tags) {
+      keyTags.add(tag);
+      const keys = this.keysByTag.get(tag) ?? new Set<string>();
+      keys.add(key);
+      this.keysByTag.set(tag, keys);
+    }
+    this.tagsByKey.set(key, keyTags);
+  }
+
+  keysFor(tag: string): string[] {
+    return Array.from(this.keysByTag.get(tag) ?? []);
+  }
+
+  remove(key: string): void {
+    const keyTags = this.tagsByKey.get(key);
+    if (!keyTags) return;
+
+    for (const tag of keyTags) {
+      const keys = this.keysByTag.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) {
+        this.keysByTag.delete(tag);
+      }
+    }
+    this.tagsByKey.delete(key);
+  }
+
+  clear(): void {
+    this.keysByTag.clear();
+    this.tagsByKey.clear();
+  }
+}
+
+/**
+ * TTL backend built on NodeCache
+ *
+ * Entries only leave on expiry; NodeCache rejects writes once maxKeys is reached.
+ */
+export class MemoryTTLBackend implements CacheBackend {
+  readonly kind = 'memory' as const;
+  private cache: NodeCache;
+  private tags = new TagIndex();
+  private counters = emptyCounters();
+
+  constructor(private readonly options: CacheBackendOptions) {
+    this.cache = new NodeCache({
+      maxKeys: this.options.maxSize,
+      useClones: false, // Better performance, but be careful with mutations
+      deleteOnExpire: true,
+      checkperiod: this.options.checkPeriodSeconds ?? 10
+    });
+
+    this.cache.on('expired', () => {
+      this.counters.expirations++;
+    });
+
+    // Fires for explicit deletes and expiries alike
+    this.cache.on('del', (key: string) => {
+      this.tags.remove(key);
+    });
+  }
+
+  async get<T>(key: string): Promise<StoredCacheEntry<T> | null> {
+    const entry = this.cache.get<StoredCacheEntry<T>>(key);
+
+    if (!entry || entry.staleUntil <= Date.now()) {
+      return null;
+    }
+
+    entry.accessCount++;
+    entry.lastAccess = Date.now();
+    return { ...entry };
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number, staleSeconds: number = 0): Promise<boolean> {
+    const entry = createStoredEntry(value, ttlSeconds, staleSeconds);
+
+    try {
+      // Keep the entry around through its stale window
+      return this.cache.set(key, entry, ttlSeconds + Math.max(0, staleSeconds));
+    } catch {
+      // NodeCache throws ECACHEFULL once maxKeys is reached
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.cache.del(key) > 0;
+  }
+
+  async tag(key: string, tags: string[]): Promise<void> {
+    if (this.cache.has(key)) {
+      this.tags.add(key, tags);
+    }
+  }
+
+  async keysForTag(tag: string): Promise<string[]> {
+    return this.tags.keysFor(tag);
+  }
+
+  async clear(): Promise<number> {
+    const keyCount = this.cache.keys().length;
+    this.cache.flushAll();
+    this.tags.clear();
+    return keyCount;
+  }
+
+  async keys(): Promise<string[]> {
+    return this.cache.keys();
+  }
+
+  async size(): Promise<number> {
+    return this.cache.keys().length;
+  }
+
+  async increment(counter: CacheCounter): Promise<void> {
+    this.counters[counter]++;
+  }
+
+  async getCounters(): Promise<Record<CacheCounter, number>> {
+    return { ...this.counters };
+  }
+}
+
+/**
+ * Node in the LRU recency list
+ *
+ * Each node lives in both the key index and the doubly linked list,
+ * so lookups, promotions and evictions never scan the cache.
+ */
+interface LRUNode<T = unknown> {
+  key: string;
+  entry: StoredCacheEntry<T>;
+  prev: LRUNode | null;
+  next: LRUNode | null;
+}
+
+/**
+ * LRU backend using a linked hash structure (Map index + doubly linked list)
+ *
+ * - get/set/evict are O(1)
+ * - head is the most recently used entry, tail the least
+ * - expired entries are unlinked on access and by a periodic sweep,
+ *   so the recency list never holds keys the cache has dropped
+ */
+export class MemoryLRUBackend implements CacheBackend {
+  readonly kind = 'memory' as const;
+  private index = new Map<string, LRUNode>();
+  private head: LRUNode | null = null;
+  private tail: LRUNode | null = null;
+  private tags = new TagIndex();
+  private counters = emptyCounters();
+  private logger = createLogger('lru-cache');
+
+  constructor(private readonly options: CacheBackendOptions) {
+    const checkPeriodSeconds = this.options.checkPeriodSeconds ?? 30;
+
+    // Periodically drop expired entries (mirrors NodeCache's checkperiod)
+    if (checkPeriodSeconds > 0) {
+      const timer = setInterval(() => this.purgeExpired(), checkPeriodSeconds * 1000);
+      // Don't keep the process alive just for the sweep
+      if (typeof timer === 'object' && typeof timer.unref === 'function') {
+        timer.unref();
+      }
+    }
+  }
+
+  private moveToHead(node: LRUNode): void {
+    if (this.head === node) return;
+    this.unlink(node);
+    this.linkAtHead(node);
+  }
+
+  private linkAtHead(node: LRUNode): void {
+    node.prev = null;
+    node.next = this.head;
+    if (this.head) {
+      this.head.prev = node;
+    }
+    this.head = node;
+    if (!this.tail) {
+      this.tail = node;
+    }
+  }
+
+  private unlink(node: LRUNode): void {
+    if (node.prev) {
+      node.prev.next = node.next;
+    } else if (this.head === node) {
+      this.head = node.next;
+    }
+
+    if (node.next) {
+      node.next.prev = node.prev;
+    } else if (this.tail === node) {
+      this.tail = node.prev;
+    }
+
+    node.prev = null;
+    node.next = null;
+  }
+
+  /**
+   * Remove a node from both the index and the recency list
+   */
+  private removeNode(node: LRUNode, reason: 'evicted' | 'expired' | 'deleted'): void {
+    this.unlink(node);
+    this.index.delete(node.key);
+    this.tags.remove(node.key);
+
+    if (reason === 'evicted') {
+      this.counters.evictions++;
+      this.logger.debug('LRU evicted entry', { key: node.key });
+    } else if (reason === 'expired') {
+      this.counters.expirations++;
+      this.logger.debug('LRU entry expired', { key: node.key });
+    }
+  }
+
+  private enforceMaxSize(): void {
+    while (this.index.size > this.options.maxSize && this.tail) {
+      this.removeNode(this.tail, 'evicted');
+    }
+  }
+
+  /**
+   * Drop every expired entry; returns the number removed
+   */
+  purgeExpired(now: number = Date.now()): number {
+    let removed = 0;
+    for (const node of Array.from(this.index.values())) {
+      if (node.entry.staleUntil <= now) {
+        this.removeNode(node, 'expired');
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async get<T>(key: string): Promise<StoredCacheEntry<T> | null> {
+    const node = this.index.get(key) as LRUNode<T> | undefined;
+    if (!node) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (node.entry.staleUntil <= now) {
+      // Lazily drop the expired entry so the recency list stays in sync
+      this.removeNode(node, 'expired');
+      return null;
+    }
+
+    // Promote to most recently used
+    this.moveToHead(node);
+    node.entry.accessCount++;
+    node.entry.lastAccess = now;
+    return { ...node.entry };
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number, staleSeconds: number = 0): Promise<boolean> {
+    const entry = createStoredEntry(value, ttlSeconds, staleSeconds);
+
+    const existing = this.index.get(key);
+    if (existing) {
+      existing.entry = entry;
+      this.moveToHead(existing);
+      return true;
+    }
+
+    const node: LRUNode = { key, entry, prev: null, next: null };
+    this.index.set(key, node);
+    this.linkAtHead(node);
+    this.enforceMaxSize();
+    return true;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const node = this.index.get(key);
+    if (!node) {
+      return false;
+    }
+    this.removeNode(node, 'deleted');
+    return true;
+  }
+
+  async tag(key: string, tags: string[]): Promise<void> {
+    if (this.index.has(key)) {
+      this.tags.add(key, tags);
+    }
+  }
+
+  async keysForTag(tag: string): Promise<string[]> {
+    return this.tags.keysFor(tag);
+  }
+
+  async clear(): Promise<number> {
+    const keyCount = this.index.size;
+    this.index.clear();
+    this.tags.clear();
+    this.head = null;
+    this.tail = null;
+    return keyCount;
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let node = this.head; node; node = node.next) {
+      keys.push(node.key);
+    }
+    return keys;
+  }
+
+  async size(): Promise<number> {
+    return this.index.size;
+  }
+
+  async increment(counter: CacheCounter): Promise<void> {
+    this.counters[counter]++;
+  }
+
+  async getCounters(): Promise<Record<CacheCounter, number>> {
+    return { ...this.counters };
+  }
+}
@@ -0,0 +1,113 @@
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import type { RedisKey } from 'ioredis';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EvictionPolicy } from './backend';
+import { RedisCacheBackend } from './redis-backend';
+import { TTLCache } from './index';
+
+const T = Date.UTC(2026, 0, 1);
+
+describe('RedisCacheBackend', () => {
+  let client: Redis;
+
+  function createBackend(policy: EvictionPolicy, maxSize: number): RedisCacheBackend {
+    return new RedisCacheBackend({ namespace: 'test', maxSize, policy }, client);
+  }
+
+  // ioredis-mock expires keys by Date.now, so only the clock is faked
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: T });
+    client = new RedisMock() as unknown as Redis;
+    await client.flushall();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('drops entries once their stale window has passed', async () => {
+    const cache = createBackend('ttl', 10);
+    await cache.set('a', 1, 10, 5);
+
+    vi.setSystemTime(T + 12_000);
+    expect(await cache.get('a')).toMatchObject({ value: 1, expiresAt: T + 10_000, staleUntil: T + 15_000 });
+
+    vi.setSystemTime(T + 15_000);
+    expect(await cache.size()).toBe(0);
+    expect((await cache.getCounters()).expirations).toBe(1);
+    expect(await cache.get('a')).toBeNull();
+  });
+
+  it('refuses new keys once a ttl cache is full', async () => {
+    const cache = createBackend('ttl', 2);
+
+    expect(await cache.set('a', 1, 60)).toBe(true);
+    expect(await cache.set('b', 2, 60)).toBe(true);
+    expect(await cache.set('c', 3, 60)).toBe(false);
+    // Overwriting an existing key is still allowed
+    expect(await cache.set('a', 10, 60)).toBe(true);
+  });
+
+  it('evicts the least recently used key, counting reads as uses', async () => {
+    const cache = createBackend('lru', 3);
+    await cache.set('a', 1, 60);
+    vi.setSystemTime(T + 1);
+    await cache.set('b', 2, 60);
+    vi.setSystemTime(T + 2);
+    await cache.set('c', 3, 60);
+
+    vi.setSystemTime(T + 3);
+    await cache.get('a');
+    vi.setSystemTime(T + 4);
+    await cache.set('d', 4, 60);
+
+    expect(await cache.keys()).toEqual(['d', 'a', 'c']);
+    expect(await cache.get('b')).toBeNull();
+    expect((await cache.getCounters()).evictions).toBe(1);
+  });
+
+  it('keeps the TTL when a read updates the access stats', async () => {
+    const cache = createBackend('lru', 3);
+    await cache.set('a', 1, 10);
+
+    vi.setSystemTime(T + 5_000);
+    expect(await cache.get('a')).toMatchObject({ accessCount: 1, lastAccess: T + 5_000 });
+
+    vi.setSystemTime(T + 10_000);
+    expect(await client.exists('latentsee:cache:test:e:a')).toBe(0);
+  });
+
+  it('does not bring back an entry deleted while it was being read', async () => {
+    const cache = createBackend('lru', 3);
+    await cache.set('a', 1, 60);
+
+    // Invalidate between the read and the access-stats write
+    const get = client.get.bind(client);
+    vi.spyOn(client, 'get').mockImplementationOnce(async (key: RedisKey) => {
+      const raw = await get(key);
+      await cache.delete('a');
+      return raw;
+    });
+    await cache.get('a');
+
+    expect(await client.exists('latentsee:cache:test:e:a')).toBe(0);
+    expect(await cache.keys()).toEqual([]);
+  });
+
+  it('invalidates every live key carrying a tag', async () => {
+    const cache = new TTLCache(60, 10, createBackend('ttl', 10));
+    await cache.set('list:all', [1, 2], undefined, 'req');
+    await cache.tag('list:all', ['product:1', 'product:2', 'category:*'], 'req');
+    await cache.set('list:books', [1], undefined, 'req');
+    await cache.tag('list:books', ['product:1', 'category:books'], 'req');
+    await cache.set('list:toys', [3], undefined, 'req');
+    await cache.tag('list:toys', ['product:3', 'category:toys'], 'req');
+
+    expect((await cache.invalidateTag('product:1', 'req')).sort()).toEqual(['list:all', 'list:books']);
+    expect(await cache.get('list:all', 'req')).toBeNull();
+    expect(await cache.get('list:books', 'req')).toBeNull();
+    expect(await cache.get('list:toys', 'req')).toMatchObject({ data: [3] });
+  });
+});
@@ -0,0 +1,296 @@
+import Redis from 'ioredis';
+import { createLogger } from '@/lib/logger';
+import {
+  CacheBackend,
+  CacheBackendOptions,
+  CacheCounter,
+  StoredCacheEntry,
+  createStoredEntry,
+  emptyCounters
+} from './backend';
+
+/**
+ * Redis Cache Backend
+ *
+ * Shares cache state (entries, LRU order and hit/miss counters) across every
+ * serverless instance, so X-Cache-Hit-Rate reflects the whole fleet.
+ *
+ * Key layout under `latentsee:cache:{namespace}:`
+ * - `e:{key}`  JSON StoredCacheEntry, expired natively with PX at staleUntil
+ * - `expiry`   sorted set of keys scored by staleUntil (index for size/keys)
+ * - `lru`      sorted set of keys scored by lastAccess (lru policy only)
+ * - `stats`    hash of shared counters
+ * - `tag:{tag}` set of keys carrying an invalidation tag
+ * - `tags`     set of tag names in use (so clear() can drop them)
+ *
+ * Redis drops entry keys on its own; the sorted-set indexes are pruned of
+ * expired members before every size/keys/eviction decision.
+ */
+
+// Persist the access stats and promote the key, but only while the entry
+// still exists: if it expired or was invalidated since the GET, writing it
+// back would resurrect it without a TTL. The remaining PTTL is reapplied
+// (same effect as KEEPTTL inside one script).
+// KEYS: entry, lru; ARGV: entry JSON, now, key
+const TOUCH_SCRIPT = `
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl == -2 then
+  return 0
+end
+if ttl > 0 then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ttl)
+else
+  redis.call('SET', KEYS[1], ARGV[1])
+end
+redis.call('ZADD', KEYS[2], ARGV[2], ARGV[3])
+return 1
+`;
+
+let redisClient: Redis | null = null;
+
+/**
+ * Get the shared Redis connection (REDIS_URL, defaults to localhost)
+ */
+export function getRedisClient(): Redis {
+  if (!redisClient) {
+    const logger = createLogger('redis-client');
+    redisClient = new Redis(process.env.REDIS_URL || 'redis://127.0.0.1:6379', {
+      lazyConnect: true,
+      maxRetriesPerRequest: 1,
+      connectTimeout: parseInt(process.env.REDIS_CONNECT_TIMEOUT_MS || '2000', 10)
+    });
+
+    redisClient.on('error', (error) => {
+      logger.error('Redis connection error', error);
+    });
+  }
+  return redisClient;
+}
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly kind = 'redis' as const;
+  private readonly prefix: string;
+  private logger = createLogger('redis-cache');
+
+  constructor(
+    private readonly options: CacheBackendOptions,
+    private readonly client: Redis = getRedisClient()
+  ) {
+    this.prefix = `latentsee:cache:${this.options.namespace}:`;
+  }
+
+  private entryKey(key: string): string {
+    return `${this.prefix}e:${key}`;
+  }
+
+  private get expiryKey(): string {
+    return `${this.prefix}expiry`;
+  }
+
+  private get lruKey(): string {
+    return `${this.prefix}lru`;
+  }
+
+  private get statsKey(): string {
+    return `${this.prefix}stats`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.prefix}tag:${tag}`;
+  }
+
+  private get tagsKey(): string {
+    return `${this.prefix}tags`;
+  }
+
+  /**
+   * Remove index members whose entries have already expired
+   */
+  private async pruneExpired(now: number = Date.now()): Promise<void> {
+    const expired = await this.client.zrangebyscore(this.expiryKey, '-inf', now);
+    if (expired.length === 0) return;
+
+    const pipeline = this.client.multi().zrem(this.expiryKey, ...expired);
+    if (this.options.policy === 'lru') {
+      pipeline.zrem(this.lruKey, ...expired);
+    }
+    pipeline.hincrby(this.statsKey, 'expirations', expired.length);
+    await pipeline.exec();
+  }
+
+  async get<T>(key: string): Promise<StoredCacheEntry<T> | null> {
+    const raw = await this.client.get(this.entryKey(key));
+
+    if (!raw) {
+      // Keep the indexes in sync with keys Redis has already expired
+      const pipeline = this.client.multi().zrem(this.expiryKey, key);
+      if (this.options.policy === 'lru') {
+        pipeline.zrem(this.lruKey, key);
+      }
+      await pipeline.exec();
+      return null;
+    }
+
+    const entry = JSON.parse(raw) as StoredCacheEntry<T>;
+    const now = Date.now();
+    if (entry.staleUntil <= now) {
+      return null;
+    }
+
+    entry.accessCount++;
+    entry.lastAccess = now;
+
+    if (this.options.policy === 'lru') {
+      // Promote to most recently used and persist the access stats
+      await this.client.eval(TOUCH_SCRIPT, 2, this.entryKey(key), this.lruKey, JSON.stringify(entry), now, key);
+    }
+
+    return entry;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number, staleSeconds: number = 0): Promise<boolean> {
+    const entry = createStoredEntry(value, ttlSeconds, staleSeconds);
+    const now = entry.cachedAt;
+
+    await this.pruneExpired(now);
+
+    if (this.options.policy === 'ttl') {
+      // Match NodeCache maxKeys: refuse new keys once full
+      const [size, existing] = await Promise.all([
+        this.client.zcard(this.expiryKey),
+        this.client.zscore(this.expiryKey, key)
+      ]);
+      if (existing === null && size >= this.options.maxSize) {
+        return false;
+      }
+    }
+
+    const pipeline = this.client
+      .multi()
+      .set(this.entryKey(key), JSON.stringify(entry), 'PX', entry.staleUntil - now)
+      .zadd(this.expiryKey, entry.staleUntil, key);
+    if (this.options.policy === 'lru') {
+      pipeline.zadd(this.lruKey, now, key);
+    }
+    await pipeline.exec();
+
+    if (this.options.policy === 'lru') {
+      await this.evictOverflow();
+    }
+
+    return true;
+  }
+
+  /**
+   * Evict least recently used keys until the cache fits maxSize
+   */
+  private async evictOverflow(): Promise<void> {
+    const size = await this.client.zcard(this.lruKey);
+    const overflow = size - this.options.maxSize;
+    if (overflow <= 0) return;
+
+    // ZPOPMIN returns [member, score, member, score, ...]
+    const popped = await this.client.zpopmin(this.lruKey, overflow);
+    const evicted = popped.filter((_, i) => i % 2 === 0);
+    if (evicted.length === 0) return;
+
+    await this.client
+      .multi()
+      .del(...evicted.map(key => this.entryKey(key)))
+      .zrem(this.expiryKey, ...evicted)
+      .hincrby(this.statsKey, 'evictions', evicted.length)
+      .exec();
+
+    this.logger.debug('LRU evicted entries', { keys: evicted });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const pipeline = this.client
+      .multi()
+      .del(this.entryKey(key))
+      .zrem(this.expiryKey, key);
+    if (this.options.policy === 'lru') {
+      pipeline.zrem(this.lruKey, key);
+    }
+    const results = await pipeline.exec();
+    return Number(results?.[0]?.[1] ?? 0) > 0;
+  }
+
+  async tag(key: string, tags: string[]): Promise<void> {
+    if (tags.length === 0) return;
+
+    const pipeline = this.client.multi().sadd(this.tagsKey, ...tags);
+    for (const tag of tags) {
+      pipeline.sadd(this.tagKey(tag), key);
+    }
+    await pipeline.exec();
+  }
+
+  async keysForTag(tag: string): Promise<string[]> {
+    const members = await this.client.smembers(this.tagKey(tag));
+    if (members.length === 0) return [];
+
+    // Tag sets don't expire with their entries; drop members Redis already removed
+    const pipeline = this.client.multi();
+    for (const key of members) {
+      pipeline.exists(this.entryKey(key));
+    }
+    const results = (await pipeline.exec()) ?? [];
+    const live = members.filter((_, i) => Number(results[i]?.[1] ?? 0) > 0);
+    const dead = members.filter((_, i) => Number(results[i]?.[1] ?? 0) === 0);
+
+    if (dead.length > 0) {
+      await this.client.srem(this.tagKey(tag), ...dead);
+    }
+    return live;
+  }
+
+  async clear(): Promise<number> {
+    const [keys, tags] = await Promise.all([
+      this.client.zrange(this.expiryKey, 0, -1),
+      this.client.smembers(this.tagsKey)
+    ]);
+    const pipeline = this.client.multi();
+    if (keys.length > 0) {
+      pipeline.del(...keys.map(key => this.entryKey(key)));
+    }
+    if (tags.length > 0) {
+      pipeline.del(...tags.map(tag => this.tagKey(tag)));
+    }
+    pipeline.del(this.expiryKey, this.lruKey, this.tagsKey);
+    await pipeline.exec();
+    return keys.length;
+  }
+
+  async keys(): Promise<string[]> {
+    await this.pruneExpired();
+    return this.options.policy === 'lru'
+      ? this.client.zrevrange(this.lruKey, 0, -1)
+      : this.client.zrange(this.expiryKey, 0, -1);
+  }
+
+  async size(): Promise<number> {
+    await this.pruneExpired();
+    return this.client.zcard(this.expiryKey);
+  }
+
+  async increment(counter: CacheCounter): Promise<void> {
+    try {
+      await this.client.hincrby(this.statsKey, counter, 1);
+    } catch (error) {
+      this.logger.warn('Failed to record cache counter', {
+        counter,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  async getCounters(): Promise<Record<CacheCounter, number>> {
+    const stored = await this.client.hgetall(this.statsKey);
+    const counters = emptyCounters();
+    for (const counter of Object.keys(counters) as CacheCounter[]) {
+      counters[counter] = parseInt(stored[counter] || '0', 10);
+    }
+    return counters;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SingleFlight } from './single-flight';
+
+/**
+ * A loader the test settles by hand
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('SingleFlight', () => {
+  it('runs the loader once for concurrent callers of a key', async () => {
+    const flights = new SingleFlight();
+    const pending = deferred<string>();
+    const loader = vi.fn(() => pending.promise);
+
+    const callers = Array.from({ length: 5 }, () => flights.run('key', loader));
+    expect(flights.has('key')).toBe(true);
+
+    pending.resolve('value');
+    const results = await Promise.all(callers);
+
+    expect(loader).toHaveBeenCalledOnce();
+    expect(results.map(result => result.value)).toEqual(Array(5).fill('value'));
+    expect(results.filter(result => !result.shared)).toHaveLength(1);
+    expect(flights.has('key')).toBe(false);
+  });
+
+  it('keeps flights for different keys apart', async () => {
+    const flights = new SingleFlight();
+
+    const [a, b] = await Promise.all([
+      flights.run('a', async () => 'A'),
+      flights.run('b', async () => 'B')
+    ]);
+
+    expect(a).toEqual({ value: 'A', shared: false });
+    expect(b).toEqual({ value: 'B', shared: false });
+  });
+
+  it('rejects every caller of a failed flight, then lets the next call retry', async () => {
+    const flights = new SingleFlight();
+    const pending = deferred<string>();
+
+    const first = flights.run('key', () => pending.promise);
+    const joined = flights.run('key', async () => 'unused');
+    pending.reject(new Error('database down'));
+
+    await expect(first).rejects.toThrow('database down');
+    await expect(joined).rejects.toThrow('database down');
+    expect(flights.has('key')).toBe(false);
+
+    expect(await flights.run('key', async () => 'recovered')).toEqual({ value: 'recovered', shared: false });
+  });
+
+  it('does not cache a settled result', async () => {
+    const flights = new SingleFlight();
+    const loader = vi.fn(async () => 'value');
+
+    await flights.run('key', loader);
+    await flights.run('key', loader);
+
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
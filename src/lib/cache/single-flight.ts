@@ -0,0 +1,44 @@
+/**
+ * Single-Flight Request Coalescing
+ *
+ * Concurrent callers asking for the same key share one in-flight promise
+ * instead of each hitting the database (thundering herd on cache misses).
+ * Scope is the current process; the result is not cached once it settles.
+ */
+
+export interface SingleFlightResult<T> {
+  value: T;
+  /** True when this caller joined a flight started by someone else */
+  shared: boolean;
+}
+
+export class SingleFlight {
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Whether a flight for this key is currently running
+   */
+  has(key: string): boolean {
+    return this.inFlight.has(key);
+  }
+
+  /**
+   * Run `fn` for this key, or join the flight already running for it.
+   * Rejections propagate to every caller of the shared flight.
+   */
+  async run<T>(key: string, fn: () => Promise<T>): Promise<SingleFlightResult<T>> {
+    const existing = this.inFlight.get(key) as Promise<T> | undefined;
+    if (existing) {
+      return { value: await existing, shared: true };
+    }
+
+    const flight = Promise.resolve()
+      .then(fn)
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+    this.inFlight.set(key, flight);
+
+    return { value: await flight, shared: false };
+  }
+}
@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+import { repository } from '@/lib/repository';
+import { createLogger } from '@/lib/logger';
+import type { Cart, CartItem, Order, PriceChange, Product } from '@/lib/types';
+
+/**
+ * Cart Checkout
+ *
+ * Items are added at whatever price the chosen consistency mode served.
+ * Checkout re-reads authoritative prices, charges those, and records every
+ * item whose price drifted - the business cost of serving stale prices.
+ *
+ * A cart is checked out at most once (the database allows one order per
+ * cart), so a repeated checkout - e.g. a client retrying after a timeout -
+ * gets the original order back instead of a second charge.
+ */
+
+export interface CheckoutResult {
+  order: Order | null; // null when some products no longer exist
+  replayed: boolean; // order is the one an earlier checkout created
+  priceChanges: PriceChange[];
+  unavailable: string[]; // product IDs missing from the database
+  totalAmount: number;
+}
+
+/**
+ * Compare the prices items were added at with the current products
+ */
+export function comparePrices(
+  items: CartItem[],
+  products: Product[]
+): Omit<CheckoutResult, 'order' | 'replayed'> {
+  const current = new Map(products.map(product => [product.id, product]));
+  const priceChanges: PriceChange[] = [];
+  const unavailable: string[] = [];
+  let totalAmount = 0;
+
+  for (const item of items) {
+    const product = current.get(item.product_id);
+    if (!product) {
+      unavailable.push(item.product_id);
+      continue;
+    }
+
+    totalAmount += product.price * item.quantity;
+
+    if (product.price !== item.added_price) {
+      priceChanges.push({
+        product_id: item.product_id,
+        mode: item.mode,
+        quantity: item.quantity,
+        added_price: item.added_price,
+        checkout_price: product.price,
+        difference: product.price - item.added_price
+      });
+    }
+  }
+
+  return { priceChanges, unavailable, totalAmount };
+}
+
+/**
+ * The result of the checkout that already created `order`
+ */
+function replayedCheckout(order: Order): CheckoutResult {
+  const priceChanges = order.price_changes ?? [];
+  return { order, replayed: true, priceChanges, unavailable: [], totalAmount: order.total_amount };
+}
+
+/**
+ * Check out a cart at authoritative prices and record any drift on the order
+ */
+export async function checkoutCart(cart: Cart, requestId: string = uuidv4()): Promise<CheckoutResult> {
+  const logger = createLogger(requestId);
+
+  const existing = await repository.getOrder(cart.id, requestId);
+  if (existing) {
+    logger.info('Checkout replayed - cart already checked out', { cartId: cart.id, orderId: existing.id });
+    return replayedCheckout(existing);
+  }
+
+  const productIds = Array.from(new Set(cart.items.map(item => item.product_id)));
+
+  // Always read prices from the database: checkout must charge the real price
+  const products = await repository.getProductsByIds(productIds, requestId);
+  const comparison = comparePrices(cart.items, products);
+
+  if (comparison.unavailable.length > 0) {
+    logger.warn('Checkout blocked - products no longer available', {
+      cartId: cart.id,
+      unavailable: comparison.unavailable
+    });
+    return { order: null, replayed: false, ...comparison };
+  }
+
+  const order = await repository.createOrder(cart.id, comparison.totalAmount, comparison.priceChanges, requestId);
+  if (!order) {
+    // A concurrent checkout of the same cart won the insert
+    const winner = await repository.getOrder(cart.id, requestId);
+    if (!winner) {
+      throw new Error(`Order for cart ${cart.id} was rejected as a duplicate but cannot be found`);
+    }
+    logger.info('Checkout replayed - concurrent checkout created the order', { cartId: cart.id, orderId: winner.id });
+    return replayedCheckout(winner);
+  }
+
+  logger.info('Checkout completed', {
+    cartId: cart.id,
+    orderId: order.id,
+    totalAmount: comparison.totalAmount,
+    priceChanges: comparison.priceChanges.length
+  });
+
+  return { order, replayed: false, ...comparison };
+}
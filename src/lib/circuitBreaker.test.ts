@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from './circuitBreaker';
+
+const T = Date.UTC(2026, 0, 1);
+
+function createBreaker(): CircuitBreaker {
+  return new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 10_000, halfOpenMaxCalls: 1 });
+}
+
+function fail(breaker: CircuitBreaker, times: number): void {
+  for (let i = 0; i < times; i++) {
+    breaker.tryAcquire();
+    breaker.recordFailure();
+  }
+}
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'], now: T });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after consecutive failures, and a success resets the count', () => {
+    const breaker = createBreaker();
+
+    fail(breaker, 2);
+    breaker.recordSuccess();
+    fail(breaker, 2);
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+
+    fail(breaker, 1);
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', openedAt: new Date(T).toISOString() });
+  });
+
+  it('rejects calls while open and reports when trials resume', () => {
+    const breaker = createBreaker();
+    fail(breaker, 3);
+
+    vi.setSystemTime(T + 4_000);
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.retryAfterMs()).toBe(6_000);
+    expect(breaker.getStatus()).toMatchObject({ totalRejected: 1, nextAttemptAt: new Date(T + 10_000).toISOString() });
+  });
+
+  it('lets a limited number of trial calls through once the reset timeout passes', () => {
+    const breaker = createBreaker();
+    fail(breaker, 3);
+
+    vi.setSystemTime(T + 10_000);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getStatus().state).toBe('half-open');
+    // Only one trial at a time
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0, openedAt: null });
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('opens again straight away when a trial call fails', () => {
+    const breaker = createBreaker();
+    fail(breaker, 3);
+
+    vi.setSystemTime(T + 10_000);
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', openedAt: new Date(T + 10_000).toISOString() });
+    expect(breaker.retryAfterMs()).toBe(10_000);
+  });
+});
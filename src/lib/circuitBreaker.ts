@@ -0,0 +1,99 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops calling a failing dependency so requests fail fast instead of
+ * waiting out timeouts and retries:
+ * - closed: calls go through; consecutive failures are counted
+ * - open: calls are rejected until `resetTimeoutMs` has passed
+ * - half-open: up to `halfOpenMaxCalls` trial calls go through; a success
+ *   closes the circuit, a failure opens it again
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures that open the circuit
+  resetTimeoutMs: number; // time open before trial calls are allowed
+  halfOpenMaxCalls: number; // concurrent trial calls while half-open
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  nextAttemptAt: string | null; // when an open circuit starts allowing trial calls
+  totalRejected: number;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialCalls = 0;
+  private totalRejected = 0;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether a call may go through now; moves an open circuit to half-open
+   * once its reset timeout has passed
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && this.openedAt !== null &&
+        Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = 'half-open';
+      this.trialCalls = 0;
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half-open' && this.trialCalls < this.options.halfOpenMaxCalls) {
+      this.trialCalls++;
+      return true;
+    }
+
+    this.totalRejected++;
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialCalls = 0;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.trialCalls = 0;
+    }
+  }
+
+  /**
+   * Milliseconds until an open circuit allows a trial call (0 otherwise)
+   */
+  retryAfterMs(): number {
+    if (this.state !== 'open' || this.openedAt === null) {
+      return 0;
+    }
+    return Math.max(0, this.openedAt + this.options.resetTimeoutMs - Date.now());
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const retryAfter = this.retryAfterMs();
+
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      nextAttemptAt: this.state === 'open' ? new Date(Date.now() + retryAfter).toISOString() : null,
+      totalRejected: this.totalRejected
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { repository } from '@/lib/repository';
+import { ttlCache } from '@/lib/cache';
+import { productCacheTags } from '@/lib/cache/invalidation';
+import { CircuitOpenError, MaxStalenessSchema } from '@/lib/types';
+import type { GetProductsQuery, Product } from '@/lib/types';
+import {
+  ConsistencyMode,
+  ConsistencyStrategy,
+  StrategyContext,
+  StrategyResult,
+  fallbackResult,
+  productsQueryKey
+} from './types';
+
+/**
+ * Bounded Staleness Strategy (bounded-staleness)
+ *
+ * The client picks `max_staleness_ms` and no response is older than that:
+ * a cached entry is served only while its age (time since the database read
+ * that produced it) is within the bound, otherwise it is refreshed. Every
+ * bound shares the same entries, so sweeping the bound traces the
+ * latency/staleness curve for one workload.
+ */
+
+export interface BoundedStalenessOptions {
+  maxStalenessMs: number;
+}
+
+/**
+ * Bound used when the client doesn't pass `max_staleness_ms`
+ */
+const DEFAULT_MAX_STALENESS_MS = parseInt(process.env.BOUNDED_STALENESS_DEFAULT_MS || '5000', 10);
+
+/**
+ * Entries live as long as the largest accepted bound (MaxStalenessSchema)
+ */
+const ENTRY_TTL_SECONDS = 300;
+
+export class BoundedStalenessStrategy implements ConsistencyStrategy<BoundedStalenessOptions> {
+  readonly name: string = 'bounded-staleness';
+  readonly model: string = 'bounded';
+  readonly cachePolicy: string = 'TTL+BOUND';
+  readonly mode: ConsistencyMode = 'fast';
+
+  parseOptions(searchParams: URLSearchParams): BoundedStalenessOptions {
+    const bound = searchParams.get('max_staleness_ms');
+
+    // The bound is what the client measures, so reject bad values rather than guess
+    return {
+      maxStalenessMs: bound === null ? DEFAULT_MAX_STALENESS_MS : MaxStalenessSchema.parse(bound)
+    };
+  }
+
+  async getProducts(
+    query: GetProductsQuery,
+    { maxStalenessMs }: BoundedStalenessOptions,
+    { requestId, logger }: StrategyContext
+  ): Promise<StrategyResult<Product[]>> {
+    const cacheKey = `bounded:products:${productsQueryKey(query)}`;
+    const boundHeaders = { 'X-Staleness-Bound': `${maxStalenessMs}ms` };
+
+    const cacheStartTime = performance.now();
+    const cachedEntry = await ttlCache.get<Product[]>(cacheKey, requestId, { maxAgeMs: maxStalenessMs });
+    const cacheCheckDuration = Math.round((performance.now() - cacheStartTime) * 100) / 100;
+
+    if (cachedEntry) {
+      const ageMs = Math.max(0, Date.now() - new Date(cachedEntry.cachedAt).getTime());
+
+      logger.info('Cache entry within staleness bound - serving cached data', {
+        cacheKey,
+        ageMs,
+        maxStalenessMs
+      });
+
+      // Clients may reuse the response only for what is left of the bound
+      const maxAge = Math.floor(Math.max(0, maxStalenessMs - ageMs) / 1000);
+
+      return {
+        data: cachedEntry.data,
+        cacheStatus: 'HIT',
+        fromCache: true,
+        cacheCheckTime: cacheCheckDuration,
+        dbTime: 0,
+        cacheAge: Math.round(ageMs / 1000),
+        cachedAt: cachedEntry.cachedAt,
+        staleAge: 0,
+        revalidating: false,
+        cacheMetrics: await ttlCache.getMetrics(),
+        cacheControl: `public, max-age=${maxAge}`,
+        efficiency: 'optimal',
+        headers: { ...boundHeaders, 'X-Data-Age': `${ageMs}ms` }
+      };
+    }
+
+    // Missing or older than the bound - refresh from the database
+    logger.info('Cache entry missing or past staleness bound - fetching from database', {
+      cacheKey,
+      maxStalenessMs
+    });
+
+    const dbStartTime = performance.now();
+    try {
+      // Concurrent refreshes for this key share one database query
+      const loaded = await ttlCache.coalesce(cacheKey, () => repository.getProducts(query, requestId), requestId);
+      const dbDuration = Math.round((performance.now() - dbStartTime) * 100) / 100;
+
+      if (!loaded.coalesced && await ttlCache.set(cacheKey, loaded.data, ENTRY_TTL_SECONDS, requestId)) {
+        // Tag for write-path invalidation (see PATCH /api/products/[id])
+        await ttlCache.tag(cacheKey, productCacheTags(loaded.data, query), requestId);
+      }
+
+      return {
+        data: loaded.data,
+        cacheStatus: loaded.coalesced ? 'COALESCED' : 'MISS',
+        fromCache: false,
+        cacheCheckTime: cacheCheckDuration,
+        dbTime: dbDuration,
+        cacheAge: 0,
+        staleAge: 0,
+        revalidating: false,
+        cacheMetrics: await ttlCache.getMetrics(),
+        cacheControl: `public, max-age=${Math.floor(maxStalenessMs / 1000)}`,
+        efficiency: 'standard',
+        headers: { ...boundHeaders, 'X-Data-Age': '0ms' }
+      };
+    } catch (dbError) {
+      if (dbError instanceof CircuitOpenError) {
+        // Database unavailable: serve the entry even past the bound, and say how old it is
+        const fallback = await ttlCache.get<Product[]>(cacheKey, requestId, { allowStale: true });
+        if (fallback) {
+          const ageMs = Math.max(0, Date.now() - new Date(fallback.cachedAt).getTime());
+          logger.warn('Database circuit open - serving cached fallback past staleness bound', {
+            cacheKey,
+            ageMs,
+            maxStalenessMs
+          });
+
+          const result = fallbackResult(fallback, cacheCheckDuration, await ttlCache.getMetrics());
+          return {
+            ...result,
+            headers: { ...result.headers, ...boundHeaders, 'X-Data-Age': `${ageMs}ms` }
+          };
+        }
+      }
+
+      logger.error('Database fetch failed during bounded-staleness refresh', dbError as Error);
+      throw dbError;
+    }
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Consistency Models
+ *
+ * One strategy class per model plus the route factory that turns a
+ * strategy into API route handlers.
+ */
+
+export * from './types';
+export { createConsistencyRoute } from './route';
+export type { ConsistencyRoute } from './route';
+export { StrongConsistencyStrategy } from './strong';
+export { TTLCacheStrategy } from './ttl';
+export type { TTLStrategyOptions } from './ttl';
+export { LRUCacheStrategy } from './lru';
+export type { LRUStrategyOptions, CachePriority } from './lru';
+export { BoundedStalenessStrategy } from './bounded';
+export type { BoundedStalenessOptions } from './bounded';
+export { ReplicaReadStrategy, PRIMARY_REGION } from './replica';
+export type { ReplicaReadOptions } from './replica';
+export {
+  SessionConsistencyStrategy,
+  SESSION_TOKEN_HEADER,
+  parseSessionToken,
+  recordSessionWrite,
+  missedSessionWrites
+} from './session';
+export type { SessionWrite, SessionWrites } from './session';
+export { readProductForMode } from './modes';
@@ -0,0 +1,187 @@
+import { repository } from '@/lib/repository';
+import { lruCache } from '@/lib/cache';
+import { productCacheTags, singleProductCacheTags } from '@/lib/cache/invalidation';
+import { CircuitOpenError } from '@/lib/types';
+import type { GetProductsQuery, Product } from '@/lib/types';
+import { ConsistencyStrategy, StrategyContext, StrategyResult, fallbackResult, productsQueryKey } from './types';
+
+/**
+ * LRU Cache Strategy (smart-memory, intelligent edge caching)
+ *
+ * Popular responses stay in a size-bounded cache while the least recently
+ * used ones are evicted. A `priority` hint picks the entry TTL, and each
+ * priority gets its own cache key.
+ */
+
+export type CachePriority = 'low' | 'normal' | 'high';
+
+export interface LRUStrategyOptions {
+  priority: CachePriority;
+}
+
+/**
+ * Entry TTL by priority
+ */
+const PRIORITY_TTL: Record<CachePriority, number> = {
+  low: 60,      // 1 minute for low priority
+  normal: 300,  // 5 minutes for normal priority
+  high: 900     // 15 minutes for high priority
+};
+
+export class LRUCacheStrategy implements ConsistencyStrategy<LRUStrategyOptions> {
+  readonly name = 'smart-memory';
+  readonly model = 'lru';
+  readonly cachePolicy = 'LRU';
+  readonly mode = 'smart' as const;
+
+  parseOptions(searchParams: URLSearchParams): LRUStrategyOptions {
+    const priority = searchParams.get('priority');
+
+    return {
+      priority: priority && priority in PRIORITY_TTL ? priority as CachePriority : 'normal'
+    };
+  }
+
+  async getProducts(
+    query: GetProductsQuery,
+    options: LRUStrategyOptions,
+    context: StrategyContext
+  ): Promise<StrategyResult<Product[]>> {
+    // Cache key carries the priority so each hint gets its own entry
+    const cacheKey = `products:${productsQueryKey(query)}:${options.priority}`;
+
+    return this.read(
+      cacheKey,
+      () => repository.getProducts(query, context.requestId),
+      (products) => productCacheTags(products, query),
+      options,
+      context
+    );
+  }
+
+  async getProduct(
+    productId: string,
+    options: LRUStrategyOptions,
+    context: StrategyContext
+  ): Promise<StrategyResult<Product | null>> {
+    // Per-product key so product pages don't depend on list queries
+    const cacheKey = `product:${productId}:${options.priority}`;
+
+    return this.read(
+      cacheKey,
+      () => repository.getProductById(productId, context.requestId),
+      (product) => singleProductCacheTags(productId, product),
+      options,
+      context
+    );
+  }
+
+  /**
+   * LRU lookup with coalesced misses, shared by list and single-product reads
+   */
+  protected async read<T>(
+    cacheKey: string,
+    loader: () => Promise<T>,
+    tagsFor: (value: T) => string[],
+    { priority }: LRUStrategyOptions,
+    { requestId, logger }: StrategyContext
+  ): Promise<StrategyResult<T>> {
+    const cacheStartTime = performance.now();
+    const cachedEntry = await lruCache.get<T>(cacheKey, requestId);
+    const cacheCheckDuration = Math.round((performance.now() - cacheStartTime) * 100) / 100;
+
+    // High-priority items get longer client cache times, low-priority shorter
+    const staleWhileRevalidate = priority === 'high' ? 120 : 60;
+    const headers = { 'X-Cache-Priority': priority };
+
+    if (cachedEntry) {
+      const cacheAge = Math.round((Date.now() - new Date(cachedEntry.cachedAt).getTime()) / 1000);
+
+      logger.info('LRU cache hit - serving cached data', {
+        cacheKey,
+        cachedAt: cachedEntry.cachedAt,
+        lastAccess: cachedEntry.lastAccess,
+        age: cacheAge
+      });
+
+      return {
+        data: cachedEntry.data,
+        cacheStatus: 'HIT',
+        fromCache: true,
+        cacheCheckTime: cacheCheckDuration,
+        dbTime: 0,
+        cacheAge,
+        cachedAt: cachedEntry.cachedAt,
+        staleAge: 0,
+        revalidating: false,
+        cacheMetrics: await lruCache.getMetrics(),
+        cacheControl: `public, max-age=${Math.max(30, 300 - cacheAge)}, stale-while-revalidate=${staleWhileRevalidate}`,
+        efficiency: 'optimal',
+        headers
+      };
+    }
+
+    // LRU cache miss - could be never cached or evicted due to LRU policy
+    logger.info('LRU cache miss - fetching from database', {
+      cacheKey,
+      reason: 'miss-or-evicted'
+    });
+
+    const dbStartTime = performance.now();
+    try {
+      // Concurrent misses for this key share one database query
+      const loaded = await lruCache.coalesce(cacheKey, loader, requestId);
+      const dbDuration = Math.round((performance.now() - dbStartTime) * 100) / 100;
+
+      // Cache the fresh data with priority-based TTL (the request that ran the query does this)
+      const cacheSuccess = loaded.coalesced || await lruCache.set(cacheKey, loaded.data, PRIORITY_TTL[priority], requestId);
+
+      if (loaded.coalesced) {
+        logger.info('LRU cache miss coalesced with in-flight query', { cacheKey });
+      } else if (cacheSuccess) {
+        // Tag for write-path invalidation (see PATCH /api/products/[id])
+        await lruCache.tag(cacheKey, tagsFor(loaded.data), requestId);
+        logger.info('Data cached with LRU policy', {
+          cacheKey,
+          priority,
+          ttl: PRIORITY_TTL[priority]
+        });
+      } else {
+        logger.warn('Failed to cache data in LRU cache', { cacheKey });
+      }
+
+      return {
+        data: loaded.data,
+        // A refused write is most likely due to memory constraints
+        cacheStatus: loaded.coalesced ? 'COALESCED' : cacheSuccess ? 'MISS' : 'EVICTED',
+        fromCache: false,
+        cacheCheckTime: cacheCheckDuration,
+        dbTime: dbDuration,
+        cacheAge: 0,
+        staleAge: 0,
+        revalidating: false,
+        // Update metrics after cache operation
+        cacheMetrics: await lruCache.getMetrics(),
+        cacheControl: `public, max-age=300, stale-while-revalidate=${staleWhileRevalidate}`,
+        // Indicate if this was a high-value cache operation
+        efficiency: priority === 'high' ? 'warming' : 'standard',
+        headers
+      };
+    } catch (dbError) {
+      if (dbError instanceof CircuitOpenError) {
+        // Database unavailable: serve whatever the cache still holds, however old
+        const fallback = await lruCache.get<T>(cacheKey, requestId, { allowStale: true });
+        if (fallback) {
+          logger.warn('Database circuit open - serving cached fallback', { cacheKey, cachedAt: fallback.cachedAt });
+          return {
+            ...fallbackResult(fallback, cacheCheckDuration, await lruCache.getMetrics()),
+            headers: { ...headers, 'X-Circuit-State': 'open' }
+          };
+        }
+      }
+
+      logger.error('Database fetch failed during LRU cache miss', dbError as Error);
+      throw dbError;
+    }
+  }
+}
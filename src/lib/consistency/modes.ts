@@ -0,0 +1,50 @@
+import { repository } from '@/lib/repository';
+import type { Product } from '@/lib/types';
+import { TTLCacheStrategy } from './ttl';
+import { LRUCacheStrategy } from './lru';
+import { SessionConsistencyStrategy } from './session';
+import { ConsistencyMode, ConsistencyStrategy, StrategyContext, StrategyResult, uncachedResult } from './types';
+
+/**
+ * Consistency Modes
+ *
+ * Reads a single product the way a given mode (cart_items.mode) would, so
+ * flows outside the model routes (e.g. adding to cart) can pick a model.
+ * `fresh` reads the row directly rather than through the always-fresh
+ * strategy, whose single-product demo delay would stall every write.
+ */
+
+type ProductReader = (productId: string, context: StrategyContext) => Promise<StrategyResult<Product | null>>;
+
+function productReader<TOptions>(
+  strategy: Required<Pick<ConsistencyStrategy<TOptions>, 'parseOptions' | 'getProduct'>>
+): ProductReader {
+  return (productId, context) =>
+    strategy.getProduct(productId, strategy.parseOptions(context.searchParams), context);
+}
+
+const readAuthoritative: ProductReader = async (productId, { requestId }) => {
+  const dbStartTime = performance.now();
+  const product = await repository.getProductById(productId, requestId);
+  const dbDuration = Math.round((performance.now() - dbStartTime) * 100) / 100;
+
+  return uncachedResult(product, dbDuration, 'no-cache, no-store, must-revalidate');
+};
+
+const PRODUCT_READERS: Record<ConsistencyMode, ProductReader> = {
+  fresh: readAuthoritative,
+  fast: productReader(new TTLCacheStrategy()),
+  smart: productReader(new LRUCacheStrategy()),
+  session: productReader(new SessionConsistencyStrategy())
+};
+
+/**
+ * Read one product through the strategy behind a consistency mode
+ */
+export function readProductForMode(
+  mode: ConsistencyMode,
+  productId: string,
+  context: StrategyContext
+): Promise<StrategyResult<Product | null>> {
+  return PRODUCT_READERS[mode](productId, context);
+}
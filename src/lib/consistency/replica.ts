@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { repository } from '@/lib/repository';
+import { replicas } from '@/lib/repository/replicas';
+import type { GetProductsQuery, Product } from '@/lib/types';
+import {
+  ConsistencyMode,
+  ConsistencyStrategy,
+  StrategyContext,
+  StrategyResult,
+  uncachedResult
+} from './types';
+
+/**
+ * Replica Read Strategy (replica-read)
+ *
+ * Reads from the simulated read replica in the `region` the client picks
+ * (see src/lib/repository/replicas.ts), or from the primary with
+ * `region=primary`. Nothing is cached: any staleness comes from replication
+ * lag alone, so it can be compared with the cache-induced staleness of the
+ * other models using the same staleness headers.
+ */
+
+export interface ReplicaReadOptions {
+  region: string;
+}
+
+export const PRIMARY_REGION = 'primary';
+
+// Replica data changes as replication catches up, so clients must not reuse it
+const NO_STORE = 'no-store';
+
+export class ReplicaReadStrategy implements ConsistencyStrategy<ReplicaReadOptions> {
+  readonly name: string = 'replica-read';
+  readonly model: string = 'replica';
+  readonly cachePolicy: string = 'NONE';
+  readonly mode: ConsistencyMode = 'fast';
+
+  parseOptions(searchParams: URLSearchParams): ReplicaReadOptions {
+    const regions = replicas.regions();
+    const region = searchParams.get('region');
+
+    // An unknown region is a client error, not a reason to read somewhere else
+    return {
+      region: region === null
+        ? regions[0] ?? PRIMARY_REGION
+        : z.enum([PRIMARY_REGION, ...regions] as [string, ...string[]]).parse(region)
+    };
+  }
+
+  async getProducts(
+    query: GetProductsQuery,
+    { region }: ReplicaReadOptions,
+    { requestId }: StrategyContext
+  ): Promise<StrategyResult<Product[]>> {
+    return this.read(
+      region,
+      () => repository.getProducts(query, requestId),
+      () => replicas.getProducts(region, query)
+    );
+  }
+
+  async getProduct(
+    productId: string,
+    { region }: ReplicaReadOptions,
+    { requestId }: StrategyContext
+  ): Promise<StrategyResult<Product | null>> {
+    return this.read(
+      region,
+      () => repository.getProductById(productId, requestId),
+      () => replicas.getProductById(region, productId)
+    );
+  }
+
+  private async read<T>(
+    region: string,
+    fromPrimary: () => Promise<T>,
+    fromReplica: () => Promise<T>
+  ): Promise<StrategyResult<T>> {
+    const readStartTime = performance.now();
+    const data = region === PRIMARY_REGION ? await fromPrimary() : await fromReplica();
+    const readDuration = Math.round((performance.now() - readStartTime) * 100) / 100;
+
+    const status = replicas.getStatus().find(replica => replica.region === region);
+
+    return {
+      ...uncachedResult(data, readDuration, NO_STORE),
+      replicated: region !== PRIMARY_REGION,
+      headers: {
+        'X-Replica-Region': region,
+        'X-Replication-Lag': `${status?.lagMs ?? 0}ms`,
+        'X-Replication-Pending': (status?.pendingWrites ?? 0).toString()
+      }
+    };
+  }
+}
@@ -0,0 +1,316 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { ZodError } from 'zod';
+import { createLogger } from '@/lib/logger';
+import { repository } from '@/lib/repository';
+import { faultInjector } from '@/lib/repository/faults';
+import { errorResponse } from '@/lib/apiErrors';
+import { createPreflightHandler, SECURITY_PROFILES, withSecurity } from '@/lib/security';
+import { nextCursor } from '@/lib/pagination';
+import { measureStaleness, shouldVerifyStaleness, stalenessHeaders, UNCHECKED_STALENESS } from '@/lib/staleness';
+import {
+  GetProductsQuerySchema,
+  ProductIdSchema,
+  ApiResponse,
+  GetProductsQuery,
+  Product
+} from '@/lib/types';
+import { ConsistencyStrategy, StrategyResult } from './types';
+
+/**
+ * Consistency Route Factory
+ *
+ * Builds the GET/OPTIONS handlers for a consistency-model endpoint around a
+ * strategy. Query validation, error mapping, ETags, staleness checks and
+ * response headers live here so every model reports the same metadata.
+ * The handlers run behind the PUBLIC_API security profile.
+ */
+
+export interface ConsistencyRoute {
+  GET(request: NextRequest): Promise<NextResponse>;
+  OPTIONS(request: NextRequest): Promise<NextResponse>;
+}
+
+const EXPOSED_HEADERS = [
+  'X-Consistency-Model',
+  'X-Cache-Status',
+  'X-Cache-Policy',
+  'X-Cache-Hit-Rate',
+  'X-Cache-Stale-Age',
+  'X-Response-Time',
+  'X-DB-Attempts',
+  'X-Circuit-State',
+  'X-Fault-Profile',
+  'X-From-Cache',
+  'X-Session-Bypass',
+  'X-Staleness-Bound',
+  'X-Data-Age',
+  'X-Stale-Items',
+  'X-Max-Version-Lag',
+  'X-Staleness-Age',
+  'X-Replica-Region',
+  'X-Replication-Lag',
+  'X-Replication-Pending',
+  'ETag'
+].join(', ');
+
+function elapsed(startTime: number): number {
+  return Math.round((performance.now() - startTime) * 100) / 100;
+}
+
+/**
+ * Cached and replica reads can lag the primary, so they get staleness checks
+ */
+function mayBeStale(result: StrategyResult<unknown>): boolean {
+  return result.fromCache || result.replicated === true;
+}
+
+/**
+ * Digest of the whole body, so any changed product or version changes the tag
+ */
+function productsETag(result: StrategyResult<unknown>): string {
+  const digest = createHash('sha1').update(JSON.stringify(result.data)).digest('base64url');
+  return `"${result.fromCache ? 'cached' : 'fresh'}-${digest}"`;
+}
+
+/**
+ * Responses that must not be stored (strong and replica reads) are always
+ * sent in full: a 304 would let a client keep data the model promises to
+ * re-read on every request
+ */
+function allowsNotModified(result: StrategyResult<unknown>): boolean {
+  return !result.cacheControl.includes('no-store');
+}
+
+/**
+ * Headers every model reports, so dashboards can compare them side by side
+ */
+function modelHeaders(
+  strategy: Pick<ConsistencyStrategy<unknown>, 'model' | 'cachePolicy'>,
+  result: StrategyResult<unknown>,
+  requestId: string,
+  totalDuration: number,
+  dbAttempts: number
+): Record<string, string> {
+  const metrics = result.cacheMetrics;
+
+  return {
+    'Content-Type': 'application/json',
+    'X-Request-ID': requestId,
+    'Cache-Control': result.cacheControl,
+
+    // Model and cache metrics headers
+    'X-Consistency-Model': strategy.model,
+    'X-Cache-Policy': strategy.cachePolicy,
+    'X-Cache-Status': result.cacheStatus,
+    'X-Cache-Coalesced-Total': (metrics?.coalesced ?? 0).toString(),
+    'X-Cache-Hit-Rate': `${(metrics?.hitRate ?? 0).toFixed(1)}%`,
+    'X-Cache-Size': (metrics?.size ?? 0).toString(),
+    'X-Cache-Backend': metrics ? metrics.backend || 'memory' : 'none',
+    'X-Cache-Memory-Usage': `${Math.round((metrics?.memoryUsage ?? 0) / 1024)}KB`,
+    'X-Cache-Age': `${result.cacheAge}s`,
+    'X-Cache-Stale-Age': `${Math.round(result.staleAge)}ms`,
+    'X-Cache-Revalidating': result.revalidating.toString(),
+    'X-Cache-Efficiency': result.efficiency,
+
+    // Performance headers
+    'X-Response-Time': `${totalDuration}ms`,
+    'X-Cache-Check-Time': `${result.cacheCheckTime}ms`,
+    'X-DB-Time': `${result.dbTime}ms`,
+    'X-DB-Attempts': dbAttempts.toString(),
+    'X-Fault-Profile': faultInjector.profileName(),
+    'X-From-Cache': result.fromCache.toString(),
+
+    ...result.headers,
+
+    // Model-specific headers readable cross-origin (CORS itself comes from the security profile)
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS
+  };
+}
+
+/**
+ * Create the route handlers for a consistency model
+ *
+ * @example
+ * const route = createConsistencyRoute(new TTLCacheStrategy());
+ * export const GET = route.GET;
+ */
+export function createConsistencyRoute<TOptions>(strategy: ConsistencyStrategy<TOptions>): ConsistencyRoute {
+  async function GET(request: NextRequest): Promise<NextResponse> {
+    const requestId = uuidv4();
+    const logger = createLogger(requestId);
+    const startTime = performance.now();
+
+    // Extract request metadata
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+    const forwardedFor = request.headers.get('x-forwarded-for');
+    const realIp = request.headers.get('x-real-ip');
+    const clientIp = forwardedFor || realIp || 'unknown';
+    const ifNoneMatch = request.headers.get('if-none-match');
+
+    logger.info(`Processing ${strategy.name} request`, {
+      model: strategy.model,
+      userAgent,
+      clientIp,
+      url: request.url,
+      ifNoneMatch
+    });
+
+    try {
+      const url = new URL(request.url);
+      const queryParams = Object.fromEntries(url.searchParams.entries());
+      const context = { requestId, logger, searchParams: url.searchParams, headers: request.headers };
+
+      // Single product mode (e-commerce product page)
+      const productId = strategy.getProduct ? url.searchParams.get('id') : null;
+
+      // Parse and validate query parameters
+      let options: TOptions;
+      let validatedQuery: GetProductsQuery | undefined;
+      try {
+        options = strategy.parseOptions(url.searchParams);
+        if (productId) {
+          ProductIdSchema.parse(productId);
+        } else {
+          validatedQuery = GetProductsQuerySchema.parse(queryParams);
+        }
+        logger.info('Query parameters validated', { query: validatedQuery, productId, options });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          logger.warn('Invalid query parameters', {
+            zodErrors: error.issues,
+            receivedParams: queryParams
+          });
+
+          return NextResponse.json(
+            {
+              error: 'Invalid query parameters',
+              metadata: {
+                requestId,
+                timestamp: new Date().toISOString(),
+                duration: elapsed(startTime),
+                fault_profile: faultInjector.profileName()
+              }
+            } satisfies ApiResponse,
+            {
+              status: 400,
+              headers: {
+                'Content-Type': 'application/json',
+                'X-Request-ID': requestId
+              }
+            }
+          );
+        }
+        throw error;
+      }
+
+      if (productId && strategy.getProduct) {
+        const result = await strategy.getProduct(productId, options, context);
+        const duration = elapsed(startTime);
+
+        // Optionally compare the served version with the database (kept out of X-Response-Time)
+        const staleness = mayBeStale(result) && result.data && shouldVerifyStaleness(url.searchParams)
+          ? await measureStaleness([result.data], requestId)
+          : UNCHECKED_STALENESS;
+
+        logger.info('Single product request completed', {
+          productId,
+          duration,
+          found: !!result.data,
+          cacheStatus: result.cacheStatus
+        });
+
+        return NextResponse.json(
+          {
+            product: result.data,
+            metadata: {
+              requestId,
+              timestamp: new Date().toISOString(),
+              duration,
+              mode: strategy.mode,
+              served_from_cache: result.fromCache,
+              is_fresh: !result.fromCache,
+              fault_profile: faultInjector.profileName()
+            }
+          },
+          {
+            status: 200,
+            headers: {
+              ...modelHeaders(strategy, result, requestId, duration, repository.takeAttempts(requestId)),
+              ...stalenessHeaders(staleness)
+            }
+          }
+        );
+      }
+
+      const result = await strategy.getProducts(validatedQuery!, options, context);
+      const products: Product[] = result.data;
+      const etag = productsETag(result);
+
+      // Check if client has current cached version
+      if (ifNoneMatch === etag && allowsNotModified(result)) {
+        logger.info('Client cache hit (304 Not Modified)', { etag });
+        return new NextResponse(null, {
+          status: 304,
+          headers: {
+            'X-Request-ID': requestId,
+            'Cache-Control': result.cacheControl,
+            'X-Cache-Status': result.cacheStatus,
+            'X-DB-Attempts': repository.takeAttempts(requestId).toString(),
+            'ETag': etag
+          }
+        });
+      }
+
+      const totalDuration = elapsed(startTime);
+
+      // Optionally compare served versions with the database (kept out of X-Response-Time)
+      const staleness = mayBeStale(result) && shouldVerifyStaleness(url.searchParams)
+        ? await measureStaleness(products, requestId)
+        : UNCHECKED_STALENESS;
+
+      logger.info('Request completed successfully', {
+        productCount: products.length,
+        duration: totalDuration,
+        cacheStatus: result.cacheStatus,
+        cacheMetrics: result.cacheMetrics && {
+          hitRate: result.cacheMetrics.hitRate,
+          size: result.cacheMetrics.size
+        }
+      });
+
+      const response: ApiResponse = {
+        data: products,
+        metadata: {
+          requestId,
+          timestamp: new Date().toISOString(),
+          duration: totalDuration,
+          count: products.length,
+          next_cursor: nextCursor(products, validatedQuery!),
+          fault_profile: faultInjector.profileName()
+        }
+      };
+
+      return NextResponse.json(response, {
+        status: 200,
+        headers: {
+          ...modelHeaders(strategy, result, requestId, totalDuration, repository.takeAttempts(requestId)),
+          'ETag': etag,
+          ...stalenessHeaders(staleness)
+        }
+      });
+
+    } catch (error) {
+      return errorResponse(error, strategy.name, requestId, logger, elapsed(startTime), {
+        'X-Cache-Status': 'ERROR',
+        'X-DB-Attempts': repository.takeAttempts(requestId).toString()
+      });
+    }
+  }
+
+  return {
+    GET: withSecurity(GET, SECURITY_PROFILES.PUBLIC_API),
+    OPTIONS: createPreflightHandler(SECURITY_PROFILES.PUBLIC_API)
+  };
+}
@@ -0,0 +1,234 @@
+import { repository } from '@/lib/repository';
+import { ttlCache } from '@/lib/cache';
+import { productCacheTags, singleProductCacheTags } from '@/lib/cache/invalidation';
+import type { GetProductsQuery, Product } from '@/lib/types';
+import { TTLCacheStrategy, TTLStrategyOptions } from './ttl';
+import { ConsistencyMode, StrategyContext, StrategyResult, productsQueryKey, uncachedResult } from './types';
+
+/**
+ * Session Consistency Strategy (session-consistent, read-your-writes)
+ *
+ * Serves TTL-cached data like check-fast, but a client always sees its own
+ * writes. PATCH /api/products/{id} returns an X-Session-Token recording the
+ * versions the client wrote; when a cached response predates one of those
+ * writes it is bypassed and refreshed from the database.
+ *
+ * The token is a client-held hint, not a credential: tampering with it can
+ * only force extra cache bypasses for the client holding it.
+ */
+
+export const SESSION_TOKEN_HEADER = 'X-Session-Token';
+
+/**
+ * Writes remembered per session; older ones drop off first
+ */
+const MAX_SESSION_WRITES = 50;
+
+export interface SessionWrite {
+  version: number;
+  category: string;
+  writtenAt: number; // epoch ms, server time the write committed
+}
+
+export type SessionWrites = Record<string, SessionWrite>;
+
+function isSessionWrite(value: unknown): value is SessionWrite {
+  const write = value as SessionWrite;
+  return typeof write === 'object' && write !== null &&
+    Number.isInteger(write.version) &&
+    typeof write.category === 'string' &&
+    typeof write.writtenAt === 'number';
+}
+
+/**
+ * Decode a session token; missing or malformed tokens carry no writes
+ */
+export function parseSessionToken(token: string | null | undefined): SessionWrites {
+  if (!token) {
+    return {};
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    const writes: SessionWrites = {};
+
+    for (const [productId, write] of Object.entries(decoded ?? {})) {
+      if (isSessionWrite(write)) {
+        writes[productId] = write;
+      }
+    }
+    return writes;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record a write in the session token and return the updated token
+ */
+export function recordSessionWrite(
+  token: string | null | undefined,
+  product: Pick<Product, 'id' | 'version' | 'category'>
+): string {
+  const writes = parseSessionToken(token);
+  delete writes[product.id];
+  writes[product.id] = {
+    version: product.version,
+    category: product.category,
+    writtenAt: Date.now()
+  };
+
+  // Keep only the most recent writes so the header stays small
+  const recent = Object.entries(writes)
+    .sort(([, a], [, b]) => b.writtenAt - a.writtenAt)
+    .slice(0, MAX_SESSION_WRITES);
+
+  return Buffer.from(JSON.stringify(Object.fromEntries(recent)), 'utf8').toString('base64url');
+}
+
+/**
+ * Session writes a cached response may not reflect: either a served product
+ * is older than the written version, or the entry was cached before a write
+ * in the queried category (the write can reorder or change the page).
+ */
+export function missedSessionWrites(
+  products: Product[],
+  cachedAt: string | undefined,
+  query: GetProductsQuery,
+  writes: SessionWrites
+): string[] {
+  const missed = new Set<string>();
+
+  for (const product of products) {
+    const write = writes[product.id];
+    if (write && product.version < write.version) {
+      missed.add(product.id);
+    }
+  }
+
+  const cachedAtMs = cachedAt ? new Date(cachedAt).getTime() : 0;
+  for (const [productId, write] of Object.entries(writes)) {
+    const inScope = !query.category || query.category === write.category;
+    if (inScope && cachedAtMs < write.writtenAt) {
+      missed.add(productId);
+    }
+  }
+
+  return Array.from(missed);
+}
+
+export class SessionConsistencyStrategy extends TTLCacheStrategy {
+  readonly name: string = 'session-consistent';
+  readonly model: string = 'session';
+  readonly cachePolicy: string = 'TTL+SESSION';
+  readonly mode: ConsistencyMode = 'session';
+
+  async getProducts(
+    query: GetProductsQuery,
+    options: TTLStrategyOptions,
+    context: StrategyContext
+  ): Promise<StrategyResult<Product[]>> {
+    const writes = parseSessionToken(context.headers.get(SESSION_TOKEN_HEADER));
+
+    return this.readYourWrites(
+      // Kept apart from check-fast entries so each model's hit rate is its own
+      `session:products:${productsQueryKey(query)}`,
+      () => repository.getProducts(query, context.requestId),
+      (products) => productCacheTags(products, query),
+      (products, cachedAt) => missedSessionWrites(products, cachedAt, query, writes),
+      writes,
+      options,
+      context
+    );
+  }
+
+  async getProduct(
+    productId: string,
+    options: TTLStrategyOptions,
+    context: StrategyContext
+  ): Promise<StrategyResult<Product | null>> {
+    const writes = parseSessionToken(context.headers.get(SESSION_TOKEN_HEADER));
+    const write = writes[productId];
+
+    return this.readYourWrites(
+      `session:product:${productId}`,
+      () => repository.getProductById(productId, context.requestId),
+      (product) => singleProductCacheTags(productId, product),
+      (product, cachedAt) => {
+        const cachedAtMs = cachedAt ? new Date(cachedAt).getTime() : 0;
+        const behind = !!write && (cachedAtMs < write.writtenAt || (!!product && product.version < write.version));
+        return behind ? [productId] : [];
+      },
+      writes,
+      options,
+      context
+    );
+  }
+
+  /**
+   * TTL read that falls back to the database when the served data misses
+   * any of the session's writes
+   */
+  private async readYourWrites<T>(
+    cacheKey: string,
+    loader: () => Promise<T>,
+    tagsFor: (value: T) => string[],
+    missedFor: (value: T, cachedAt: string | undefined) => string[],
+    writes: SessionWrites,
+    options: TTLStrategyOptions,
+    context: StrategyContext
+  ): Promise<StrategyResult<T>> {
+    const { requestId, logger } = context;
+    const writeCount = Object.keys(writes).length;
+
+    const result = await this.read(cacheKey, loader, tagsFor, options, context);
+
+    // A query this request ran itself already reflects every committed write
+    const missed = result.cacheStatus === 'MISS' ? [] : missedFor(result.data, result.cachedAt);
+
+    if (missed.length === 0) {
+      return this.withSessionHeaders(result, writeCount, 0);
+    }
+
+    logger.info('Cached data predates session writes - bypassing cache', {
+      cacheKey,
+      missedWrites: missed.length
+    });
+
+    // No circuit-breaker fallback here: data known to miss the session's
+    // writes would break read-your-writes, so an outage surfaces as a 503
+    const dbStartTime = performance.now();
+    const value = await loader();
+    const dbDuration = Math.round((performance.now() - dbStartTime) * 100) / 100;
+
+    // Refresh the entry so later readers see the write too
+    if (await ttlCache.set(cacheKey, value, options.cacheTTL, requestId, options.staleWindow)) {
+      await ttlCache.tag(cacheKey, tagsFor(value), requestId);
+    }
+
+    return this.withSessionHeaders(
+      {
+        ...uncachedResult(value, result.dbTime + dbDuration, ''),
+        cacheCheckTime: result.cacheCheckTime,
+        cacheMetrics: await ttlCache.getMetrics()
+      },
+      writeCount,
+      missed.length
+    );
+  }
+
+  private withSessionHeaders<T>(result: StrategyResult<T>, writeCount: number, missed: number): StrategyResult<T> {
+    return {
+      ...result,
+      // Responses depend on the session token, so shared caches must not reuse them
+      cacheControl: 'private, no-cache',
+      headers: {
+        ...result.headers,
+        'Vary': SESSION_TOKEN_HEADER,
+        'X-Session-Writes': writeCount.toString(),
+        'X-Session-Missed-Writes': missed.toString(),
+        'X-Session-Bypass': (missed > 0).toString()
+      }
+    };
+  }
+}
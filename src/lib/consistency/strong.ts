@@ -0,0 +1,66 @@
+import { repository } from '@/lib/repository';
+import type { GetProductsQuery, Product } from '@/lib/types';
+import {
+  ConsistencyStrategy,
+  StrategyContext,
+  StrategyResult,
+  uncachedResult
+} from './types';
+
+/**
+ * Strong Consistency Strategy (always-fresh)
+ *
+ * Every read goes straight to the master database; nothing is cached,
+ * so clients always see the latest committed data.
+ */
+
+// Strong consistency: no caching
+const NO_CACHE = 'no-cache, no-store, must-revalidate';
+
+export class StrongConsistencyStrategy implements ConsistencyStrategy<Record<string, never>> {
+  readonly name = 'always-fresh';
+  readonly model = 'strong';
+  readonly cachePolicy = 'NONE';
+  readonly mode = 'fresh' as const;
+
+  parseOptions(): Record<string, never> {
+    return {};
+  }
+
+  async getProducts(
+    query: GetProductsQuery,
+    _options: Record<string, never>,
+    { requestId }: StrategyContext
+  ): Promise<StrategyResult<Product[]>> {
+    const dbStartTime = performance.now();
+    const products = await repository.getProducts(query, requestId);
+    const dbDuration = Math.round((performance.now() - dbStartTime) * 100) / 100;
+
+    return this.withNoCacheHeaders(uncachedResult(products, dbDuration, NO_CACHE));
+  }
+
+  async getProduct(
+    productId: string,
+    _options: Record<string, never>,
+    { requestId }: StrategyContext
+  ): Promise<StrategyResult<Product | null>> {
+    // Single product mode - e-commerce demo with delay for "Always Fresh"
+    await new Promise(resolve => setTimeout(resolve, 2000 + Math.random() * 1500)); // 2-3.5s delay
+
+    const dbStartTime = performance.now();
+    const product = await repository.getProductById(productId, requestId);
+    const dbDuration = Math.round((performance.now() - dbStartTime) * 100) / 100;
+
+    return this.withNoCacheHeaders(uncachedResult(product, dbDuration, NO_CACHE));
+  }
+
+  private withNoCacheHeaders<T>(result: StrategyResult<T>): StrategyResult<T> {
+    return {
+      ...result,
+      headers: {
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      }
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLogger } from '@/lib/logger';
+import { repository } from '@/lib/repository';
+import { CircuitOpenError, GetProductsQuerySchema } from '@/lib/types';
+import { StrategyContext } from './types';
+import { TTLCacheStrategy } from './ttl';
+
+const T = Date.UTC(2026, 0, 1);
+
+function context(requestId: string): StrategyContext {
+  return { requestId, logger: createLogger(requestId), searchParams: new URLSearchParams(), headers: new Headers() };
+}
+
+describe('TTLCacheStrategy fallback', () => {
+  // The shared ttlCache expires entries by Date.now
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'], now: T });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('serves the expired entry while the circuit is open', async () => {
+    const strategy = new TTLCacheStrategy();
+    // A query no other test caches under
+    const query = GetProductsQuerySchema.parse({ category: 'fallback-test' });
+
+    const fresh = await strategy.getProducts(query, { cacheTTL: 10, staleWindow: 30 }, context('populate'));
+    expect(fresh.cacheStatus).toBe('MISS');
+
+    vi.setSystemTime(T + 15_000);
+    const getProducts = vi.spyOn(repository, 'getProducts').mockRejectedValue(new CircuitOpenError('open', 1_000));
+    const result = await strategy.getProducts(query, { cacheTTL: 10, staleWindow: 0 }, context('outage'));
+
+    expect(getProducts).toHaveBeenCalledOnce();
+    expect(result).toMatchObject({
+      data: fresh.data,
+      cacheStatus: 'FALLBACK',
+      fromCache: true,
+      staleAge: 5_000,
+      cacheControl: 'no-cache',
+      headers: { 'X-Circuit-State': 'open' }
+    });
+  });
+
+  it('rethrows when there is nothing cached to fall back to', async () => {
+    const strategy = new TTLCacheStrategy();
+    const query = GetProductsQuerySchema.parse({ category: 'fallback-test-empty' });
+    vi.spyOn(repository, 'getProducts').mockRejectedValue(new CircuitOpenError('open', 1_000));
+
+    await expect(strategy.getProducts(query, { cacheTTL: 10, staleWindow: 0 }, context('outage'))).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+});
@@ -0,0 +1,201 @@
+import { after } from 'next/server';
+import { repository } from '@/lib/repository';
+import { ttlCache } from '@/lib/cache';
+import { productCacheTags, singleProductCacheTags } from '@/lib/cache/invalidation';
+import { CircuitOpenError } from '@/lib/types';
+import type { GetProductsQuery, Product } from '@/lib/types';
+import {
+  ConsistencyMode,
+  ConsistencyStrategy,
+  StrategyContext,
+  StrategyResult,
+  fallbackResult,
+  productsQueryKey
+} from './types';
+
+/**
+ * TTL Cache Strategy (check-fast, eventual consistency)
+ *
+ * Serves cached responses for `cache_ttl` seconds. With a `stale_window`,
+ * expired entries stay servable while a single background refresh
+ * repopulates them (stale-while-revalidate). Concurrent misses share one
+ * database query.
+ */
+
+export interface TTLStrategyOptions {
+  cacheTTL: number; // seconds
+  staleWindow: number; // seconds, 0 disables SWR
+}
+
+/**
+ * Default stale window when the client doesn't pass `stale_window`
+ */
+const DEFAULT_STALE_WINDOW = parseInt(process.env.CHECK_FAST_STALE_WINDOW_SECONDS || '0', 10);
+
+export class TTLCacheStrategy implements ConsistencyStrategy<TTLStrategyOptions> {
+  readonly name: string = 'check-fast';
+  readonly model: string = 'ttl';
+  readonly cachePolicy: string = 'TTL';
+  readonly mode: ConsistencyMode = 'fast';
+
+  parseOptions(searchParams: URLSearchParams): TTLStrategyOptions {
+    let cacheTTL = 60; // Default 60 seconds
+    let staleWindow = DEFAULT_STALE_WINDOW;
+
+    const ttlParam = searchParams.get('cache_ttl');
+    if (ttlParam) {
+      const ttl = parseInt(ttlParam, 10);
+      if (ttl >= 5 && ttl <= 300) {
+        cacheTTL = ttl;
+      }
+    }
+
+    const windowParam = searchParams.get('stale_window');
+    if (windowParam) {
+      const window = parseInt(windowParam, 10);
+      if (window >= 0 && window <= 600) {
+        staleWindow = window;
+      }
+    }
+
+    return { cacheTTL, staleWindow };
+  }
+
+  async getProducts(
+    query: GetProductsQuery,
+    options: TTLStrategyOptions,
+    context: StrategyContext
+  ): Promise<StrategyResult<Product[]>> {
+    const cacheKey = `products:${productsQueryKey(query)}`;
+
+    return this.read(
+      cacheKey,
+      () => repository.getProducts(query, context.requestId),
+      (products) => productCacheTags(products, query),
+      options,
+      context
+    );
+  }
+
+  async getProduct(
+    productId: string,
+    options: TTLStrategyOptions,
+    context: StrategyContext
+  ): Promise<StrategyResult<Product | null>> {
+    // Per-product key so product pages don't depend on list queries
+    const cacheKey = `product:${productId}`;
+
+    return this.read(
+      cacheKey,
+      () => repository.getProductById(productId, context.requestId),
+      (product) => singleProductCacheTags(productId, product),
+      options,
+      context
+    );
+  }
+
+  /**
+   * Cache lookup with SWR and coalesced misses, shared by list and single-product reads
+   */
+  protected async read<T>(
+    cacheKey: string,
+    loader: () => Promise<T>,
+    tagsFor: (value: T) => string[],
+    { cacheTTL, staleWindow }: TTLStrategyOptions,
+    { requestId, logger }: StrategyContext
+  ): Promise<StrategyResult<T>> {
+    const cacheStartTime = performance.now();
+    const cachedEntry = await ttlCache.get<T>(cacheKey, requestId, { allowStale: staleWindow > 0 });
+    const cacheCheckDuration = Math.round((performance.now() - cacheStartTime) * 100) / 100;
+
+    if (cachedEntry) {
+      const isStale = cachedEntry.isStale;
+      const cacheAge = Math.round((Date.now() - new Date(cachedEntry.cachedAt).getTime()) / 1000);
+      let staleAge = 0;
+
+      logger.info(isStale ? 'Stale cache hit - serving stale data' : 'Cache hit - serving cached data', {
+        cacheKey,
+        cachedAt: cachedEntry.cachedAt,
+        expiresAt: cachedEntry.expiresAt,
+        age: cacheAge
+      });
+
+      if (isStale) {
+        // How long past its TTL this entry is being served
+        staleAge = Math.max(0, Date.now() - new Date(cachedEntry.expiresAt).getTime());
+
+        // Refresh after the response is sent; only one refresh per key runs at a time
+        if (!ttlCache.isRevalidating(cacheKey)) {
+          after(() => ttlCache.revalidate(cacheKey, loader, cacheTTL, staleWindow, requestId, tagsFor));
+        }
+      }
+
+      const maxAge = isStale ? 0 : Math.max(0, cacheTTL - cacheAge);
+
+      return {
+        data: cachedEntry.data,
+        cacheStatus: isStale ? 'STALE' : 'HIT',
+        fromCache: true,
+        cacheCheckTime: cacheCheckDuration,
+        dbTime: 0,
+        cacheAge,
+        cachedAt: cachedEntry.cachedAt,
+        staleAge,
+        revalidating: isStale,
+        cacheMetrics: await ttlCache.getMetrics(),
+        cacheControl: `public, max-age=${maxAge}, stale-while-revalidate=${Math.max(30, maxAge / 2)}`,
+        efficiency: 'optimal'
+      };
+    }
+
+    // Cache miss - fetch from database and cache result
+    logger.info('Cache miss - fetching from database', { cacheKey });
+
+    const dbStartTime = performance.now();
+    try {
+      // Concurrent misses for this key share one database query
+      const loaded = await ttlCache.coalesce(cacheKey, loader, requestId);
+      const dbDuration = Math.round((performance.now() - dbStartTime) * 100) / 100;
+
+      // Cache the fresh data (the request that ran the query does this)
+      const cacheSuccess = loaded.coalesced || await ttlCache.set(cacheKey, loaded.data, cacheTTL, requestId, staleWindow);
+
+      if (loaded.coalesced) {
+        logger.info('Cache miss coalesced with in-flight query', { cacheKey });
+      } else if (cacheSuccess) {
+        // Tag for write-path invalidation (see PATCH /api/products/[id])
+        await ttlCache.tag(cacheKey, tagsFor(loaded.data), requestId);
+        logger.info('Data cached successfully', { cacheKey, ttl: cacheTTL, staleWindow });
+      } else {
+        logger.warn('Failed to cache data', { cacheKey });
+      }
+
+      return {
+        data: loaded.data,
+        cacheStatus: loaded.coalesced ? 'COALESCED' : 'MISS',
+        fromCache: false,
+        cacheCheckTime: cacheCheckDuration,
+        dbTime: dbDuration,
+        cacheAge: 0,
+        staleAge: 0,
+        revalidating: false,
+        // Update metrics after cache operation
+        cacheMetrics: await ttlCache.getMetrics(),
+        cacheControl: `public, max-age=${cacheTTL}, stale-while-revalidate=${Math.max(30, cacheTTL / 2)}`,
+        efficiency: 'standard'
+      };
+    } catch (dbError) {
+      if (dbError instanceof CircuitOpenError) {
+        // Database unavailable: serve whatever the cache still holds, however old
+        const fallback = await ttlCache.get<T>(cacheKey, requestId, { allowStale: true });
+        if (fallback) {
+          logger.warn('Database circuit open - serving cached fallback', { cacheKey, cachedAt: fallback.cachedAt });
+          return fallbackResult(fallback, cacheCheckDuration, await ttlCache.getMetrics());
+        }
+      }
+
+      logger.error('Database fetch failed during cache miss', dbError as Error);
+      throw dbError;
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import type { Logger } from '@/lib/logger';
+import type { CacheEntry, CacheMetrics } from '@/lib/cache';
+import type { ConsistencyMode, GetProductsQuery, Product } from '@/lib/types';
+
+/**
+ * Consistency Strategy Types
+ *
+ * A strategy encapsulates how one consistency model reads products
+ * (database only, TTL cache, LRU cache, ...). The shared route factory
+ * owns everything else: query parsing, error mapping, headers and metadata.
+ */
+
+/**
+ * Value reported in X-Cache-Status (FALLBACK: served from cache because
+ * the database circuit breaker is open)
+ */
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE' | 'COALESCED' | 'EVICTED' | 'BYPASS' | 'FALLBACK';
+
+/**
+ * Mode recorded with single-product reads (matches cart_items.mode)
+ */
+export type { ConsistencyMode };
+
+export interface StrategyContext {
+  requestId: string;
+  logger: Logger;
+  searchParams: URLSearchParams;
+  headers: Headers;
+}
+
+export interface StrategyResult<T> {
+  data: T;
+  cacheStatus: CacheStatus;
+  fromCache: boolean;
+  cacheCheckTime: number; // ms
+  dbTime: number; // ms
+  cacheAge: number; // seconds since the served entry was cached
+  cachedAt?: string; // ISO time the served entry was cached (cache hits only)
+  staleAge: number; // ms the served entry is past its TTL (SWR only)
+  revalidating: boolean;
+  cacheMetrics?: CacheMetrics;
+  replicated?: boolean; // served from a lagging read replica
+  cacheControl: string;
+  efficiency: string;
+  /**
+   * Model-specific extras (e.g. X-Cache-Priority)
+   */
+  headers?: Record<string, string>;
+}
+
+export interface ConsistencyStrategy<TOptions = unknown> {
+  /**
+   * Endpoint name used in logs (e.g. 'check-fast')
+   */
+  readonly name: string;
+
+  /**
+   * Model reported in X-Consistency-Model
+   */
+  readonly model: string;
+
+  /**
+   * Value reported in X-Cache-Policy
+   */
+  readonly cachePolicy: string;
+
+  readonly mode: ConsistencyMode;
+
+  /**
+   * Read model-specific query parameters. Optional hints fall back to
+   * defaults; a ZodError for a required parameter becomes a 400.
+   */
+  parseOptions(searchParams: URLSearchParams): TOptions;
+
+  getProducts(
+    query: GetProductsQuery,
+    options: TOptions,
+    context: StrategyContext
+  ): Promise<StrategyResult<Product[]>>;
+
+  /**
+   * Single-product lookup (`?id=`); strategies without it serve list queries only
+   */
+  getProduct?(
+    productId: string,
+    options: TOptions,
+    context: StrategyContext
+  ): Promise<StrategyResult<Product | null>>;
+}
+
+/**
+ * Result fields shared by uncached reads
+ */
+export function uncachedResult<T>(data: T, dbTime: number, cacheControl: string): StrategyResult<T> {
+  return {
+    data,
+    cacheStatus: 'BYPASS',
+    fromCache: false,
+    cacheCheckTime: 0,
+    dbTime,
+    cacheAge: 0,
+    staleAge: 0,
+    revalidating: false,
+    cacheControl,
+    efficiency: 'standard'
+  };
+}
+
+/**
+ * Result for a cached entry served while the database circuit is open,
+ * whatever its age
+ */
+export function fallbackResult<T>(
+  entry: CacheEntry<T>,
+  cacheCheckTime: number,
+  cacheMetrics: CacheMetrics
+): StrategyResult<T> {
+  return {
+    data: entry.data,
+    cacheStatus: 'FALLBACK',
+    fromCache: true,
+    cacheCheckTime,
+    dbTime: 0,
+    cacheAge: Math.round((Date.now() - new Date(entry.cachedAt).getTime()) / 1000),
+    cachedAt: entry.cachedAt,
+    staleAge: Math.max(0, Date.now() - new Date(entry.expiresAt).getTime()),
+    revalidating: false,
+    cacheMetrics,
+    // Outage data must not outlive the outage in downstream caches
+    cacheControl: 'no-cache',
+    efficiency: 'degraded',
+    headers: { 'X-Circuit-State': 'open' }
+  };
+}
+
+/**
+ * Canonical cache-key fragment for a list query: keys sorted and unset
+ * filters dropped, so every model keys the same query the same way and
+ * cached results stay comparable with fresh ones
+ */
+export function productsQueryKey(query: GetProductsQuery): string {
+  const entries = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return JSON.stringify(Object.fromEntries(entries));
+}
@@ -7,16 +7,21 @@ import { format } from 'date-fns';
 export interface PerformanceMetric {
   id: string;
   timestamp: Date;
-  modelName: 'Neural Authority' | 'Neural Cache' | 'Smart Memory';
+  modelName: 'Neural Authority' | 'Neural Cache' | 'Smart Memory' | 'Session Guard';
   endpoint: string;
   responseTime: number;
-  cacheStatus: 'HIT' | 'MISS' | 'EVICTED' | 'EXPIRED' | 'ERROR';
+  cacheStatus: 'HIT' | 'MISS' | 'STALE' | 'COALESCED' | 'EVICTED' | 'BYPASS' | 'FALLBACK' | 'EXPIRED' | 'ERROR';
   cachePolicy: string;
   hitRate: number;
   fromCache: boolean;
   efficiency: string;
   requestId: string;
   dataCount: number;
+  // Staleness check results (only when the route verified versions)
+  stalenessChecked?: boolean;
+  staleItems?: number;
+  maxVersionLag?: number;
+  stalenessMs?: number;
 }
 
 export interface CacheAnalytics {
@@ -30,6 +35,7 @@ export interface CacheAnalytics {
       averageLatency: number;
       hitRate: number;
       efficiency: number;
+      consistencyViolations: number;
     };
   };
 }
@@ -67,7 +73,7 @@ const initialState: PerformanceDashboardState = {
   },
   isRecording: true,
   timeRange: '15m',
-  selectedModels: ['Neural Authority', 'Neural Cache', 'Smart Memory'],
+  selectedModels: ['Neural Authority', 'Neural Cache', 'Smart Memory', 'Session Guard'],
   exportData: [],
   lastUpdated: null
 };
@@ -88,6 +94,7 @@ const calculateAnalytics = (metrics: PerformanceMetric[]): CacheAnalytics => {
     averageLatency: number;
     hitRate: number;
     efficiency: number;
+    consistencyViolations: number;
   } } = {};
   
   // Calculate per-model metrics
@@ -105,12 +112,15 @@ const calculateAnalytics = (metrics: PerformanceMetric[]): CacheAnalytics => {
     const averageLatency = modelMetricsArray.reduce((sum, m) => sum + m.responseTime, 0) / requests;
     const hitRate = requests > 0 ? (hits / requests) * 100 : 0;
     const efficiency = modelMetricsArray.filter(m => m.efficiency === 'optimal').length / requests * 100;
+    // Responses whose staleness check found at least one outdated product
+    const consistencyViolations = modelMetricsArray.filter(m => m.stalenessChecked && (m.staleItems ?? 0) > 0).length;
 
     modelMetrics[modelName] = {
       requests,
       averageLatency: Math.round(averageLatency * 100) / 100,
       hitRate: Math.round(hitRate * 100) / 100,
-      efficiency: Math.round(efficiency * 100) / 100
+      efficiency: Math.round(efficiency * 100) / 100,
+      consistencyViolations
     };
   });
 
@@ -253,7 +263,10 @@ export function PerformanceDashboardProvider({ children }: { children: ReactNode
       'From Cache',
       'Efficiency',
       'Request ID',
-      'Data Count'
+      'Data Count',
+      'Stale Items',
+      'Max Version Lag',
+      'Staleness (ms)'
     ].join(',');
 
     const rows = state.metrics.map(metric => [
@@ -267,7 +280,10 @@ export function PerformanceDashboardProvider({ children }: { children: ReactNode
       metric.fromCache,
       metric.efficiency,
       metric.requestId,
-      metric.dataCount
+      metric.dataCount,
+      metric.stalenessChecked ? metric.staleItems : '',
+      metric.stalenessChecked ? metric.maxVersionLag : '',
+      metric.stalenessChecked ? metric.stalenessMs : ''
     ].join(','));
 
     return [headers, ...rows].join('\n');
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { repository } from '@/lib/repository';
+import type { Product } from '@/lib/types';
+import { reserveInventory } from './inventory';
+
+// No Supabase settings under test, so this is the in-memory repository
+describe('reserveInventory', () => {
+  let product: Product;
+
+  beforeEach(async () => {
+    const [first] = await repository.getProducts({ limit: 1, offset: 0, sort: 'updated_desc', fields: 'full' });
+    product = (await repository.updateProduct(first.id, { inventory: 3 }))!;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('never sells more than the stock under concurrent reservations', async () => {
+    // Every client saw the same 3 units and tries to buy one
+    const results = await Promise.all(
+      Array.from({ length: 8 }, () => reserveInventory(product, 1, 'fast'))
+    );
+    const reservations = results.map(result => result!.reservation);
+    const reserved = reservations.filter(reservation => reservation.outcome === 'reserved');
+    const final = (await repository.getProductById(product.id))!;
+
+    expect(reserved.length).toBeLessThanOrEqual(3);
+    expect(final.inventory).toBe(3 - reserved.length);
+    expect(final.inventory).toBeGreaterThanOrEqual(0);
+    expect(final.version).toBe(product.version + reserved.length);
+
+    // Everyone read the same version first, so the losers hit conflicts and retried
+    expect(reservations.reduce((sum, reservation) => sum + reservation.conflicts, 0)).toBeGreaterThan(0);
+    for (const reservation of reservations.filter(candidate => candidate.outcome === 'insufficient_stock')) {
+      expect(reservation).toMatchObject({ inventory: 0, oversell: true });
+    }
+  });
+
+  it('re-reads after a conflict and reports the refusal as an oversell attempt', async () => {
+    const [first, second] = await Promise.all([
+      reserveInventory(product, 2, 'fast'),
+      reserveInventory(product, 2, 'fast')
+    ]);
+    const [winner, loser] = [first!.reservation, second!.reservation]
+      .sort((a, b) => Number(b.outcome === 'reserved') - Number(a.outcome === 'reserved'));
+
+    expect(winner).toMatchObject({ outcome: 'reserved', oversell: false });
+    expect(loser).toMatchObject({ outcome: 'insufficient_stock', inventory: 1, observed_inventory: 3, oversell: true });
+    // A conflict means the other reservation just succeeded, so one retry at most
+    expect(loser.conflicts).toBeLessThanOrEqual(1);
+    expect(loser.attempts).toBe(loser.conflicts + 1);
+    expect((await repository.getProductById(product.id))!.inventory).toBe(1);
+  });
+
+  it('gives up with a conflict after repeated version changes', async () => {
+    vi.spyOn(repository, 'compareAndSetInventory').mockResolvedValue(null);
+
+    const result = await reserveInventory(product, 1, 'fast');
+
+    expect(result!.reservation).toMatchObject({ outcome: 'conflict', attempts: 5, conflicts: 5, oversell: false });
+    expect((await repository.getProductById(product.id))!.inventory).toBe(3);
+  });
+
+  it('returns null for a product that no longer exists', async () => {
+    expect(await reserveInventory({ ...product, id: '00000000-0000-4000-8000-000000000000' }, 1, 'fast')).toBeNull();
+  });
+});
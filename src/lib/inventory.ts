@@ -0,0 +1,122 @@
+import { v4 as uuidv4 } from 'uuid';
+import { repository } from '@/lib/repository';
+import { createLogger } from '@/lib/logger';
+import type { ConsistencyMode, Product, Reservation } from '@/lib/types';
+
+/**
+ * Inventory Reservation
+ *
+ * Stock is decremented with compare-and-swap on `products.version`: read the
+ * row, write the new inventory only if the version is unchanged, retry on a
+ * conflict. The stock level the client acted on (read through its consistency
+ * mode) is compared with the real one, so a purchase the client believed was
+ * possible but the database refuses is reported as an oversell attempt.
+ */
+
+/**
+ * Compare-and-swap attempts before giving up on a contended product
+ */
+const MAX_RESERVE_ATTEMPTS = 5;
+
+/**
+ * Base delay between attempts; grows linearly with jitter so retries spread out
+ */
+const RETRY_DELAY_MS = 20;
+
+export interface ReservationResult {
+  reservation: Reservation;
+  product: Product; // Authoritative row after the last attempt
+}
+
+function retryDelay(attempt: number): Promise<void> {
+  const delay = RETRY_DELAY_MS * attempt + Math.random() * RETRY_DELAY_MS;
+  return new Promise(resolve => setTimeout(resolve, delay));
+}
+
+/**
+ * Reserve `quantity` units of a product the client saw as `observed`
+ *
+ * @returns null when the product no longer exists
+ */
+export async function reserveInventory(
+  observed: Product,
+  quantity: number,
+  mode: ConsistencyMode,
+  requestId: string = uuidv4()
+): Promise<ReservationResult | null> {
+  const logger = createLogger(requestId);
+  // The client only tries to buy when the stock it was shown covers the order
+  const observedAvailable = observed.inventory >= quantity;
+  let conflicts = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    const current = await repository.getProductById(observed.id, requestId);
+    if (!current) {
+      return null;
+    }
+
+    const reservation = (outcome: Reservation['outcome'], product: Product): ReservationResult => ({
+      reservation: {
+        product_id: observed.id,
+        quantity,
+        mode,
+        outcome,
+        observed_inventory: observed.inventory,
+        observed_version: observed.version,
+        inventory: product.inventory,
+        version: product.version,
+        attempts: attempt,
+        conflicts,
+        oversell: outcome === 'insufficient_stock' && observedAvailable
+      },
+      product
+    });
+
+    if (current.inventory < quantity) {
+      const result = reservation('insufficient_stock', current);
+
+      if (result.reservation.oversell) {
+        logger.warn('Oversell attempt - client acted on stale inventory', {
+          productId: observed.id,
+          mode,
+          quantity,
+          observedInventory: observed.inventory,
+          observedVersion: observed.version,
+          inventory: current.inventory,
+          version: current.version
+        });
+      }
+      return result;
+    }
+
+    const updated = await repository.compareAndSetInventory(
+      observed.id,
+      current.version,
+      current.inventory - quantity,
+      requestId
+    );
+
+    if (updated) {
+      logger.info('Inventory reserved', {
+        productId: observed.id,
+        mode,
+        quantity,
+        inventory: updated.inventory,
+        attempts: attempt,
+        conflicts
+      });
+      return reservation('reserved', updated);
+    }
+
+    // Another write landed between our read and our update - re-read and retry
+    conflicts++;
+    if (attempt === MAX_RESERVE_ATTEMPTS) {
+      logger.warn('Inventory reservation gave up after repeated version conflicts', {
+        productId: observed.id,
+        attempts: attempt
+      });
+      return reservation('conflict', current);
+    }
+    await retryDelay(attempt);
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { queryProducts } from '@/lib/repository/query';
+import { seedProducts } from '@/lib/repository/seed';
+import { GetProductsQuerySchema, Product } from '@/lib/types';
+import { decodeCursor, encodeCursor, nextCursor } from './pagination';
+
+const T = Date.UTC(2026, 0, 1);
+
+// Three price points, so most rows tie on the sort column
+function catalogue(): Product[] {
+  return seedProducts(T).map((product, i) => ({ ...product, price: [1000, 2000, 3000][i % 3] }));
+}
+
+/**
+ * Follow next_cursor from the first page to the last, as a client would
+ */
+function paginate(rows: () => Product[], params: Record<string, string>): Product[][] {
+  const pages: Product[][] = [];
+  let cursor: string | null = null;
+
+  do {
+    const query = GetProductsQuerySchema.parse({ ...params, ...(cursor ? { cursor } : {}) });
+    const page = queryProducts(rows(), query);
+    pages.push(page);
+    cursor = nextCursor(page, query);
+  } while (cursor);
+
+  return pages;
+}
+
+describe('keyset pagination', () => {
+  it('round-trips a cursor and rejects malformed ones', () => {
+    const [product] = catalogue();
+    const cursor = encodeCursor(product, 'price_asc');
+
+    expect(decodeCursor(cursor)).toEqual({ sort: 'price_asc', value: product.price, id: product.id });
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('{"sort":"price_asc","value":1,"id":"x"}').toString('base64url'))).toBeNull();
+  });
+
+  it('rejects cursors combined with offset or issued for another sort', () => {
+    const cursor = encodeCursor(catalogue()[0], 'price_asc');
+
+    expect(GetProductsQuerySchema.safeParse({ sort: 'price_asc', cursor, offset: '2' }).success).toBe(false);
+    expect(GetProductsQuerySchema.safeParse({ sort: 'name_asc', cursor }).success).toBe(false);
+    expect(GetProductsQuerySchema.safeParse({ sort: 'price_asc', cursor }).success).toBe(true);
+  });
+
+  it.each(['updated_desc', 'price_asc', 'price_desc', 'name_asc'])('visits every row once under %s', sort => {
+    const rows = catalogue();
+    const pages = paginate(() => rows, { sort, limit: '3' });
+    const all = queryProducts(rows, GetProductsQuerySchema.parse({ sort, limit: '100' }));
+
+    expect(pages.flat().map(product => product.id)).toEqual(all.map(product => product.id));
+    expect(pages.at(-1)!.length).toBeLessThanOrEqual(3);
+  });
+
+  it('keeps later pages stable when a row moves mid-pagination', () => {
+    const rows = catalogue();
+    const firstQuery = GetProductsQuerySchema.parse({ sort: 'updated_desc', limit: '3' });
+    const firstPage = queryProducts(rows, firstQuery);
+    const cursor = nextCursor(firstPage, firstQuery)!;
+    const expectedRest = queryProducts(rows, GetProductsQuerySchema.parse({ sort: 'updated_desc', limit: '100', offset: '3' }));
+
+    // A row from the last page is updated and jumps to the front
+    const moved = expectedRest.at(-1)!;
+    const updated = rows.map(product =>
+      product.id === moved.id ? { ...product, updated_at: new Date(T + 60_000).toISOString() } : product
+    );
+
+    const afterCursor = queryProducts(updated, GetProductsQuerySchema.parse({ sort: 'updated_desc', limit: '100', cursor }));
+    const afterOffset = queryProducts(updated, GetProductsQuerySchema.parse({ sort: 'updated_desc', limit: '100', offset: '3' }));
+
+    // Nothing after the cursor is skipped or repeated; only the moved row is now behind it
+    expect(afterCursor.map(product => product.id)).toEqual(expectedRest.slice(0, -1).map(product => product.id));
+    // Offset pagination shifts instead and serves the end of page one again
+    expect(afterOffset[0].id).toBe(firstPage[2].id);
+  });
+
+  it('stops issuing cursors on a short final page', () => {
+    const query = GetProductsQuerySchema.parse({ limit: '100' });
+    expect(nextCursor(queryProducts(catalogue(), query), query)).toBeNull();
+  });
+});
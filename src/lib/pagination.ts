@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+/**
+ * Keyset Pagination
+ *
+ * Product lists are ordered by a sort column with `id` as tie-breaker. A
+ * cursor holds the position of the last row on a page, and the next page
+ * starts strictly after it, so rows updated mid-pagination can't shift later
+ * pages the way they shift offset-based ones.
+ *
+ * Cursors are opaque to clients: base64url-encoded JSON, valid only for the
+ * sort they were issued under.
+ */
+
+export const ProductSortSchema = z.enum(['updated_desc', 'price_asc', 'price_desc', 'name_asc']);
+
+export type ProductSort = z.infer<typeof ProductSortSchema>;
+
+export interface SortKey {
+  column: 'updated_at' | 'price' | 'name';
+  ascending: boolean;
+}
+
+/**
+ * Column and direction behind each sort
+ */
+export const PRODUCT_SORT_KEYS: Record<ProductSort, SortKey> = {
+  updated_desc: { column: 'updated_at', ascending: false },
+  price_asc: { column: 'price', ascending: true },
+  price_desc: { column: 'price', ascending: false },
+  name_asc: { column: 'name', ascending: true }
+};
+
+export interface ProductCursor {
+  sort: ProductSort;
+  value: string | number; // Sort column value of the last row
+  id: string;
+}
+
+type CursorRow = { id: string; updated_at: string; price: number; name: string };
+
+const ProductCursorSchema = z.object({
+  sort: ProductSortSchema,
+  value: z.union([z.string().max(255), z.number().int()]),
+  id: z.string().uuid()
+});
+
+/**
+ * Encode the cursor for the page after `product`
+ */
+export function encodeCursor(product: CursorRow, sort: ProductSort): string {
+  const position: ProductCursor = {
+    sort,
+    value: product[PRODUCT_SORT_KEYS[sort].column],
+    id: product.id
+  };
+  return Buffer.from(JSON.stringify(position), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor; null when it is malformed
+ */
+export function decodeCursor(cursor: string): ProductCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const result = ProductCursorSchema.safeParse(decoded);
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Query parameter schema: validates an opaque cursor and decodes it
+ */
+export const CursorSchema = z.string().max(512).transform((cursor, ctx) => {
+  const position = decodeCursor(cursor);
+  if (!position) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+    return z.NEVER;
+  }
+  return position;
+});
+
+/**
+ * Cursor for the next page, or null when this page is the last one
+ */
+export function nextCursor(products: CursorRow[], query: { limit: number; sort: ProductSort }): string | null {
+  return products.length === query.limit && products.length > 0
+    ? encodeCursor(products[products.length - 1], query.sort)
+    : null;
+}
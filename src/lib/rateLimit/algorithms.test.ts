@@ -0,0 +1,176 @@
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { describe, expect, it } from 'vitest';
+import { consume, RateLimitAlgorithm, RateLimitDecision, RateLimitState, retryAfterSeconds } from './algorithms';
+import { MemoryRateLimitStore } from './memory-store';
+import { RedisRateLimitStore } from './redis-store';
+import type { Clock, RateLimitStore } from './store';
+
+// Aligned to every window size below, so sliding-window buckets start at T.
+// Kept small: ioredis-mock's Lua numbers are 32-bit.
+const T = 1_000_000;
+
+// The Lua scripts must decide exactly as ./algorithms does, so every case
+// runs against both stores
+const STORES: Record<string, (clock: Clock) => RateLimitStore> = {
+  memory: clock => new MemoryRateLimitStore(clock),
+  redis: clock => new RedisRateLimitStore('test', new RedisMock() as unknown as Redis, clock)
+};
+
+// ioredis-mock instances share one keyspace, so each limiter gets its own key
+let limiters = 0;
+
+describe('retryAfterSeconds', () => {
+  it('rounds up to whole seconds, at least 1', () => {
+    expect(retryAfterSeconds(0)).toBe(1);
+    expect(retryAfterSeconds(1)).toBe(1);
+    expect(retryAfterSeconds(1000)).toBe(1);
+    expect(retryAfterSeconds(1001)).toBe(2);
+    expect(retryAfterSeconds(7500)).toBe(8);
+  });
+});
+
+describe.each(Object.entries(STORES))('%s store', (_, createStore) => {
+  /**
+   * Drive one key through a store whose clock the test sets
+   */
+  function limiter(requests: number, windowMs: number, algorithm: RateLimitAlgorithm) {
+    let now = T;
+    const store = createStore(() => now);
+    const key = `client-${++limiters}`;
+
+    return async (at: number): Promise<RateLimitDecision> => {
+      now = T + at;
+      return store.consume(key, { requests, windowMs, algorithm });
+    };
+  }
+
+  describe('fixed-window', () => {
+    it('allows the limit per window, counted from the first request', async () => {
+      const hit = limiter(2, 10_000, 'fixed-window');
+
+      expect(await hit(0)).toEqual({ allowed: true, limit: 2, remaining: 1, resetTime: T + 10_000 });
+      expect(await hit(1000)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(await hit(2500)).toEqual({ allowed: false, limit: 2, remaining: 0, resetTime: T + 10_000, retryAfter: 8 });
+      expect(await hit(9999)).toMatchObject({ allowed: false, retryAfter: 1 });
+
+      // The window ends exactly windowMs after it opened
+      expect(await hit(10_000)).toEqual({ allowed: true, limit: 2, remaining: 1, resetTime: T + 20_000 });
+    });
+
+    it('allows up to twice the limit across a window boundary', async () => {
+      const hit = limiter(2, 10_000, 'fixed-window');
+
+      await hit(0);
+      expect(await hit(9999)).toMatchObject({ allowed: true });
+      expect(await hit(10_000)).toMatchObject({ allowed: true });
+      expect(await hit(10_001)).toMatchObject({ allowed: true });
+      expect(await hit(10_002)).toMatchObject({ allowed: false });
+    });
+  });
+
+  describe('sliding-log', () => {
+    it('frees a slot exactly windowMs after the oldest accepted request', async () => {
+      const hit = limiter(2, 10_000, 'sliding-log');
+
+      expect(await hit(0)).toMatchObject({ allowed: true, remaining: 1 });
+      expect(await hit(4000)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(await hit(5000)).toEqual({ allowed: false, limit: 2, remaining: 0, resetTime: T + 14_000, retryAfter: 5 });
+      expect(await hit(9999)).toMatchObject({ allowed: false, retryAfter: 1 });
+
+      expect(await hit(10_000)).toEqual({ allowed: true, limit: 2, remaining: 0, resetTime: T + 20_000 });
+      expect(await hit(10_001)).toMatchObject({ allowed: false, retryAfter: 4 });
+    });
+
+    it('never lets more than the limit through in any window', async () => {
+      const hit = limiter(2, 10_000, 'sliding-log');
+
+      await hit(0);
+      await hit(9999);
+      // Unlike fixed-window, the boundary doesn't reset anything
+      expect(await hit(10_000)).toMatchObject({ allowed: true });
+      expect(await hit(10_001)).toMatchObject({ allowed: false });
+      expect(await hit(19_998)).toMatchObject({ allowed: false, retryAfter: 1 });
+      expect(await hit(19_999)).toMatchObject({ allowed: true });
+    });
+  });
+
+  describe('sliding-window', () => {
+    it('rejects for the rest of the window once the current window alone is full', async () => {
+      const hit = limiter(10, 10_000, 'sliding-window');
+
+      for (let i = 0; i < 10; i++) {
+        expect(await hit(5000)).toMatchObject({ allowed: true, remaining: 9 - i });
+      }
+      expect(await hit(5000)).toEqual({ allowed: false, limit: 10, remaining: 0, resetTime: T + 20_000, retryAfter: 5 });
+    });
+
+    it('weights the previous window by how much of it still overlaps', async () => {
+      const hit = limiter(10, 10_000, 'sliding-window');
+
+      for (let i = 0; i < 10; i++) {
+        await hit(5000);
+      }
+
+      // At the boundary the previous window counts in full
+      expect(await hit(10_000)).toMatchObject({ allowed: false, retryAfter: 1 });
+
+      // 10% into the next window: 10 * 0.9 = 9 estimated, room for one
+      expect(await hit(11_000)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(await hit(11_000)).toMatchObject({ allowed: false, retryAfter: 1 });
+      expect(await hit(12_000)).toMatchObject({ allowed: true });
+    });
+
+    it('forgets windows older than the previous one', async () => {
+      const hit = limiter(10, 10_000, 'sliding-window');
+
+      for (let i = 0; i < 10; i++) {
+        await hit(9999);
+      }
+      expect(await hit(20_000)).toMatchObject({ allowed: true, remaining: 9 });
+    });
+  });
+
+  describe('token-bucket', () => {
+    it('allows a burst of the full bucket, then refills evenly', async () => {
+      // One token every 5 seconds
+      const hit = limiter(2, 10_000, 'token-bucket');
+
+      expect(await hit(0)).toMatchObject({ allowed: true, remaining: 1 });
+      expect(await hit(0)).toEqual({ allowed: true, limit: 2, remaining: 0, resetTime: T + 10_000 });
+      expect(await hit(0)).toEqual({ allowed: false, limit: 2, remaining: 0, resetTime: T + 10_000, retryAfter: 5 });
+
+      // Half a token: rejected requests don't spend it
+      expect(await hit(2500)).toMatchObject({ allowed: false, retryAfter: 3 });
+      expect(await hit(5000)).toEqual({ allowed: true, limit: 2, remaining: 0, resetTime: T + 15_000 });
+      expect(await hit(5001)).toMatchObject({ allowed: false, retryAfter: 5 });
+    });
+
+    it('caps refills at the bucket size after a long idle period', async () => {
+      const hit = limiter(2, 10_000, 'token-bucket');
+
+      await hit(0);
+      await hit(0);
+      expect(await hit(60_000)).toMatchObject({ allowed: true, remaining: 1 });
+      expect(await hit(60_000)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(await hit(60_000)).toMatchObject({ allowed: false });
+    });
+  });
+});
+
+describe('consume', () => {
+  it('discards state left by a different algorithm', () => {
+    const state: RateLimitState = { algorithm: 'fixed-window', windowStart: T, count: 5 };
+
+    const outcome = consume(state, { requests: 5, windowMs: 10_000, algorithm: 'token-bucket' }, T);
+
+    expect(outcome.decision).toMatchObject({ allowed: true, remaining: 4 });
+    expect(outcome.state.algorithm).toBe('token-bucket');
+  });
+
+  it('uses sliding-window when the rule names no algorithm', () => {
+    const outcome = consume(undefined, { requests: 5, windowMs: 10_000 }, T);
+
+    expect(outcome.state.algorithm).toBe('sliding-window');
+  });
+});
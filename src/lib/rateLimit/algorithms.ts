@@ -0,0 +1,213 @@
+/**
+ * Rate Limiting Algorithms
+ *
+ * Pure functions from (previous state, rule, now) to (next state, decision),
+ * shared by the middleware and `applyRateLimit` so both limit the same way.
+ * The clock is always passed in, so every algorithm is deterministic.
+ *
+ * Algorithms:
+ * - fixed-window: counter reset `windowMs` after a client's first request;
+ *   cheap, but allows up to 2x `requests` across a window boundary
+ * - sliding-log: timestamps of accepted requests in the last `windowMs`;
+ *   exact, memory grows with `requests`
+ * - sliding-window: counters for the current and previous aligned windows,
+ *   the previous one weighted by how much of it still overlaps; near-exact
+ *   in constant memory
+ * - token-bucket: `requests` tokens refilled evenly over `windowMs`; allows
+ *   bursts up to `requests` while holding the long-run rate
+ *
+ * Rejected requests never consume capacity.
+ */
+
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-log' | 'sliding-window' | 'token-bucket';
+
+export const RATE_LIMIT_ALGORITHMS: RateLimitAlgorithm[] = ['fixed-window', 'sliding-log', 'sliding-window', 'token-bucket'];
+
+/**
+ * Algorithm used when a rule doesn't name one
+ */
+export const DEFAULT_RATE_LIMIT_ALGORITHM: RateLimitAlgorithm = 'sliding-window';
+
+export interface RateLimitRule {
+  requests: number;
+  windowMs: number;
+  algorithm?: RateLimitAlgorithm;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number; // epoch ms when full capacity is available again
+  retryAfter?: number; // seconds until a rejected request could succeed
+}
+
+export type RateLimitState =
+  | { algorithm: 'fixed-window'; windowStart: number; count: number }
+  | { algorithm: 'sliding-log'; timestamps: number[] }
+  | { algorithm: 'sliding-window'; windowStart: number; current: number; previous: number }
+  | { algorithm: 'token-bucket'; tokens: number; updatedAt: number };
+
+export interface RateLimitOutcome {
+  state: RateLimitState;
+  decision: RateLimitDecision;
+  /**
+   * Epoch ms after which the state is equivalent to no state at all
+   */
+  expiresAt: number;
+}
+
+/**
+ * Whole seconds for a Retry-After header (at least 1)
+ */
+export function retryAfterSeconds(ms: number): number {
+  return Math.max(1, Math.ceil(Math.round(ms) / 1000));
+}
+
+function fixedWindow(state: RateLimitState | undefined, rule: RateLimitRule, now: number): RateLimitOutcome {
+  let current = state?.algorithm === 'fixed-window' && now < state.windowStart + rule.windowMs
+    ? state
+    : { algorithm: 'fixed-window' as const, windowStart: now, count: 0 };
+  const resetTime = current.windowStart + rule.windowMs;
+
+  if (current.count >= rule.requests) {
+    return {
+      state: current,
+      decision: { allowed: false, limit: rule.requests, remaining: 0, resetTime, retryAfter: retryAfterSeconds(resetTime - now) },
+      expiresAt: resetTime
+    };
+  }
+
+  current = { ...current, count: current.count + 1 };
+  return {
+    state: current,
+    decision: { allowed: true, limit: rule.requests, remaining: rule.requests - current.count, resetTime },
+    expiresAt: resetTime
+  };
+}
+
+function slidingLog(state: RateLimitState | undefined, rule: RateLimitRule, now: number): RateLimitOutcome {
+  const timestamps = state?.algorithm === 'sliding-log'
+    ? state.timestamps.filter(timestamp => timestamp > now - rule.windowMs)
+    : [];
+
+  if (timestamps.length >= rule.requests) {
+    // The oldest accepted request leaving the window frees the next slot
+    const freesAt = timestamps[timestamps.length - rule.requests] + rule.windowMs;
+    return {
+      state: { algorithm: 'sliding-log', timestamps },
+      decision: {
+        allowed: false,
+        limit: rule.requests,
+        remaining: 0,
+        resetTime: timestamps[timestamps.length - 1] + rule.windowMs,
+        retryAfter: retryAfterSeconds(freesAt - now)
+      },
+      expiresAt: timestamps[timestamps.length - 1] + rule.windowMs
+    };
+  }
+
+  timestamps.push(now);
+  return {
+    state: { algorithm: 'sliding-log', timestamps },
+    decision: {
+      allowed: true,
+      limit: rule.requests,
+      remaining: rule.requests - timestamps.length,
+      resetTime: now + rule.windowMs
+    },
+    expiresAt: now + rule.windowMs
+  };
+}
+
+function slidingWindow(state: RateLimitState | undefined, rule: RateLimitRule, now: number): RateLimitOutcome {
+  const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+  let current = 0;
+  let previous = 0;
+
+  if (state?.algorithm === 'sliding-window') {
+    if (state.windowStart === windowStart) {
+      current = state.current;
+      previous = state.previous;
+    } else if (state.windowStart === windowStart - rule.windowMs) {
+      previous = state.current;
+    }
+  }
+
+  // Share of the previous window still inside the sliding window
+  const overlap = 1 - (now - windowStart) / rule.windowMs;
+  const estimated = previous * overlap + current;
+  const resetTime = windowStart + rule.windowMs * (current > 0 ? 2 : 1);
+  const expiresAt = windowStart + 2 * rule.windowMs;
+
+  if (estimated + 1 > rule.requests) {
+    // Wait until the previous window's weight has decayed enough, or for
+    // the next window if the current one alone is full
+    const waitMs = current + 1 > rule.requests || previous === 0
+      ? windowStart + rule.windowMs - now
+      : Math.max(0, rule.windowMs * (1 - (rule.requests - current - 1) / previous) - (now - windowStart));
+
+    return {
+      state: { algorithm: 'sliding-window', windowStart, current, previous },
+      decision: { allowed: false, limit: rule.requests, remaining: 0, resetTime, retryAfter: retryAfterSeconds(waitMs) },
+      expiresAt
+    };
+  }
+
+  current++;
+  return {
+    state: { algorithm: 'sliding-window', windowStart, current, previous },
+    decision: {
+      allowed: true,
+      limit: rule.requests,
+      remaining: Math.max(0, Math.floor(rule.requests - estimated - 1)),
+      resetTime: windowStart + 2 * rule.windowMs
+    },
+    expiresAt
+  };
+}
+
+function tokenBucket(state: RateLimitState | undefined, rule: RateLimitRule, now: number): RateLimitOutcome {
+  const refillPerMs = rule.requests / rule.windowMs;
+  const tokens = state?.algorithm === 'token-bucket'
+    ? Math.min(rule.requests, state.tokens + Math.max(0, now - state.updatedAt) * refillPerMs)
+    : rule.requests;
+
+  if (tokens < 1) {
+    const fullAt = now + Math.ceil((rule.requests - tokens) / refillPerMs);
+    return {
+      state: { algorithm: 'token-bucket', tokens, updatedAt: now },
+      decision: {
+        allowed: false,
+        limit: rule.requests,
+        remaining: 0,
+        resetTime: fullAt,
+        retryAfter: retryAfterSeconds((1 - tokens) / refillPerMs)
+      },
+      expiresAt: fullAt
+    };
+  }
+
+  const remaining = tokens - 1;
+  const fullAt = now + Math.ceil((rule.requests - remaining) / refillPerMs);
+  return {
+    state: { algorithm: 'token-bucket', tokens: remaining, updatedAt: now },
+    decision: { allowed: true, limit: rule.requests, remaining: Math.floor(remaining), resetTime: fullAt },
+    expiresAt: fullAt
+  };
+}
+
+const ALGORITHMS: Record<RateLimitAlgorithm, typeof fixedWindow> = {
+  'fixed-window': fixedWindow,
+  'sliding-log': slidingLog,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket
+};
+
+/**
+ * Count one request against `rule`. A state left by a different algorithm
+ * (the rule changed) is discarded.
+ */
+export function consume(state: RateLimitState | undefined, rule: RateLimitRule, now: number): RateLimitOutcome {
+  return ALGORITHMS[rule.algorithm ?? DEFAULT_RATE_LIMIT_ALGORITHM](state, rule, now);
+}
@@ -0,0 +1,92 @@
+import type { RateLimitAlgorithm } from './algorithms';
+import type { RateLimitStoreKind } from './store';
+
+/**
+ * Rate Limit Control State
+ *
+ * What operators see and change through /api/admin/rate-limits: recent
+ * per-client usage, per-endpoint rejections over time, and temporary
+ * overrides of RATE_LIMITS entries. Kept next to the limiter state, so it is
+ * per instance with the memory store and fleet-wide with Redis.
+ *
+ * Activity is counted in one-minute buckets and kept for
+ * ACTIVITY_RETENTION_MINUTES.
+ */
+
+export const ACTIVITY_BUCKET_MS = 60 * 1000;
+export const ACTIVITY_RETENTION_MINUTES = 60;
+
+/**
+ * A temporary replacement for one RATE_LIMITS entry (tier multipliers still apply)
+ */
+export interface RateLimitOverride {
+  pattern: string;
+  requests: number;
+  windowMs: number;
+  algorithm: RateLimitAlgorithm;
+  createdAt: number; // epoch ms
+  expiresAt: number; // epoch ms
+  createdBy?: string; // user id of the admin who set it
+}
+
+export interface ClientUsage {
+  clientId: string; // `user:{id}` or `ip:{address}`
+  requests: number;
+  rejected: number;
+}
+
+export interface EndpointRejections {
+  endpoint: string; // RATE_LIMITS entry
+  total: number;
+  series: Array<{ minute: string; rejected: number }>; // oldest first, minutes with rejections only
+}
+
+export interface RateLimitControl {
+  readonly kind: RateLimitStoreKind;
+
+  /**
+   * Count one rate-limited request. Never rejects: metrics must not fail requests.
+   */
+  recordRequest(clientId: string, endpoint: string, allowed: boolean): Promise<void>;
+
+  /**
+   * Clients with the most requests over the last `minutes`
+   */
+  getTopClients(limit: number, minutes: number): Promise<ClientUsage[]>;
+
+  /**
+   * Rejections per endpoint and minute over the last `minutes`
+   */
+  getRejections(minutes: number): Promise<EndpointRejections[]>;
+
+  /**
+   * Overrides that have not expired
+   */
+  getOverrides(): Promise<RateLimitOverride[]>;
+
+  /**
+   * Set or replace the override for `override.pattern`
+   */
+  setOverride(override: RateLimitOverride): Promise<void>;
+
+  /**
+   * Remove one override, or all of them, and resolve the number removed
+   */
+  removeOverrides(pattern?: string): Promise<number>;
+}
+
+/**
+ * Start of the activity bucket holding `time`
+ */
+export function bucketStart(time: number): number {
+  return Math.floor(time / ACTIVITY_BUCKET_MS) * ACTIVITY_BUCKET_MS;
+}
+
+/**
+ * Sort and trim usage rows to the top `limit`
+ */
+export function topUsage(usage: Iterable<ClientUsage>, limit: number): ClientUsage[] {
+  return Array.from(usage)
+    .sort((a, b) => b.requests - a.requests || b.rejected - a.rejected || a.clientId.localeCompare(b.clientId))
+    .slice(0, limit);
+}
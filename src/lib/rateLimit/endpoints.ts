@@ -0,0 +1,103 @@
+import type { UserRole } from '@/lib/requestUser';
+import type { RateLimitRule } from './algorithms';
+import type { RateLimitOverride } from './control';
+
+/**
+ * Endpoint Rate Limits
+ *
+ * The per-endpoint limits the middleware enforces, and how a request's
+ * endpoint, tier and any active admin override combine into the rule it is
+ * counted against. Lives outside the middleware so the admin API can list
+ * and override the same table.
+ */
+
+// Rate limiting configurations
+export interface RateLimitConfig extends RateLimitRule {
+  methods?: string[]; // Only these methods count against the entry; others fall through to the next match
+  message?: string;
+  skipSuccessfulRequests?: boolean;
+}
+
+export const RATE_LIMITS: Record<string, RateLimitConfig> = {
+  // API endpoints - more restrictive
+  '/api/check-fast': { requests: 100, windowMs: 60 * 1000, algorithm: 'sliding-window' }, // 100 requests per minute
+  '/api/always-fresh': { requests: 50, windowMs: 60 * 1000, algorithm: 'sliding-window' }, // 50 requests per minute
+  '/api/smart-memory': { requests: 75, windowMs: 60 * 1000, algorithm: 'sliding-window' }, // 75 requests per minute
+  '/api/session-consistent': { requests: 75, windowMs: 60 * 1000, algorithm: 'sliding-window' }, // 75 requests per minute
+  '/api/bounded-staleness': { requests: 100, windowMs: 60 * 1000, algorithm: 'sliding-window' }, // 100 requests per minute
+  '/api/replica-read': { requests: 100, windowMs: 60 * 1000, algorithm: 'sliding-window' }, // 100 requests per minute
+  '/api/products': { requests: 30, windowMs: 60 * 1000, algorithm: 'token-bucket', methods: ['PATCH', 'POST'] }, // 30 writes per minute, small bursts allowed; reads use default
+  '/api/cart': { requests: 60, windowMs: 60 * 1000, algorithm: 'token-bucket' }, // 60 requests per minute, small bursts allowed
+
+  // Health check - more lenient, boundary bursts don't matter
+  '/api/health': { requests: 200, windowMs: 60 * 1000, algorithm: 'fixed-window' }, // 200 requests per minute
+
+  // Admin endpoints (fault injection, rate limits) - protected, rarely called
+  '/api/admin': { requests: 30, windowMs: 60 * 1000, algorithm: 'sliding-log' }, // 30 requests per minute
+
+  // Auth endpoints - exact limits to prevent abuse
+  '/api/auth': { requests: 10, windowMs: 60 * 1000, algorithm: 'sliding-log' }, // 10 requests per minute
+
+  // Global fallback
+  default: { requests: 200, windowMs: 60 * 1000, algorithm: 'sliding-window' } // 200 requests per minute
+};
+
+/**
+ * Per-IP budget for session lookups that miss the session cache. Each one is
+ * a Supabase Auth call made before the client is known, so without it a
+ * limited IP could keep calling Auth by sending fresh forged cookies. Real
+ * sessions are cached, so this only bites many new sessions from one IP.
+ */
+export const SESSION_LOOKUP_LIMIT: RateLimitRule = { requests: 30, windowMs: 60 * 1000, algorithm: 'sliding-log' };
+
+// Limit multipliers by user_profiles.role; anonymous (IP-keyed) traffic gets the base limits
+export type RateLimitTier = UserRole | 'anonymous';
+
+export const TIER_MULTIPLIERS: Record<RateLimitTier, number> = {
+  anonymous: 1,
+  user: 2,
+  researcher: 5, // study runs issue bursts of benchmark requests
+  admin: 10
+};
+
+function appliesTo(config: RateLimitConfig, method: string): boolean {
+  return !config.methods || config.methods.includes(method);
+}
+
+/**
+ * The RATE_LIMITS entry a request falls under
+ */
+export function matchEndpoint(pathname: string, method: string): string {
+  // Check for exact matches first
+  if (RATE_LIMITS[pathname] && appliesTo(RATE_LIMITS[pathname], method)) {
+    return pathname;
+  }
+
+  // Check for prefix matches
+  for (const [pattern, config] of Object.entries(RATE_LIMITS)) {
+    if (pattern !== 'default' && pathname.startsWith(pattern) && appliesTo(config, method)) {
+      return pattern;
+    }
+  }
+
+  return 'default';
+}
+
+/**
+ * The rule for one endpoint and tier, with an active override replacing
+ * the configured limit
+ */
+export function resolveEndpointRule(
+  pattern: string,
+  tier: RateLimitTier,
+  overrides: RateLimitOverride[] = []
+): RateLimitRule {
+  const override = overrides.find(candidate => candidate.pattern === pattern);
+  const base: RateLimitRule = override ?? RATE_LIMITS[pattern] ?? RATE_LIMITS.default;
+
+  return {
+    requests: Math.max(1, Math.floor(base.requests * TIER_MULTIPLIERS[tier])),
+    windowMs: base.windowMs,
+    algorithm: base.algorithm
+  };
+}
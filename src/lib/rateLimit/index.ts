@@ -0,0 +1,271 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/logger';
+import type { RateLimitRule } from './algorithms';
+import type { RateLimitControl } from './control';
+import { MemoryRateLimitControl } from './memory-control';
+import { MemoryRateLimitStore } from './memory-store';
+import { RedisRateLimitControl } from './redis-control';
+import { RedisRateLimitStore } from './redis-store';
+import { RateLimitStore, RateLimitStoreKind, resolveRateLimitStoreKind } from './store';
+
+/**
+ * Rate Limiting Utilities for API Routes
+ * 
+ * Provides consistent rate limiting functionality that can be used
+ * within API routes for additional protection or custom limits.
+ * Limits use the same algorithms as the middleware (see ./algorithms) and
+ * the store selected by RATE_LIMIT_STORE (see ./store).
+ */
+
+export {
+  consume,
+  DEFAULT_RATE_LIMIT_ALGORITHM,
+  RATE_LIMIT_ALGORITHMS
+} from './algorithms';
+export type {
+  RateLimitAlgorithm,
+  RateLimitDecision,
+  RateLimitOutcome,
+  RateLimitRule,
+  RateLimitState
+} from './algorithms';
+export type { Clock, RateLimitStore, RateLimitStoreKind, RateLimitStoreStats } from './store';
+export { MemoryRateLimitStore } from './memory-store';
+export { RedisRateLimitStore } from './redis-store';
+export { ACTIVITY_RETENTION_MINUTES } from './control';
+export type { ClientUsage, EndpointRejections, RateLimitControl, RateLimitOverride } from './control';
+export { MemoryRateLimitControl } from './memory-control';
+export { RedisRateLimitControl } from './redis-control';
+export { matchEndpoint, RATE_LIMITS, resolveEndpointRule, SESSION_LOOKUP_LIMIT, TIER_MULTIPLIERS } from './endpoints';
+export type { RateLimitConfig, RateLimitTier } from './endpoints';
+
+/**
+ * Create the store selected by RATE_LIMIT_STORE; `namespace` keeps
+ * independent limiters (middleware, API routes) apart in a shared store
+ */
+export function createRateLimitStore(namespace: string): RateLimitStore {
+  if (resolveRateLimitStoreKind() === 'redis') {
+    return new RedisRateLimitStore(namespace);
+  }
+  return new MemoryRateLimitStore();
+}
+
+/**
+ * Create the control state (activity, overrides) matching RATE_LIMIT_STORE
+ */
+export function createRateLimitControl(): RateLimitControl {
+  if (resolveRateLimitStoreKind() === 'redis') {
+    return new RedisRateLimitControl();
+  }
+  return new MemoryRateLimitControl();
+}
+
+/**
+ * State behind the middleware's endpoint limits
+ */
+export interface EndpointRateLimits {
+  store: RateLimitStore;
+  control: RateLimitControl;
+}
+
+const ENDPOINT_RATE_LIMITS = Symbol.for('latentsee.rateLimit.endpoints');
+
+/**
+ * The middleware's limiter state. The middleware and API routes are bundled
+ * separately, so module-level state isn't shared between them; keeping it
+ * on globalThis lets the admin API inspect and reset what the middleware
+ * enforces in the same process.
+ */
+export function getEndpointRateLimits(): EndpointRateLimits {
+  const registry = globalThis as typeof globalThis & { [ENDPOINT_RATE_LIMITS]?: EndpointRateLimits };
+  registry[ENDPOINT_RATE_LIMITS] ??= {
+    store: createRateLimitStore('middleware'),
+    control: createRateLimitControl()
+  };
+  return registry[ENDPOINT_RATE_LIMITS];
+}
+
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;
+  retryAfter?: number;
+}
+
+export interface RateLimitOptions extends RateLimitRule {
+  skipSuccessfulRequests?: boolean;
+  keyGenerator?: (request: NextRequest) => string;
+}
+
+// Store for API-level rate limiting (same algorithms as the middleware)
+const apiRateLimitStore = createRateLimitStore('api');
+
+/**
+ * Apply rate limiting within an API route
+ */
+export async function applyRateLimit(
+  request: NextRequest, 
+  options: RateLimitOptions
+): Promise<RateLimitResult> {
+  const key = options.keyGenerator ? 
+    options.keyGenerator(request) : 
+    getDefaultKey(request);
+  
+  const { allowed, ...decision } = await apiRateLimitStore.consume(key, options);
+  return { success: allowed, ...decision };
+}
+
+/**
+ * Add rate limit headers to a response
+ */
+export function addRateLimitHeaders(
+  response: NextResponse,
+  result: RateLimitResult,
+  requestId?: string
+): NextResponse {
+  response.headers.set('X-RateLimit-Limit', result.limit.toString());
+  response.headers.set('X-RateLimit-Remaining', result.remaining.toString());
+  response.headers.set('X-RateLimit-Reset', Math.ceil(result.resetTime / 1000).toString());
+  
+  if (result.retryAfter) {
+    response.headers.set('Retry-After', result.retryAfter.toString());
+  }
+  
+  if (requestId) {
+    response.headers.set('X-Request-ID', requestId);
+  }
+  
+  return response;
+}
+
+/**
+ * Create a rate limit exceeded response
+ */
+export function createRateLimitExceededResponse(
+  result: RateLimitResult,
+  requestId?: string
+): NextResponse {
+  const response = NextResponse.json(
+    {
+      error: 'Rate limit exceeded',
+      message: 'Too many requests for this endpoint. Please try again later.',
+      metadata: {
+        requestId: requestId || 'unknown',
+        timestamp: new Date().toISOString(),
+        limit: result.limit,
+        remaining: result.remaining,
+        resetTime: new Date(result.resetTime).toISOString(),
+        retryAfter: result.retryAfter
+      }
+    },
+    { status: 429 }
+  );
+  
+  return addRateLimitHeaders(response, result, requestId);
+}
+
+/**
+ * Default key generator for rate limiting
+ */
+function getDefaultKey(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  const realIp = request.headers.get('x-real-ip');
+  const remoteAddress = request.headers.get('x-vercel-forwarded-for');
+  
+  const clientIp = forwardedFor?.split(',')[0]?.trim() || 
+                   realIp || 
+                   remoteAddress || 
+                   'unknown';
+  
+  const pathname = new URL(request.url).pathname;
+  return `${clientIp}:${pathname}`;
+}
+
+/**
+ * Cleanup expired entries from the rate limit store
+ */
+export async function cleanupRateLimitStore(): Promise<void> {
+  await apiRateLimitStore.cleanup();
+}
+
+/**
+ * Get current rate limit store statistics
+ */
+export async function getRateLimitStats(): Promise<{
+  store: RateLimitStoreKind;
+  totalKeys: number;
+  activeKeys: number;
+  memoryUsage: number;
+}> {
+  return {
+    store: apiRateLimitStore.kind,
+    ...(await apiRateLimitStore.getStats()),
+    memoryUsage: process.memoryUsage().heapUsed
+  };
+}
+
+/**
+ * Rate limiting decorator for API route handlers
+ */
+export function withRateLimit(
+  options: RateLimitOptions
+) {
+  return function <T extends (...args: any[]) => Promise<NextResponse>>(
+    handler: T
+  ): T {
+    return (async (request: NextRequest, ...args: any[]) => {
+      let result: RateLimitResult;
+      try {
+        result = await applyRateLimit(request, options);
+      } catch (error) {
+        // Like the middleware: a broken store must not take the API down
+        createLogger('rate-limit').error('Rate limit store failed - allowing request', error as Error);
+        return handler(request, ...args);
+      }
+      
+      if (!result.success) {
+        return createRateLimitExceededResponse(result);
+      }
+      
+      const response = await handler(request, ...args);
+      return addRateLimitHeaders(response, result);
+    }) as T;
+  };
+}
+
+/**
+ * Predefined rate limiting configurations for common use cases
+ */
+export const RATE_LIMIT_CONFIGS = {
+  // Strict limits for auth endpoints
+  AUTH: {
+    requests: 5,
+    windowMs: 60 * 1000, // 5 requests per minute
+    algorithm: 'sliding-log' // exact: no boundary bursts on credentials
+  },
+  
+  // Standard API limits
+  API_STANDARD: {
+    requests: 100,
+    windowMs: 60 * 1000, // 100 requests per minute
+    algorithm: 'sliding-window'
+  },
+  
+  // Generous limits for health checks
+  HEALTH_CHECK: {
+    requests: 200,
+    windowMs: 60 * 1000, // 200 requests per minute
+    algorithm: 'fixed-window'
+  },
+  
+  // Strict limits for expensive operations
+  EXPENSIVE: {
+    requests: 10,
+    windowMs: 60 * 1000, // 10 requests per minute
+    algorithm: 'token-bucket' // small bursts, steady long-run rate
+  }
+} satisfies Record<string, RateLimitRule>;
+
+// Set up periodic cleanup
+setInterval(() => void cleanupRateLimitStore(), 5 * 60 * 1000); // Clean up every 5 minutes
\ No newline at end of file
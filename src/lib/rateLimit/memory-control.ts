@@ -0,0 +1,135 @@
+import {
+  ACTIVITY_BUCKET_MS,
+  ACTIVITY_RETENTION_MINUTES,
+  bucketStart,
+  ClientUsage,
+  EndpointRejections,
+  RateLimitControl,
+  RateLimitOverride,
+  topUsage
+} from './control';
+import type { Clock } from './store';
+
+/**
+ * In-Memory Rate Limit Control State
+ *
+ * Activity buckets and overrides for this process only.
+ */
+
+interface ActivityBucket {
+  start: number;
+  clients: Map<string, ClientUsage>;
+  rejections: Map<string, number>; // endpoint -> rejected requests
+}
+
+/**
+ * Distinct clients tracked per bucket, so spoofed addresses can't grow it without bound
+ */
+const MAX_CLIENTS_PER_BUCKET = 10000;
+
+export class MemoryRateLimitControl implements RateLimitControl {
+  readonly kind = 'memory' as const;
+  private buckets: ActivityBucket[] = []; // oldest first
+  private overrides = new Map<string, RateLimitOverride>();
+
+  constructor(private readonly clock: Clock = Date.now) {}
+
+  async recordRequest(clientId: string, endpoint: string, allowed: boolean): Promise<void> {
+    const now = this.clock();
+    const bucket = this.currentBucket(now);
+
+    let usage = bucket.clients.get(clientId);
+    if (!usage && bucket.clients.size < MAX_CLIENTS_PER_BUCKET) {
+      usage = { clientId, requests: 0, rejected: 0 };
+      bucket.clients.set(clientId, usage);
+    }
+    if (usage) {
+      usage.requests++;
+    }
+
+    if (!allowed) {
+      if (usage) {
+        usage.rejected++;
+      }
+      bucket.rejections.set(endpoint, (bucket.rejections.get(endpoint) ?? 0) + 1);
+    }
+  }
+
+  async getTopClients(limit: number, minutes: number): Promise<ClientUsage[]> {
+    const totals = new Map<string, ClientUsage>();
+
+    for (const bucket of this.recentBuckets(minutes)) {
+      for (const usage of bucket.clients.values()) {
+        const total = totals.get(usage.clientId) ?? { clientId: usage.clientId, requests: 0, rejected: 0 };
+        total.requests += usage.requests;
+        total.rejected += usage.rejected;
+        totals.set(usage.clientId, total);
+      }
+    }
+
+    return topUsage(totals.values(), limit);
+  }
+
+  async getRejections(minutes: number): Promise<EndpointRejections[]> {
+    const byEndpoint = new Map<string, EndpointRejections>();
+
+    for (const bucket of this.recentBuckets(minutes)) {
+      for (const [endpoint, rejected] of bucket.rejections) {
+        const entry = byEndpoint.get(endpoint) ?? { endpoint, total: 0, series: [] };
+        entry.total += rejected;
+        entry.series.push({ minute: new Date(bucket.start).toISOString(), rejected });
+        byEndpoint.set(endpoint, entry);
+      }
+    }
+
+    return Array.from(byEndpoint.values()).sort((a, b) => b.total - a.total);
+  }
+
+  async getOverrides(): Promise<RateLimitOverride[]> {
+    const now = this.clock();
+
+    for (const [pattern, override] of this.overrides) {
+      if (override.expiresAt <= now) {
+        this.overrides.delete(pattern);
+      }
+    }
+
+    return Array.from(this.overrides.values());
+  }
+
+  async setOverride(override: RateLimitOverride): Promise<void> {
+    this.overrides.set(override.pattern, { ...override });
+  }
+
+  async removeOverrides(pattern?: string): Promise<number> {
+    if (pattern === undefined) {
+      const removed = this.overrides.size;
+      this.overrides.clear();
+      return removed;
+    }
+    return this.overrides.delete(pattern) ? 1 : 0;
+  }
+
+  private currentBucket(now: number): ActivityBucket {
+    const start = bucketStart(now);
+    const last = this.buckets[this.buckets.length - 1];
+    if (last?.start === start) {
+      return last;
+    }
+
+    const bucket: ActivityBucket = { start, clients: new Map(), rejections: new Map() };
+    this.buckets.push(bucket);
+
+    const oldest = start - (ACTIVITY_RETENTION_MINUTES - 1) * ACTIVITY_BUCKET_MS;
+    while (this.buckets.length > 0 && this.buckets[0].start < oldest) {
+      this.buckets.shift();
+    }
+
+    return bucket;
+  }
+
+  private recentBuckets(minutes: number): ActivityBucket[] {
+    const since = bucketStart(this.clock()) - (minutes - 1) * ACTIVITY_BUCKET_MS;
+    return this.buckets.filter(bucket => bucket.start >= since);
+  }
+}
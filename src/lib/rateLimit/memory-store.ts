@@ -0,0 +1,76 @@
+import { consume, RateLimitDecision, RateLimitRule, RateLimitState } from './algorithms';
+import type { Clock, RateLimitStore, RateLimitStoreStats } from './store';
+
+/**
+ * In-Memory Rate Limit Store
+ *
+ * Per-key algorithm state plus expiry in a per-process Map. Limits are not
+ * shared: each serverless instance counts its own requests.
+ */
+
+interface StoredState {
+  state: RateLimitState;
+  expiresAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly kind = 'memory' as const;
+  private states = new Map<string, StoredState>();
+
+  constructor(private readonly clock: Clock = Date.now) {}
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    const now = this.clock();
+    const stored = this.states.get(key);
+    const previous = stored && stored.expiresAt > now ? stored.state : undefined;
+
+    const { state, decision, expiresAt } = consume(previous, rule, now);
+    this.states.set(key, { state, expiresAt });
+
+    return decision;
+  }
+
+  async reset(key: string): Promise<boolean> {
+    return this.states.delete(key);
+  }
+
+  async resetPrefix(prefix: string): Promise<number> {
+    let removed = 0;
+
+    for (const key of this.states.keys()) {
+      if (key.startsWith(prefix)) {
+        this.states.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  async cleanup(): Promise<number> {
+    const now = this.clock();
+    let removed = 0;
+
+    for (const [key, stored] of this.states) {
+      if (stored.expiresAt <= now) {
+        this.states.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  async getStats(): Promise<RateLimitStoreStats> {
+    const now = this.clock();
+    let activeKeys = 0;
+
+    for (const stored of this.states.values()) {
+      if (stored.expiresAt > now) {
+        activeKeys++;
+      }
+    }
+
+    return { totalKeys: this.states.size, activeKeys };
+  }
+}
@@ -0,0 +1,171 @@
+import Redis from 'ioredis';
+import { getRedisClient } from '@/lib/cache/redis-backend';
+import { createLogger } from '@/lib/logger';
+import {
+  ACTIVITY_BUCKET_MS,
+  ACTIVITY_RETENTION_MINUTES,
+  bucketStart,
+  ClientUsage,
+  EndpointRejections,
+  RateLimitControl,
+  RateLimitOverride,
+  topUsage
+} from './control';
+import type { Clock } from './store';
+
+/**
+ * Redis Rate Limit Control State
+ *
+ * Activity and overrides shared by every instance, so the admin API sees
+ * fleet-wide usage and an override applies everywhere.
+ *
+ * Key layout under `latentsee:ratelimit:control:`
+ * - `usage:{bucket}`     sorted set of clients scored by requests
+ * - `rejected:{bucket}`  sorted set of clients scored by rejections
+ * - `endpoints:{bucket}` hash of endpoint -> rejections
+ * - `overrides`          hash of RATE_LIMITS entry -> JSON RateLimitOverride
+ *
+ * Activity keys expire natively after the retention period. Overrides are
+ * read on every rate-limited request, so each instance reuses what it read
+ * for OVERRIDE_REFRESH_MS: a change made elsewhere applies within that time.
+ */
+
+const PREFIX = 'latentsee:ratelimit:control:';
+const OVERRIDES_KEY = `${PREFIX}overrides`;
+const ACTIVITY_TTL_MS = (ACTIVITY_RETENTION_MINUTES + 1) * ACTIVITY_BUCKET_MS;
+const OVERRIDE_REFRESH_MS = 5000;
+
+// Drops each expired override only if it still holds the value that was read
+// as expired, so one set again by another instance in between survives.
+// ARGV: pattern, value, pattern, value, ...
+const DELETE_EXPIRED_OVERRIDES_SCRIPT = `
+local removed = 0
+for i = 1, #ARGV, 2 do
+  if redis.call('HGET', KEYS[1], ARGV[i]) == ARGV[i + 1] then
+    removed = removed + redis.call('HDEL', KEYS[1], ARGV[i])
+  end
+end
+return removed
+`;
+
+export class RedisRateLimitControl implements RateLimitControl {
+  readonly kind = 'redis' as const;
+  private logger = createLogger('redis-rate-limit-control');
+  private cachedOverrides: { overrides: RateLimitOverride[]; fetchedAt: number } | null = null;
+
+  constructor(
+    private readonly client: Redis = getRedisClient(),
+    private readonly clock: Clock = Date.now
+  ) {}
+
+  async recordRequest(clientId: string, endpoint: string, allowed: boolean): Promise<void> {
+    const start = bucketStart(this.clock());
+
+    try {
+      const pipeline = this.client
+        .multi()
+        .zincrby(`${PREFIX}usage:${start}`, 1, clientId)
+        .pexpire(`${PREFIX}usage:${start}`, ACTIVITY_TTL_MS);
+      if (!allowed) {
+        pipeline
+          .zincrby(`${PREFIX}rejected:${start}`, 1, clientId)
+          .pexpire(`${PREFIX}rejected:${start}`, ACTIVITY_TTL_MS)
+          .hincrby(`${PREFIX}endpoints:${start}`, endpoint, 1)
+          .pexpire(`${PREFIX}endpoints:${start}`, ACTIVITY_TTL_MS);
+      }
+      await pipeline.exec();
+    } catch (error) {
+      this.logger.warn('Failed to record rate limit activity', {
+        clientId,
+        endpoint,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  async getTopClients(limit: number, minutes: number): Promise<ClientUsage[]> {
+    const buckets = this.recentBuckets(minutes);
+    const pipeline = this.client.multi();
+    for (const start of buckets) {
+      pipeline.zrange(`${PREFIX}usage:${start}`, 0, -1, 'WITHSCORES');
+      pipeline.zrange(`${PREFIX}rejected:${start}`, 0, -1, 'WITHSCORES');
+    }
+    const results = (await pipeline.exec()) ?? [];
+
+    // Admin-only and bounded by the retention period, so sum the buckets here
+    const totals = new Map<string, ClientUsage>();
+    results.forEach(([, result], i) => {
+      // ZRANGE WITHSCORES returns [member, score, member, score, ...]
+      const pairs = (result ?? []) as string[];
+      for (let j = 0; j < pairs.length; j += 2) {
+        const clientId = pairs[j];
+        const total = totals.get(clientId) ?? { clientId, requests: 0, rejected: 0 };
+        total[i % 2 === 0 ? 'requests' : 'rejected'] += parseInt(pairs[j + 1], 10);
+        totals.set(clientId, total);
+      }
+    });
+
+    return topUsage(totals.values(), limit);
+  }
+
+  async getRejections(minutes: number): Promise<EndpointRejections[]> {
+    const buckets = this.recentBuckets(minutes);
+    const pipeline = this.client.multi();
+    for (const start of buckets) {
+      pipeline.hgetall(`${PREFIX}endpoints:${start}`);
+    }
+    const results = (await pipeline.exec()) ?? [];
+
+    const byEndpoint = new Map<string, EndpointRejections>();
+    buckets.forEach((start, i) => {
+      const counts = (results[i]?.[1] ?? {}) as Record<string, string>;
+      for (const [endpoint, value] of Object.entries(counts)) {
+        const rejected = parseInt(value, 10);
+        const entry = byEndpoint.get(endpoint) ?? { endpoint, total: 0, series: [] };
+        entry.total += rejected;
+        entry.series.push({ minute: new Date(start).toISOString(), rejected });
+        byEndpoint.set(endpoint, entry);
+      }
+    });
+
+    return Array.from(byEndpoint.values()).sort((a, b) => b.total - a.total);
+  }
+
+  async getOverrides(): Promise<RateLimitOverride[]> {
+    const now = this.clock();
+
+    if (!this.cachedOverrides || now - this.cachedOverrides.fetchedAt >= OVERRIDE_REFRESH_MS) {
+      const stored = await this.client.hgetall(OVERRIDES_KEY);
+      const overrides = Object.values(stored).map(value => JSON.parse(value) as RateLimitOverride);
+
+      const expired = Object.entries(stored).filter((_, i) => overrides[i].expiresAt <= now);
+      if (expired.length > 0) {
+        await this.client.eval(DELETE_EXPIRED_OVERRIDES_SCRIPT, 1, OVERRIDES_KEY, ...expired.flat());
+      }
+      this.cachedOverrides = { overrides, fetchedAt: now };
+    }
+
+    return this.cachedOverrides.overrides.filter(override => override.expiresAt > now);
+  }
+
+  async setOverride(override: RateLimitOverride): Promise<void> {
+    await this.client.hset(OVERRIDES_KEY, override.pattern, JSON.stringify(override));
+    this.cachedOverrides = null;
+  }
+
+  async removeOverrides(pattern?: string): Promise<number> {
+    this.cachedOverrides = null;
+
+    if (pattern !== undefined) {
+      return this.client.hdel(OVERRIDES_KEY, pattern);
+    }
+
+    const results = (await this.client.multi().hlen(OVERRIDES_KEY).del(OVERRIDES_KEY).exec()) ?? [];
+    return Number(results[0]?.[1] ?? 0);
+  }
+
+  private recentBuckets(minutes: number): number[] {
+    const latest = bucketStart(this.clock());
+    return Array.from({ length: minutes }, (_, i) => latest - (minutes - 1 - i) * ACTIVITY_BUCKET_MS);
+  }
+}
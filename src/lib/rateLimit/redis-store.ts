@@ -0,0 +1,211 @@
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { getRedisClient } from '@/lib/cache/redis-backend';
+import {
+  DEFAULT_RATE_LIMIT_ALGORITHM,
+  RATE_LIMIT_ALGORITHMS,
+  RateLimitAlgorithm,
+  RateLimitDecision,
+  RateLimitRule,
+  retryAfterSeconds
+} from './algorithms';
+import type { Clock, RateLimitStore, RateLimitStoreStats } from './store';
+
+/**
+ * Redis Rate Limit Store
+ *
+ * Shares limiter state across every serverless instance, so a client's
+ * limit holds no matter which instance serves it.
+ *
+ * Each algorithm is one Lua script, so a check-and-count is atomic however
+ * many instances hit the same key. The scripts mirror ./algorithms step for
+ * step (same windows, same rounding, rejected requests never count) and
+ * take `now` from the caller, whose clock is assumed to be NTP-synced.
+ *
+ * Key layout under `latentsee:ratelimit:{namespace}:{algorithm}:{key}`
+ * - fixed-window: hash of windowStart/count, HINCRBY'd and expired with
+ *   PEXPIRE when the window opens
+ * - sliding-log: sorted set of accepted requests scored by time
+ * - sliding-window: hash of windowStart/current/previous
+ * - token-bucket: hash of tokens/updatedAt
+ * Every key expires natively once it is equivalent to no state at all.
+ *
+ * Scripts take KEYS[1] state, ARGV[1] limit, ARGV[2] window ms, ARGV[3] now
+ * and return {allowed, remaining, resetTime, retryAfterMs}.
+ */
+
+const FIXED_WINDOW_SCRIPT = `
+local limit, window, now = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+local stored = redis.call('HMGET', KEYS[1], 'windowStart', 'count')
+local windowStart, count = tonumber(stored[1]), tonumber(stored[2]) or 0
+if not windowStart or now >= windowStart + window then
+  windowStart, count = now, 0
+  redis.call('HSET', KEYS[1], 'windowStart', windowStart, 'count', 0)
+  redis.call('PEXPIRE', KEYS[1], window)
+end
+local resetTime = windowStart + window
+if count >= limit then
+  return {0, 0, resetTime, resetTime - now}
+end
+count = redis.call('HINCRBY', KEYS[1], 'count', 1)
+return {1, limit - count, resetTime, 0}
+`;
+
+/**
+ * ARGV[4] unique member for this request
+ */
+const SLIDING_LOG_SCRIPT = `
+local limit, window, now = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+if count >= limit then
+  -- The oldest accepted request leaving the window frees the next slot
+  local freesAt = tonumber(redis.call('ZRANGE', KEYS[1], count - limit, count - limit, 'WITHSCORES')[2]) + window
+  local newest = tonumber(redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')[2])
+  return {0, 0, newest + window, math.floor(freesAt - now + 0.5)}
+end
+redis.call('ZADD', KEYS[1], now, ARGV[4])
+redis.call('PEXPIRE', KEYS[1], window)
+return {1, limit - count - 1, now + window, 0}
+`;
+
+const SLIDING_WINDOW_SCRIPT = `
+local limit, window, now = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+local windowStart = math.floor(now / window) * window
+local stored = redis.call('HMGET', KEYS[1], 'windowStart', 'current', 'previous')
+local current, previous = 0, 0
+local storedStart = tonumber(stored[1])
+if storedStart == windowStart then
+  current, previous = tonumber(stored[2]), tonumber(stored[3])
+elseif storedStart == windowStart - window then
+  previous = tonumber(stored[2])
+end
+local elapsed = now - windowStart
+local estimated = previous * (1 - elapsed / window) + current
+local ttl = math.max(1, windowStart + 2 * window - now)
+if estimated + 1 > limit then
+  local waitMs
+  if current + 1 > limit or previous == 0 then
+    waitMs = windowStart + window - now
+  else
+    waitMs = math.max(0, window * (1 - (limit - current - 1) / previous) - elapsed)
+  end
+  local resetTime = windowStart + window
+  if current > 0 then
+    resetTime = resetTime + window
+  end
+  redis.call('HSET', KEYS[1], 'windowStart', windowStart, 'current', current, 'previous', previous)
+  redis.call('PEXPIRE', KEYS[1], ttl)
+  return {0, 0, resetTime, math.floor(waitMs + 0.5)}
+end
+redis.call('HSET', KEYS[1], 'windowStart', windowStart, 'current', current + 1, 'previous', previous)
+redis.call('PEXPIRE', KEYS[1], ttl)
+return {1, math.max(0, math.floor(limit - estimated - 1)), windowStart + 2 * window, 0}
+`;
+
+const TOKEN_BUCKET_SCRIPT = `
+local limit, window, now = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+local refillPerMs = limit / window
+local stored = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = limit
+if tonumber(stored[1]) then
+  tokens = math.min(limit, tonumber(stored[1]) + math.max(0, now - tonumber(stored[2])) * refillPerMs)
+end
+if tokens < 1 then
+  local fullAt = now + math.ceil((limit - tokens) / refillPerMs)
+  redis.call('HSET', KEYS[1], 'tokens', tokens, 'updatedAt', now)
+  redis.call('PEXPIRE', KEYS[1], math.max(1, fullAt - now))
+  return {0, 0, fullAt, math.floor((1 - tokens) / refillPerMs + 0.5)}
+end
+local remaining = tokens - 1
+local fullAt = now + math.ceil((limit - remaining) / refillPerMs)
+redis.call('HSET', KEYS[1], 'tokens', remaining, 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.max(1, fullAt - now))
+return {1, math.floor(remaining), fullAt, 0}
+`;
+
+const SCRIPTS: Record<RateLimitAlgorithm, string> = {
+  'fixed-window': FIXED_WINDOW_SCRIPT,
+  'sliding-log': SLIDING_LOG_SCRIPT,
+  'sliding-window': SLIDING_WINDOW_SCRIPT,
+  'token-bucket': TOKEN_BUCKET_SCRIPT
+};
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly kind = 'redis' as const;
+  private readonly prefix: string;
+
+  constructor(
+    namespace: string,
+    private readonly client: Redis = getRedisClient(),
+    private readonly clock: Clock = Date.now
+  ) {
+    this.prefix = `latentsee:ratelimit:${namespace}:`;
+  }
+
+  private stateKey(algorithm: string, key: string): string {
+    return `${this.prefix}${algorithm}:${key}`;
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    const algorithm = rule.algorithm ?? DEFAULT_RATE_LIMIT_ALGORITHM;
+    const [allowed, remaining, resetTime, retryAfterMs] = (await this.client.eval(
+      SCRIPTS[algorithm],
+      1,
+      this.stateKey(algorithm, key),
+      rule.requests,
+      rule.windowMs,
+      this.clock(),
+      uuidv4()
+    )) as [number, number, number, number];
+
+    return allowed === 1
+      ? { allowed: true, limit: rule.requests, remaining, resetTime }
+      : { allowed: false, limit: rule.requests, remaining: 0, resetTime, retryAfter: retryAfterSeconds(retryAfterMs) };
+  }
+
+  async reset(key: string): Promise<boolean> {
+    const removed = await this.client.del(
+      ...RATE_LIMIT_ALGORITHMS.map(algorithm => this.stateKey(algorithm, key))
+    );
+    return removed > 0;
+  }
+
+  async resetPrefix(prefix: string): Promise<number> {
+    // Escape glob characters so the prefix matches literally
+    const literal = prefix.replace(/[*?[\]\\]/g, match => `\\${match}`);
+    let removed = 0;
+
+    for (const algorithm of RATE_LIMIT_ALGORITHMS) {
+      let cursor = '0';
+      do {
+        const [next, keys] = await this.client.scan(cursor, 'MATCH', `${this.stateKey(algorithm, literal)}*`, 'COUNT', 500);
+        cursor = next;
+        if (keys.length > 0) {
+          removed += await this.client.del(...keys);
+        }
+      } while (cursor !== '0');
+    }
+
+    return removed;
+  }
+
+  async cleanup(): Promise<number> {
+    // Redis expires state keys on its own
+    return 0;
+  }
+
+  async getStats(): Promise<RateLimitStoreStats> {
+    let cursor = '0';
+    let keys = 0;
+
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 500);
+      cursor = next;
+      keys += batch.length;
+    } while (cursor !== '0');
+
+    // Only live keys remain, so every key is active
+    return { totalKeys: keys, activeKeys: keys };
+  }
+}
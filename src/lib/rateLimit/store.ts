@@ -0,0 +1,62 @@
+import type { RateLimitDecision, RateLimitRule } from './algorithms';
+
+/**
+ * Rate Limit Store Abstraction
+ *
+ * Where per-key limiter state lives. Both stores run the same algorithms
+ * (see ./algorithms); they differ only in who shares the state.
+ *
+ * Stores:
+ * - memory: per-process Map; every serverless instance limits on its own
+ * - redis: shared state, so a limit holds across the whole fleet
+ *
+ * Selected with RATE_LIMIT_STORE=memory|redis (defaults to memory).
+ */
+
+export type RateLimitStoreKind = 'memory' | 'redis';
+
+/**
+ * Returns the current epoch ms; injectable so limits can be driven deterministically
+ */
+export type Clock = () => number;
+
+export interface RateLimitStoreStats {
+  totalKeys: number;
+  activeKeys: number;
+}
+
+export interface RateLimitStore {
+  readonly kind: RateLimitStoreKind;
+
+  /**
+   * Count one request for `key` against `rule`, atomically with respect to
+   * every other caller sharing the store
+   */
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision>;
+
+  /**
+   * Forget one key's state
+   */
+  reset(key: string): Promise<boolean>;
+
+  /**
+   * Forget every key starting with `prefix` (e.g. all of one client's
+   * endpoints) and resolve the number of keys removed
+   */
+  resetPrefix(prefix: string): Promise<number>;
+
+  /**
+   * Drop expired state and resolve the number of keys removed
+   */
+  cleanup(): Promise<number>;
+
+  getStats(): Promise<RateLimitStoreStats>;
+}
+
+/**
+ * Resolve the configured store kind from RATE_LIMIT_STORE
+ */
+export function resolveRateLimitStoreKind(): RateLimitStoreKind {
+  const configured = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+  return configured === 'redis' ? 'redis' : 'memory';
+}
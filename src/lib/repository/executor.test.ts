@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CircuitOpenError, DatabaseError, TimeoutError } from '@/lib/types';
+import { DatabaseExecutor, ExecutorConfig } from './executor';
+
+// No backoff, short timeouts, and a breaker that stays closed
+const CONFIG: ExecutorConfig = {
+  maxRetries: 2,
+  retryBaseDelayMs: 0,
+  breakerFailureThreshold: 100,
+  breakerResetMs: 30_000,
+  breakerHalfOpenCalls: 1,
+  timeoutMs: 50
+};
+
+function postgresError(code: string): DatabaseError {
+  return new DatabaseError('query failed', { code, message: 'query failed' });
+}
+
+/**
+ * An operation that throws the given errors in turn, then succeeds
+ */
+function failing(...errors: Error[]) {
+  return vi.fn(async () => {
+    const error = errors.shift();
+    if (error) throw error;
+    return 'ok';
+  });
+}
+
+describe('DatabaseExecutor', () => {
+  it('retries retryable failures and counts every attempt', async () => {
+    const executor = new DatabaseExecutor('test', CONFIG);
+    const operation = failing(postgresError('40001'), new TypeError('fetch failed'));
+
+    expect(await executor.execute(operation, 'getProducts', 'req')).toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(executor.takeAttempts('req')).toBe(3);
+    // Taking the count forgets it
+    expect(executor.takeAttempts('req')).toBe(0);
+  });
+
+  it('gives up after maxRetries retries with a DatabaseError', async () => {
+    const executor = new DatabaseExecutor('test', CONFIG);
+    const operation = failing(postgresError('08006'), postgresError('08006'), postgresError('08006'), postgresError('08006'));
+
+    await expect(executor.execute(operation, 'getProducts', 'req')).rejects.toBeInstanceOf(DatabaseError);
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(executor.takeAttempts('req')).toBe(3);
+  });
+
+  it('does not retry errors the database answered with', async () => {
+    const executor = new DatabaseExecutor('test', CONFIG);
+    const operation = failing(postgresError('23505'));
+
+    await expect(executor.execute(operation, 'createOrder', 'req')).rejects.toThrow('Failed to execute createOrder');
+    expect(operation).toHaveBeenCalledOnce();
+  });
+
+  it('does not retry operations marked retry: false', async () => {
+    const executor = new DatabaseExecutor('test', CONFIG);
+    const operation = failing(new TypeError('fetch failed'));
+
+    await expect(executor.execute(operation, 'updateProduct', 'req', { retry: false })).rejects.toBeInstanceOf(DatabaseError);
+    expect(operation).toHaveBeenCalledOnce();
+  });
+
+  it('aborts attempts that exceed the timeout and retries them', async () => {
+    const executor = new DatabaseExecutor('test', CONFIG);
+    const signals: AbortSignal[] = [];
+    const operation = vi.fn((signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<string>(() => {});
+    });
+
+    await expect(executor.execute(operation, 'getProducts', 'req')).rejects.toBeInstanceOf(TimeoutError);
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+  });
+
+  it('runs the interceptor before each attempt', async () => {
+    const apply = vi.fn()
+      .mockRejectedValueOnce(new TypeError('injected network failure'))
+      .mockResolvedValue(undefined);
+    const executor = new DatabaseExecutor('test', CONFIG, { apply });
+
+    expect(await executor.execute(async () => 'ok', 'getProducts', 'req')).toBe('ok');
+    expect(apply).toHaveBeenCalledTimes(2);
+    expect(apply).toHaveBeenCalledWith('getProducts', expect.any(AbortSignal));
+  });
+
+  it('fails fast once repeated outages open the circuit', async () => {
+    const executor = new DatabaseExecutor('test', { ...CONFIG, maxRetries: 0, breakerFailureThreshold: 2 });
+    const outage = vi.fn(async () => { throw new TypeError('fetch failed'); });
+
+    await expect(executor.execute(outage, 'getProducts', 'req')).rejects.toBeInstanceOf(DatabaseError);
+    await expect(executor.execute(outage, 'getProducts', 'req')).rejects.toBeInstanceOf(DatabaseError);
+
+    const rejected = executor.execute(outage, 'getProducts', 'req');
+    await expect(rejected).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(rejected).rejects.toMatchObject({ retryAfterMs: expect.any(Number) });
+    expect(outage).toHaveBeenCalledTimes(2);
+    expect(executor.getCircuitStatus().state).toBe('open');
+  });
+
+  it('keeps the circuit closed for errors the database answered with', async () => {
+    const executor = new DatabaseExecutor('test', { ...CONFIG, maxRetries: 0, breakerFailureThreshold: 1 });
+
+    await expect(executor.execute(failing(postgresError('23505')), 'createOrder', 'req')).rejects.toBeInstanceOf(DatabaseError);
+
+    expect(executor.getCircuitStatus().state).toBe('closed');
+  });
+});
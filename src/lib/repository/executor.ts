@@ -0,0 +1,280 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '@/lib/logger';
+import {
+  DatabaseError,
+  ValidationError,
+  TimeoutError,
+  CircuitOpenError,
+  DatabaseConfig
+} from '@/lib/types';
+import { CircuitBreaker, CircuitBreakerStatus } from '@/lib/circuitBreaker';
+
+/**
+ * Database Executor
+ *
+ * Runs repository operations with a per-attempt timeout (aborting the
+ * request), jittered exponential backoff for retryable failures, a circuit
+ * breaker, and per-request attempt counts for X-DB-Attempts. Every
+ * repository implementation runs its operations through one, so timeouts,
+ * retries and outages behave the same against Supabase and the in-memory store.
+ */
+
+export type ExecutorConfig = Omit<DatabaseConfig, 'url' | 'anonKey'>;
+
+/**
+ * Read executor settings from the DB_* environment variables
+ */
+export function loadExecutorConfig(): ExecutorConfig {
+  return {
+    maxRetries: parseInt(process.env.DB_MAX_RETRIES || '3', 10),
+    retryBaseDelayMs: parseInt(process.env.DB_RETRY_BASE_MS || '100', 10),
+    breakerFailureThreshold: parseInt(process.env.DB_BREAKER_FAILURE_THRESHOLD || '5', 10),
+    breakerResetMs: parseInt(process.env.DB_BREAKER_RESET_MS || '30000', 10),
+    breakerHalfOpenCalls: parseInt(process.env.DB_BREAKER_HALF_OPEN_CALLS || '1', 10),
+    timeoutMs: parseInt(process.env.DB_TIMEOUT_MS || '5000', 10)
+  };
+}
+
+/**
+ * Backoff ceiling between retries
+ */
+const MAX_RETRY_DELAY_MS = 2000;
+
+/**
+ * Attempt counts are kept for requests whose routes never collect them
+ * only until the map grows past this size and they're this old
+ */
+const MAX_TRACKED_REQUESTS = 1000;
+const ATTEMPT_TRACKING_TTL_MS = 60 * 1000;
+
+/**
+ * Postgres/PostgREST error codes worth retrying: connection failures,
+ * serialization failures, deadlocks, too many connections, shutdowns
+ */
+const RETRYABLE_ERROR_CODES = new Set([
+  '40001', '40P01', '53300', '57P01', '57P03',
+  'PGRST000', 'PGRST001', 'PGRST002', 'PGRST003'
+]);
+
+/**
+ * Whether a failed attempt may succeed if repeated
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+
+  if (error instanceof ValidationError || error instanceof CircuitOpenError) {
+    return false;
+  }
+
+  if (error instanceof DatabaseError) {
+    const cause = error.cause as { code?: string; message?: string } | undefined;
+    const code = cause?.code ?? '';
+    if (code.startsWith('08') || RETRYABLE_ERROR_CODES.has(code)) {
+      return true;
+    }
+    // Network failures surface from the client without a database error code
+    return code === '' && /fetch failed|network|ECONNRESET|ETIMEDOUT|socket/i.test(cause?.message ?? '');
+  }
+
+  // Unexpected throws from the client (e.g. a network TypeError)
+  return true;
+}
+
+/**
+ * Resolve after `ms`, or reject as soon as the attempt is aborted
+ */
+export function abortableDelay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error('Operation aborted'));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    function onAbort() {
+      clearTimeout(timer);
+      reject(new Error('Operation aborted'));
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs before every attempt (see FaultInjector); rejecting fails the attempt
+ */
+export interface AttemptInterceptor {
+  apply(operationName: string, signal: AbortSignal): Promise<void>;
+}
+
+export class DatabaseExecutor {
+  private attempts = new Map<string, { count: number; updatedAt: number }>();
+  private breaker: CircuitBreaker;
+
+  /**
+   * @param name - Prefix for timing logs (e.g. 'supabase')
+   * @param interceptor - Injects faults into each attempt
+   */
+  constructor(
+    private readonly name: string,
+    private readonly config: ExecutorConfig = loadExecutorConfig(),
+    private readonly interceptor?: AttemptInterceptor
+  ) {
+    this.breaker = new CircuitBreaker({
+      failureThreshold: config.breakerFailureThreshold,
+      resetTimeoutMs: config.breakerResetMs,
+      halfOpenMaxCalls: config.breakerHalfOpenCalls
+    });
+  }
+
+  /**
+   * Runs one attempt of an operation, aborting its request once the timeout fires
+   */
+  private async runAttempt<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    operationName: string,
+    timeoutMs: number
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new TimeoutError(`Operation timed out after ${timeoutMs}ms`, timeoutMs));
+        controller.abort();
+      }, timeoutMs);
+    });
+
+    try {
+      const attempt = this.interceptor
+        ? this.interceptor.apply(operationName, controller.signal).then(() => operation(controller.signal))
+        : operation(controller.signal);
+      return await Promise.race([attempt, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Jittered exponential backoff before retry number `retry` (1-based)
+   */
+  private retryDelay(retry: number): number {
+    const ceiling = Math.min(MAX_RETRY_DELAY_MS, this.config.retryBaseDelayMs * 2 ** (retry - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Count an attempt against the request so routes can report X-DB-Attempts
+   */
+  private recordAttempt(requestId: string): void {
+    const now = Date.now();
+    const entry = this.attempts.get(requestId);
+    this.attempts.set(requestId, { count: (entry?.count ?? 0) + 1, updatedAt: now });
+
+    // Drop counts no route collected (e.g. requests that ended in an error)
+    if (this.attempts.size > MAX_TRACKED_REQUESTS) {
+      for (const [id, tracked] of this.attempts) {
+        if (now - tracked.updatedAt > ATTEMPT_TRACKING_TTL_MS) {
+          this.attempts.delete(id);
+        }
+      }
+    }
+  }
+
+  /**
+   * Database attempts made for a request so far (including retries), then forget them
+   */
+  takeAttempts(requestId: string): number {
+    const count = this.attempts.get(requestId)?.count ?? 0;
+    this.attempts.delete(requestId);
+    return count;
+  }
+
+  /**
+   * Circuit breaker state, for health reporting
+   */
+  getCircuitStatus(): CircuitBreakerStatus {
+    return this.breaker.getStatus();
+  }
+
+  /**
+   * Executes a database operation with a per-attempt timeout, retrying
+   * retryable failures with jittered exponential backoff
+   *
+   * Operations that aren't safe to repeat (inserts, compare-and-set) pass
+   * `retry: false`: a timed-out attempt may still have committed.
+   *
+   * Calls go through the circuit breaker: while it is open they fail fast
+   * with CircuitOpenError, and a call that still fails after its retries
+   * counts towards opening it.
+   */
+  async execute<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    operationName: string,
+    requestId: string = uuidv4(),
+    { retry = true }: { retry?: boolean } = {}
+  ): Promise<T> {
+    const logger = createLogger(requestId);
+    const maxAttempts = retry ? this.config.maxRetries + 1 : 1;
+    
+    if (!this.breaker.tryAcquire()) {
+      const retryAfterMs = this.breaker.retryAfterMs();
+      logger.warn(`Database circuit open - not attempting ${operationName}`, { retryAfterMs });
+      throw new CircuitOpenError(`Database circuit open - ${operationName} not attempted`, retryAfterMs);
+    }
+
+    return logger.timeFunction(`${this.name}.${operationName}`, async () => {
+      for (let attempt = 1; ; attempt++) {
+        this.recordAttempt(requestId);
+
+        try {
+          const result = await this.runAttempt(operation, operationName, this.config.timeoutMs);
+          this.breaker.recordSuccess();
+          return result;
+        } catch (error) {
+          if (attempt < maxAttempts && isRetryableError(error)) {
+            const delayMs = this.retryDelay(attempt);
+            logger.warn(`Database operation ${operationName} failed - retrying`, {
+              attempt,
+              maxAttempts,
+              delayMs,
+              error: (error as Error).message
+            });
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+            continue;
+          }
+
+          // Only outages count against the circuit; a database that answered
+          // (even with a query error) is reachable
+          if (isRetryableError(error)) {
+            this.breaker.recordFailure();
+          } else {
+            this.breaker.recordSuccess();
+          }
+
+          if (error instanceof TimeoutError) {
+            logger.error(`Database operation ${operationName} timed out`, error, { attempts: attempt });
+            throw error;
+          }
+
+          // Malformed data is reported as such (422), not as an outage
+          if (error instanceof ValidationError) {
+            throw error;
+          }
+          
+          logger.error(`Database operation ${operationName} failed`, error as Error, { attempts: attempt });
+          throw new DatabaseError(
+            `Failed to execute ${operationName}: ${(error as Error).message}`,
+            error
+          );
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,234 @@
+import { createLogger } from '@/lib/logger';
+import {
+  DatabaseError,
+  FaultProfile,
+  FaultProfileSchema,
+  FaultRule,
+  FaultRuleSchema,
+  LatencyDistribution,
+  RepositoryOperation,
+  RepositoryOperationSchema
+} from '@/lib/types';
+import { abortableDelay } from './executor';
+
+/**
+ * Fault Injection
+ *
+ * Adds latency, errors, timeouts and outages to data-layer calls so
+ * consistency trade-offs can be studied reproducibly. Faults are applied
+ * inside each executor attempt, before the query runs, so the executor's
+ * timeouts, retries and circuit breaker react to them exactly as they would
+ * to a slow or failing database.
+ *
+ * The active profile comes from FAULT_PROFILE (a preset name or a JSON
+ * profile) and can be replaced at runtime through /api/admin/faults. It is
+ * per server instance. Every API response reports its name in
+ * `metadata.fault_profile` so experiment results are labeled.
+ */
+
+export interface FaultInjectionStats {
+  attempts: number; // Attempts the profile was applied to
+  delayed: number;
+  totalDelayMs: number;
+  errors: number;
+  timeouts: number;
+  outages: number;
+  since: string; // When the profile was activated
+}
+
+/**
+ * Built-in profiles, selectable by name
+ */
+export const FAULT_PRESETS: Record<string, FaultProfile> = {
+  none: FaultProfileSchema.parse({ name: 'none' }),
+  'slow-network': FaultProfileSchema.parse({
+    name: 'slow-network',
+    default: { latency: { distribution: 'normal', mean_ms: 150, stddev_ms: 50 } }
+  }),
+  'long-tail': FaultProfileSchema.parse({
+    name: 'long-tail',
+    default: { latency: { distribution: 'exponential', mean_ms: 80 } }
+  }),
+  flaky: FaultProfileSchema.parse({
+    name: 'flaky',
+    default: { latency: { distribution: 'uniform', min_ms: 20, max_ms: 80 }, error_rate: 0.1 }
+  }),
+  timeouts: FaultProfileSchema.parse({
+    name: 'timeouts',
+    default: { timeout_rate: 0.05 }
+  }),
+  // List queries down, product pages and writes up
+  'partial-outage': FaultProfileSchema.parse({
+    name: 'partial-outage',
+    operations: { getProducts: { outage: true } }
+  })
+};
+
+const NO_FAULTS: FaultRule = FaultRuleSchema.parse({});
+
+/**
+ * Draw one latency sample in ms (never negative)
+ */
+function sampleLatency(latency: LatencyDistribution): number {
+  switch (latency.distribution) {
+    case 'none':
+      return 0;
+    case 'fixed':
+      return latency.ms;
+    case 'uniform':
+      return latency.min_ms + Math.random() * (latency.max_ms - latency.min_ms);
+    case 'normal': {
+      // Box-Muller transform
+      const u = 1 - Math.random();
+      const v = Math.random();
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+      return Math.max(0, latency.mean_ms + z * latency.stddev_ms);
+    }
+    case 'exponential':
+      return -latency.mean_ms * Math.log(1 - Math.random());
+  }
+}
+
+/**
+ * Wait until the executor aborts the attempt (its timeout fired)
+ */
+function hang(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (signal.aborted) {
+      reject(new Error('Operation aborted'));
+      return;
+    }
+    signal.addEventListener('abort', () => reject(new Error('Operation aborted')), { once: true });
+  });
+}
+
+/**
+ * Look up a preset by name; own keys only, so `toString` or `constructor`
+ * can't resolve to an Object.prototype member
+ */
+export function faultPreset(name: string): FaultProfile | undefined {
+  return Object.hasOwn(FAULT_PRESETS, name) ? FAULT_PRESETS[name] : undefined;
+}
+
+/**
+ * Resolve a preset name or JSON profile; throws on anything else
+ */
+export function parseFaultProfile(value: string): FaultProfile {
+  const preset = faultPreset(value.trim());
+  if (preset) {
+    return preset;
+  }
+  return FaultProfileSchema.parse(JSON.parse(value));
+}
+
+function loadFaultProfile(): FaultProfile {
+  const configured = process.env.FAULT_PROFILE;
+  if (!configured) {
+    return FAULT_PRESETS.none;
+  }
+
+  try {
+    return parseFaultProfile(configured);
+  } catch (error) {
+    createLogger('fault-injection').error('Invalid FAULT_PROFILE - injecting no faults', error as Error);
+    return FAULT_PRESETS.none;
+  }
+}
+
+function emptyStats(): FaultInjectionStats {
+  return {
+    attempts: 0,
+    delayed: 0,
+    totalDelayMs: 0,
+    errors: 0,
+    timeouts: 0,
+    outages: 0,
+    since: new Date().toISOString()
+  };
+}
+
+export class FaultInjector {
+  private profile: FaultProfile;
+  private stats: FaultInjectionStats = emptyStats();
+
+  constructor(profile: FaultProfile = loadFaultProfile()) {
+    this.profile = profile;
+  }
+
+  getProfile(): FaultProfile {
+    return this.profile;
+  }
+
+  /**
+   * Label stamped into response metadata
+   */
+  profileName(): string {
+    return this.profile.name;
+  }
+
+  /**
+   * Activate a profile and restart its statistics
+   */
+  setProfile(profile: FaultProfile): void {
+    this.profile = profile;
+    this.stats = emptyStats();
+  }
+
+  /**
+   * Back to the FAULT_PROFILE the process started with
+   */
+  reset(): void {
+    this.setProfile(loadFaultProfile());
+  }
+
+  getStats(): FaultInjectionStats {
+    return { ...this.stats };
+  }
+
+  private ruleFor(operationName: string): FaultRule {
+    const operation = RepositoryOperationSchema.safeParse(operationName);
+    const override = operation.success
+      ? this.profile.operations[operation.data as RepositoryOperation]
+      : undefined;
+    return override ?? this.profile.default ?? NO_FAULTS;
+  }
+
+  /**
+   * Apply the profile to one attempt: resolves when the query may run,
+   * rejects with the injected failure otherwise
+   */
+  async apply(operationName: string, signal: AbortSignal): Promise<void> {
+    const rule = this.ruleFor(operationName);
+    this.stats.attempts++;
+
+    if (rule.outage) {
+      this.stats.outages++;
+      throw new DatabaseError(`Injected outage: ${operationName} unavailable`, {
+        code: '08006',
+        message: 'injected connection failure'
+      });
+    }
+
+    const delayMs = Math.round(sampleLatency(rule.latency));
+    if (delayMs > 0) {
+      this.stats.delayed++;
+      this.stats.totalDelayMs += delayMs;
+      await abortableDelay(delayMs, signal);
+    }
+
+    if (rule.timeout_rate > 0 && Math.random() < rule.timeout_rate) {
+      this.stats.timeouts++;
+      await hang(signal);
+    }
+
+    if (rule.error_rate > 0 && Math.random() < rule.error_rate) {
+      this.stats.errors++;
+      throw new DatabaseError(`Injected error in ${operationName}`, {
+        code: '08006',
+        message: 'injected connection failure'
+      });
+    }
+  }
+}
+
+export const faultInjector = new FaultInjector();
@@ -0,0 +1,83 @@
+import { createLogger } from '@/lib/logger';
+import { SupabaseService } from '@/lib/supabase';
+import { MemoryProductRepository } from './memory';
+import type { ProductRepository, RepositoryKind } from './types';
+
+/**
+ * Repository Selection
+ *
+ * DATA_BACKEND picks the store behind every route: `supabase` or `memory`
+ * (seeded sample products, no external services). Left unset, Supabase is
+ * used when NEXT_PUBLIC_SUPABASE_URL is configured and the in-memory store
+ * otherwise, so the app starts without a Supabase project.
+ */
+
+export type { ProductRepository, RepositoryKind, ProductChanges, NewCartItem } from './types';
+export { MemoryProductRepository } from './memory';
+
+const REPOSITORY_KINDS: RepositoryKind[] = ['supabase', 'memory'];
+
+/**
+ * Backend named by DATA_BACKEND, or inferred from the Supabase settings
+ */
+export function resolveRepositoryKind(): RepositoryKind {
+  const configured = process.env.DATA_BACKEND?.trim().toLowerCase();
+
+  if (configured) {
+    if (!REPOSITORY_KINDS.includes(configured as RepositoryKind)) {
+      throw new Error(
+        `Invalid DATA_BACKEND: ${configured}. Expected one of: ${REPOSITORY_KINDS.join(', ')}`
+      );
+    }
+    return configured as RepositoryKind;
+  }
+
+  // Placeholder values from .env.local.example don't count as configured
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  if (url?.startsWith('https://') && !url.includes('your-project')) {
+    return 'supabase';
+  }
+
+  createLogger('repository').warn(
+    'NEXT_PUBLIC_SUPABASE_URL is not set - using the in-memory product store. ' +
+    'Set DATA_BACKEND=supabase to require a database.'
+  );
+  return 'memory';
+}
+
+// Singleton instance
+let productRepository: ProductRepository | null = null;
+
+/**
+ * Get singleton instance of the configured repository
+ * 
+ * This ensures connection reuse across requests in serverless environments
+ * while still allowing for proper error handling on initialization
+ */
+export function getRepository(): ProductRepository {
+  if (!productRepository) {
+    const kind = resolveRepositoryKind();
+
+    if (kind === 'memory') {
+      productRepository = new MemoryProductRepository();
+    } else {
+      try {
+        productRepository = new SupabaseService();
+      } catch (error) {
+        // Re-throw with more context for debugging
+        throw new Error(
+          `Failed to initialize Supabase service: ${(error as Error).message}\n\n` +
+          'Please ensure your .env.local file contains:\n' +
+          '- NEXT_PUBLIC_SUPABASE_URL\n' +
+          '- NEXT_PUBLIC_SUPABASE_ANON_KEY\n\n' +
+          'And that you have run the database migrations in the migrations/ folder,\n' +
+          'or set DATA_BACKEND=memory to use the in-memory product store.'
+        );
+      }
+    }
+  }
+  return productRepository;
+}
+
+// Export for direct use in API routes
+export const repository = getRepository();
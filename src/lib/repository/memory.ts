@@ -0,0 +1,336 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '@/lib/logger';
+import {
+  Product,
+  GetProductsQuery,
+  ProductVersion,
+  Cart,
+  CartItem,
+  Order,
+  PriceChange
+} from '@/lib/types';
+import type { CircuitBreakerStatus } from '@/lib/circuitBreaker';
+import { DatabaseExecutor, abortableDelay, loadExecutorConfig } from './executor';
+import { faultInjector } from './faults';
+import { compareValues, queryProducts } from './query';
+import { seedProducts } from './seed';
+import type { NewCartItem, ProductChanges, ProductRepository } from './types';
+
+/**
+ * In-Memory Product Repository
+ *
+ * Process-local store seeded with the migration's sample products, for
+ * running the app without a Supabase project. Queries mirror the Supabase
+ * implementation (filters, sorts, cursors, projections, version bumps on
+ * every write) and run through the same executor, so timeouts, retries and
+ * the circuit breaker behave as they do against the real database.
+ *
+ * Every operation waits MEMORY_DB_LATENCY_MS ± MEMORY_DB_JITTER_MS first to
+ * mimic a round trip to a remote database. Data lives as long as the
+ * process (per server instance, reset on restart).
+ */
+
+export interface MemoryLatencyConfig {
+  latencyMs: number;
+  jitterMs: number;
+}
+
+function loadLatencyConfig(): MemoryLatencyConfig {
+  return {
+    latencyMs: Math.max(0, parseInt(process.env.MEMORY_DB_LATENCY_MS || '50', 10)),
+    jitterMs: Math.max(0, parseInt(process.env.MEMORY_DB_JITTER_MS || '20', 10))
+  };
+}
+
+export class MemoryProductRepository implements ProductRepository {
+  readonly kind = 'memory' as const;
+  private products = new Map<string, Product>();
+  private carts = new Map<string, Omit<Cart, 'items'>>();
+  private cartItems: CartItem[] = [];
+  private orders: Order[] = [];
+  private nextCartItemId = 1;
+  private nextOrderId = 1;
+  private executor: DatabaseExecutor;
+  private latency: MemoryLatencyConfig;
+
+  constructor(latency: MemoryLatencyConfig = loadLatencyConfig()) {
+    this.executor = new DatabaseExecutor('memory', loadExecutorConfig(), faultInjector);
+    this.latency = latency;
+
+    for (const product of seedProducts()) {
+      this.products.set(product.id, product);
+    }
+  }
+
+  /**
+   * Simulated round trip: latency plus uniform jitter either side
+   */
+  private roundTrip(signal: AbortSignal): Promise<void> {
+    const { latencyMs, jitterMs } = this.latency;
+    const ms = Math.max(0, latencyMs + (Math.random() * 2 - 1) * jitterMs);
+    return abortableDelay(ms, signal);
+  }
+
+  /**
+   * Apply a write the way the products trigger does: bump `version` and `updated_at`
+   */
+  private write(product: Product, changes: ProductChanges): Product {
+    const updated: Product = {
+      ...product,
+      ...changes,
+      version: product.version + 1,
+      updated_at: new Date().toISOString()
+    };
+    this.products.set(updated.id, updated);
+    return { ...updated };
+  }
+
+  private cartWithItems(cart: Omit<Cart, 'items'>): Cart {
+    return {
+      ...cart,
+      items: this.cartItems.filter(item => item.cart_id === cart.id).map(item => ({ ...item }))
+    };
+  }
+
+  takeAttempts(requestId: string): number {
+    return this.executor.takeAttempts(requestId);
+  }
+
+  getCircuitStatus(): CircuitBreakerStatus {
+    return this.executor.getCircuitStatus();
+  }
+
+  async getProducts(
+    query: GetProductsQuery = { limit: 10, offset: 0, sort: 'updated_desc', fields: 'full' },
+    requestId: string = uuidv4()
+  ): Promise<Product[]> {
+    const logger = createLogger(requestId);
+
+    return this.executor.execute(async (signal) => {
+      await this.roundTrip(signal);
+      logger.info('Fetching products from memory store', { query });
+
+      const products = queryProducts(this.products.values(), query);
+
+      logger.info('Successfully fetched products', { count: products.length, fields: query.fields });
+      return products;
+    }, 'getProducts', requestId);
+  }
+
+  async getProductById(
+    productId: string,
+    requestId: string = uuidv4()
+  ): Promise<Product | null> {
+    return this.executor.execute(async (signal) => {
+      await this.roundTrip(signal);
+      const product = this.products.get(productId);
+      return product ? { ...product } : null;
+    }, 'getProductById', requestId);
+  }
+
+  async getProductVersions(
+    productIds: string[],
+    requestId: string = uuidv4()
+  ): Promise<ProductVersion[]> {
+    if (productIds.length === 0) {
+      return [];
+    }
+
+    return this.executor.execute(async (signal) => {
+      await this.roundTrip(signal);
+      return productIds.flatMap(id => {
+        const product = this.products.get(id);
+        return product ? [{ id: product.id, version: product.version, updated_at: product.updated_at }] : [];
+      });
+    }, 'getProductVersions', requestId);
+  }
+
+  async getProductsByIds(
+    productIds: string[],
+    requestId: string = uuidv4()
+  ): Promise<Product[]> {
+    if (productIds.length === 0) {
+      return [];
+    }
+
+    return this.executor.execute(async (signal) => {
+      await this.roundTrip(signal);
+      return productIds.flatMap(id => {
+        const product = this.products.get(id);
+        return product ? [{ ...product }] : [];
+      });
+    }, 'getProductsByIds', requestId);
+  }
+
+  async updateProduct(
+    productId: string,
+    changes: ProductChanges,
+    requestId: string = uuidv4()
+  ): Promise<Product | null> {
+    const logger = createLogger(requestId);
+
+    return this.executor.execute(async (signal) => {
+      await this.roundTrip(signal);
+
+      const product = this.products.get(productId);
+      if (!product) {
+        logger.info('Product not found for update', { productId });
+        return null;
+      }
+
+      const updated = this.write(product, changes);
+      logger.info('Successfully updated product', { productId, version: updated.version });
+      return updated;
+    }, 'updateProduct', requestId, { retry: false });
+  }
+
+  async compareAndSetInventory(
+    productId: string,
+    expectedVersion: number,
+    inventory: number,
+    requestId: string = uuidv4()
+  ): Promise<Product | null> {
+    const logger = createLogger(requestId);
+
+    return this.executor.execute(async (signal) => {
+      await this.roundTrip(signal);
+
+      // Check and write happen in one synchronous step, so no other request interleaves
+      const product = this.products.get(productId);
+      if (!product || product.version !== expectedVersion) {
+        logger.info('Inventory compare-and-set conflict', { productId, expectedVersion });
+        return null;
+      }
+
+      const updated = this.write(product, { inventory });
+      logger.info('Inventory compare-and-set succeeded', { productId, inventory, version: updated.version });
+      return updated;
+    }, 'compareAndSetInventory', requestId, { retry: false });
+  }
+
+  async getOrCreateCart(
+    sessionId: string,
+    requestId: string = uuidv4()
+  ): Promise<Cart> {
+    const logger = createLogger(requestId);
+
+    return this.executor.execute(async (signal) => {
+      await this.roundTrip(signal);
+
+      // Checked-out carts are closed, so a session moves on to a new one
+      const existing = Array.from(this.carts.values())
+        .filter(cart => cart.session_id === sessionId && !this.orders.some(order => order.cart_id === cart.id))
+        .sort((a, b) => compareValues(b.created_at, a.created_at))[0];
+
+      if (existing) {
+        return this.cartWithItems(existing);
+      }
+
+      const now = new Date().toISOString();
+      const cart = { id: uuidv4(), session_id: sessionId, created_at: now, updated_at: now };
+      this.carts.set(cart.id, cart);
+
+      logger.info('Created cart', { cartId: cart.id });
+      return { ...cart, items: [] };
+    }, 'getOrCreateCart', requestId);
+  }
+
+  async getCart(
+    cartId: string,
+    requestId: string = uuidv4()
+  ): Promise<Cart | null> {
+    return this.executor.execute(async (signal) => {
+      await this.roundTrip(signal);
+      const cart = this.carts.get(cartId);
+      return cart ? this.cartWithItems(cart) : null;
+    }, 'getCart', requestId);
+  }
+
+  async addCartItem(
+    cartId: string,
+    item: NewCartItem,
+    requestId: string = uuidv4()
+  ): Promise<CartItem | null> {
+    const logger = createLogger(requestId);
+
+    return this.executor.execute(async (signal) => {
+      await this.roundTrip(signal);
+
+      if (this.orders.some(order => order.cart_id === cartId)) {
+        logger.warn('Cart item rejected - cart already checked out', { cartId });
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const cartItem: CartItem = { id: this.nextCartItemId++, cart_id: cartId, ...item, added_at: now };
+      this.cartItems.push(cartItem);
+
+      const cart = this.carts.get(cartId);
+      if (cart) {
+        this.carts.set(cartId, { ...cart, updated_at: now });
+      }
+
+      logger.info('Added cart item', { cartId, productId: item.product_id, mode: item.mode });
+      return { ...cartItem };
+    }, 'addCartItem', requestId, { retry: false });
+  }
+
+  async getOrder(
+    cartId: string,
+    requestId: string = uuidv4()
+  ): Promise<Order | null> {
+    return this.executor.execute(async (signal) => {
+      await this.roundTrip(signal);
+      const order = this.orders.find(candidate => candidate.cart_id === cartId);
+      return order ? { ...order } : null;
+    }, 'getOrder', requestId);
+  }
+
+  async createOrder(
+    cartId: string,
+    totalAmount: number,
+    priceChanges: PriceChange[],
+    requestId: string = uuidv4()
+  ): Promise<Order | null> {
+    const logger = createLogger(requestId);
+
+    return this.executor.execute(async (signal) => {
+      await this.roundTrip(signal);
+
+      // Mirrors the unique index on orders.cart_id
+      if (this.orders.some(order => order.cart_id === cartId)) {
+        logger.warn('Order rejected - cart already checked out', { cartId });
+        return null;
+      }
+
+      const order: Order = {
+        id: this.nextOrderId++,
+        cart_id: cartId,
+        total_amount: totalAmount,
+        price_changes: priceChanges,
+        created_at: new Date().toISOString()
+      };
+      this.orders.push(order);
+
+      logger.info('Created order', { cartId, orderId: order.id, priceChanges: priceChanges.length });
+      return { ...order };
+    }, 'createOrder', requestId, { retry: false });
+  }
+
+  async healthCheck(requestId: string = uuidv4()): Promise<boolean> {
+    const logger = createLogger(requestId);
+
+    try {
+      await this.executor.execute(async (signal) => {
+        await this.roundTrip(signal);
+        return this.products.size;
+      }, 'healthCheck', requestId);
+
+      logger.info('Memory store health check passed');
+      return true;
+    } catch (error) {
+      logger.error('Memory store health check failed', error as Error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { PRODUCT_SORT_KEYS } from '@/lib/pagination';
+import { GetProductsQuery, Product, ProductSummarySchema } from '@/lib/types';
+
+/**
+ * In-Process Product Queries
+ *
+ * Evaluates a list query against rows held in memory, with the same
+ * filters, ordering, keyset cursors and projections as the Supabase query,
+ * for the in-memory store and the simulated read replicas.
+ */
+
+/**
+ * Compare two sort values the way the database orders them
+ */
+export function compareValues(a: string | number, b: string | number): number {
+  if (a === b) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+}
+
+/**
+ * One page of `rows` matching `query`, as copies
+ */
+export function queryProducts(rows: Iterable<Product>, query: GetProductsQuery): Product[] {
+  const { column, ascending } = PRODUCT_SORT_KEYS[query.sort];
+  const direction = ascending ? 1 : -1;
+  const search = query.q;
+
+  let matches = Array.from(rows).filter(product =>
+    (!query.category || product.category === query.category) &&
+    (!query.brand || product.brand === query.brand) &&
+    (query.min_price === undefined || product.price >= query.min_price) &&
+    (query.max_price === undefined || product.price <= query.max_price) &&
+    (query.in_stock === undefined || (query.in_stock ? product.inventory > 0 : product.inventory === 0)) &&
+    (!search ||
+      product.name.toLowerCase().includes(search) ||
+      (product.description ?? '').toLowerCase().includes(search))
+  );
+
+  // `id` breaks ties on the sort column, as in the Supabase query
+  matches.sort((a, b) =>
+    direction * (compareValues(a[column], b[column]) || compareValues(a.id, b.id))
+  );
+
+  if (query.cursor) {
+    const cursor = query.cursor;
+    matches = matches.filter(product =>
+      direction * (compareValues(product[column], cursor.value) || compareValues(product.id, cursor.id)) > 0
+    );
+  } else if (query.offset > 0) {
+    matches = matches.slice(query.offset);
+  }
+
+  const page = matches.slice(0, query.limit);
+  return query.fields === 'full'
+    ? page.map(product => ({ ...product }))
+    : page.map(product => ProductSummarySchema.parse(product) as Product);
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Product } from '@/lib/types';
+import { repository } from './index';
+import { ReplicaTopology, parseReplicaRegions } from './replicas';
+
+const T = Date.UTC(2026, 0, 1);
+const FIRST_ID = '00000000-0000-4000-8000-000000000001';
+const SECOND_ID = '00000000-0000-4000-8000-000000000002';
+
+/**
+ * The primary's product with a new price, as a committed write would return it
+ */
+async function updated(productId: string, price: number): Promise<Product> {
+  const product = (await repository.getProductById(productId))!;
+  return { ...product, price, version: product.version + 1 };
+}
+
+describe('parseReplicaRegions', () => {
+  it('skips malformed, reserved and duplicate regions', () => {
+    expect(parseReplicaRegions('us-east:100, primary:5,eu-west:-1,Bad:10,us-east:200,ap-south:0')).toEqual([
+      { name: 'us-east', lagMs: 100 },
+      { name: 'ap-south', lagMs: 0 }
+    ]);
+  });
+});
+
+describe('ReplicaTopology', () => {
+  // Replication lag is measured with Date.now
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'], now: T });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('shows a write in each region only after that region\'s lag', async () => {
+    const topology = new ReplicaTopology([{ name: 'near', lagMs: 100 }, { name: 'far', lagMs: 1_000 }], 0);
+    await topology.ready();
+    const write = await updated(FIRST_ID, 1);
+
+    topology.recordWrite(write);
+
+    vi.setSystemTime(T + 99);
+    expect((await topology.getProductById('near', FIRST_ID))!.version).toBe(write.version - 1);
+
+    vi.setSystemTime(T + 100);
+    expect(await topology.getProductById('near', FIRST_ID)).toEqual(write);
+    expect((await topology.getProductById('far', FIRST_ID))!.version).toBe(write.version - 1);
+    expect(topology.getStatus()).toMatchObject([
+      { region: 'near', pendingWrites: 0, appliedWrites: 1 },
+      { region: 'far', pendingWrites: 1, replicationDelayMs: 100, appliedWrites: 0 }
+    ]);
+
+    vi.setSystemTime(T + 1_000);
+    expect(await topology.getProductById('far', FIRST_ID)).toEqual(write);
+  });
+
+  it('applies writes in commit order even when jitter would reorder them', async () => {
+    const topology = new ReplicaTopology([{ name: 'region', lagMs: 500 }], 400);
+    await topology.ready();
+    const first = await updated(FIRST_ID, 1);
+    const second = await updated(SECOND_ID, 2);
+
+    // The first write draws the most jitter, the second the least
+    vi.spyOn(Math, 'random').mockReturnValueOnce(1).mockReturnValueOnce(0);
+    topology.recordWrite(first);
+    vi.setSystemTime(T + 100);
+    topology.recordWrite(second);
+
+    // The second write's own delay (100ms) has passed, but the first is still pending
+    vi.setSystemTime(T + 500);
+    expect((await topology.getProductById('region', SECOND_ID))!.version).toBe(second.version - 1);
+    expect(topology.getStatus()[0]).toMatchObject({ pendingWrites: 2, replicationDelayMs: 500 });
+
+    vi.setSystemTime(T + 900);
+    expect(await topology.getProductById('region', FIRST_ID)).toEqual(first);
+    expect(await topology.getProductById('region', SECOND_ID)).toEqual(second);
+    expect(topology.getStatus()[0]).toMatchObject({ pendingWrites: 0, appliedWrites: 2 });
+  });
+
+  it('rejects reads from unknown regions', async () => {
+    const topology = new ReplicaTopology([{ name: 'near', lagMs: 100 }], 0);
+
+    await expect(topology.getProductById('moon', FIRST_ID)).rejects.toThrow('Unknown replica region: moon');
+  });
+});
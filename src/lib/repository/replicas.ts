@@ -0,0 +1,284 @@
+import { createLogger } from '@/lib/logger';
+import { nextCursor } from '@/lib/pagination';
+import { GetProductsQuery, GetProductsQuerySchema, Product } from '@/lib/types';
+import { repository } from './index';
+import { queryProducts } from './query';
+
+/**
+ * Simulated Read Replicas
+ *
+ * A primary (the configured repository) plus in-memory product replicas,
+ * one per region, each applying the primary's writes after its own
+ * replication lag. Reading a region right after a write shows the
+ * read-after-write anomaly a lagging replica causes, for comparison with
+ * the cache-induced staleness of check-fast and smart-memory.
+ *
+ * Replicas copy the primary's products on first use (or before the first
+ * write), then follow the writes made through this API (PATCH
+ * /api/products/{id} and reservations), applying them in commit order once
+ * `lag ± jitter` has passed. Writes made to the database directly are not
+ * replicated. State is per server instance.
+ *
+ * Regions come from REPLICA_REGIONS (`name:lagMs,...`) and jitter from
+ * REPLICA_LAG_JITTER_MS.
+ */
+
+export interface ReplicaRegionConfig {
+  name: string;
+  lagMs: number;
+}
+
+export interface ReplicaStatus {
+  region: string;
+  lagMs: number;
+  /**
+   * Writes committed on the primary but not yet visible in this region
+   */
+  pendingWrites: number;
+  /**
+   * Time since the oldest pending write committed (0 when caught up)
+   */
+  replicationDelayMs: number;
+  appliedWrites: number;
+  lastAppliedAt: string | null;
+}
+
+interface ReplicationEntry {
+  product: Product;
+  committedAt: number;
+  /**
+   * Per region: when the write becomes visible there
+   */
+  visibleAt: Record<string, number>;
+}
+
+interface Replica {
+  config: ReplicaRegionConfig;
+  products: Map<string, Product>;
+  /**
+   * Position in the replication log up to which this replica has applied
+   */
+  position: number;
+  appliedWrites: number;
+  lastAppliedAt: number | null;
+}
+
+const DEFAULT_REGIONS = 'us-east:100,eu-west:500,ap-south:2000';
+const REGION_NAME = /^[a-z0-9-]{1,32}$/;
+
+/**
+ * Rows per primary query while copying the catalogue
+ */
+const SNAPSHOT_PAGE_SIZE = 100;
+
+/**
+ * Parse REPLICA_REGIONS; malformed entries are skipped with a warning
+ */
+export function parseReplicaRegions(value: string = process.env.REPLICA_REGIONS || DEFAULT_REGIONS): ReplicaRegionConfig[] {
+  const logger = createLogger('replicas');
+  const regions: ReplicaRegionConfig[] = [];
+
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [name, lag] = entry.split(':');
+    const lagMs = parseInt(lag ?? '', 10);
+
+    if (!REGION_NAME.test(name) || name === 'primary' || !(lagMs >= 0) || regions.some(r => r.name === name)) {
+      logger.warn('Ignoring invalid REPLICA_REGIONS entry', { entry });
+      continue;
+    }
+    regions.push({ name, lagMs });
+  }
+
+  return regions;
+}
+
+export class ReplicaTopology {
+  private replicas = new Map<string, Replica>();
+  private log: ReplicationEntry[] = [];
+  /**
+   * Log position of log[0] (entries every replica applied are dropped)
+   */
+  private logOffset = 0;
+  private snapshot: Promise<void> | null = null;
+
+  constructor(
+    regions: ReplicaRegionConfig[] = parseReplicaRegions(),
+    private readonly jitterMs: number = Math.max(0, parseInt(process.env.REPLICA_LAG_JITTER_MS || '0', 10))
+  ) {
+    for (const config of regions) {
+      this.replicas.set(config.name, {
+        config,
+        products: new Map(),
+        position: 0,
+        appliedWrites: 0,
+        lastAppliedAt: null
+      });
+    }
+  }
+
+  regions(): string[] {
+    return Array.from(this.replicas.keys());
+  }
+
+  /**
+   * Make sure the replicas hold the catalogue before a write, so the write
+   * reaches them through replication rather than in the initial copy.
+   * Never rejects: a failed copy is retried by the next read.
+   */
+  async ready(): Promise<void> {
+    if (this.replicas.size === 0) {
+      return;
+    }
+
+    try {
+      await this.ensureSnapshot();
+    } catch (error) {
+      createLogger('replicas').error('Replica catalogue copy failed', error as Error);
+    }
+  }
+
+  /**
+   * Replicate a write the primary committed; visible in each region after its lag
+   */
+  recordWrite(product: Product): void {
+    if (this.replicas.size === 0) {
+      return;
+    }
+
+    const committedAt = Date.now();
+    const previous = this.log[this.log.length - 1];
+    const visibleAt: Record<string, number> = {};
+
+    for (const { config } of this.replicas.values()) {
+      const jitter = this.jitterMs > 0 ? (Math.random() * 2 - 1) * this.jitterMs : 0;
+      // Replicas apply the log in order, so a write never overtakes an earlier one
+      visibleAt[config.name] = Math.max(
+        previous?.visibleAt[config.name] ?? 0,
+        committedAt + Math.max(0, config.lagMs + jitter)
+      );
+    }
+
+    this.log.push({ product: { ...product }, committedAt, visibleAt });
+    this.advance();
+  }
+
+  /**
+   * List query against a region's replica
+   */
+  async getProducts(region: string, query: GetProductsQuery): Promise<Product[]> {
+    const replica = await this.replicaFor(region);
+    return queryProducts(replica.products.values(), query);
+  }
+
+  /**
+   * Single product from a region's replica
+   */
+  async getProductById(region: string, productId: string): Promise<Product | null> {
+    const replica = await this.replicaFor(region);
+    const product = replica.products.get(productId);
+    return product ? { ...product } : null;
+  }
+
+  getStatus(): ReplicaStatus[] {
+    this.advance();
+    const now = Date.now();
+
+    return Array.from(this.replicas.values()).map(replica => {
+      const pending = this.log.slice(replica.position - this.logOffset);
+      return {
+        region: replica.config.name,
+        lagMs: replica.config.lagMs,
+        pendingWrites: pending.length,
+        replicationDelayMs: pending.length > 0 ? now - pending[0].committedAt : 0,
+        appliedWrites: replica.appliedWrites,
+        lastAppliedAt: replica.lastAppliedAt ? new Date(replica.lastAppliedAt).toISOString() : null
+      };
+    });
+  }
+
+  private async replicaFor(region: string): Promise<Replica> {
+    const replica = this.replicas.get(region);
+    if (!replica) {
+      throw new Error(`Unknown replica region: ${region}`);
+    }
+
+    await this.ensureSnapshot();
+    this.advance();
+    return replica;
+  }
+
+  /**
+   * Copy the primary's catalogue into every replica, once
+   */
+  private ensureSnapshot(): Promise<void> {
+    if (!this.snapshot) {
+      this.snapshot = this.copyPrimary().catch(error => {
+        // Let the next read try again
+        this.snapshot = null;
+        throw error;
+      });
+    }
+    return this.snapshot;
+  }
+
+  private async copyPrimary(): Promise<void> {
+    const logger = createLogger('replicas');
+    const products: Product[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const query: GetProductsQuery = GetProductsQuerySchema.parse({
+        limit: SNAPSHOT_PAGE_SIZE,
+        ...(cursor ? { cursor } : {})
+      });
+      const page = await repository.getProducts(query);
+      products.push(...page);
+      cursor = nextCursor(page, query);
+    } while (cursor);
+
+    for (const replica of this.replicas.values()) {
+      for (const product of products) {
+        // A write replicated while the copy ran may already be newer
+        const existing = replica.products.get(product.id);
+        if (!existing || existing.version < product.version) {
+          replica.products.set(product.id, { ...product });
+        }
+      }
+    }
+
+    logger.info('Replicas copied primary catalogue', { products: products.length, regions: this.regions() });
+  }
+
+  /**
+   * Apply every write whose visibility time has passed, then drop log
+   * entries all replicas have applied
+   */
+  private advance(): void {
+    const now = Date.now();
+
+    for (const replica of this.replicas.values()) {
+      while (replica.position - this.logOffset < this.log.length) {
+        const entry = this.log[replica.position - this.logOffset];
+        if (entry.visibleAt[replica.config.name] > now) {
+          break;
+        }
+
+        const current = replica.products.get(entry.product.id);
+        if (!current || current.version < entry.product.version) {
+          replica.products.set(entry.product.id, { ...entry.product });
+        }
+        replica.position++;
+        replica.appliedWrites++;
+        replica.lastAppliedAt = now;
+      }
+    }
+
+    const applied = Math.min(...Array.from(this.replicas.values(), replica => replica.position));
+    if (applied > this.logOffset) {
+      this.log.splice(0, applied - this.logOffset);
+      this.logOffset = applied;
+    }
+  }
+}
+
+export const replicas = new ReplicaTopology();
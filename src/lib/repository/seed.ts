@@ -0,0 +1,42 @@
+import type { Product } from '@/lib/types';
+
+/**
+ * Seed Products
+ *
+ * The sample catalogue from migrations/001_create_products_table.sql, with
+ * fixed IDs so URLs and carts stay valid across restarts of the in-memory
+ * store. Keep in step with the migration.
+ */
+
+type SeedProduct = Pick<Product, 'name' | 'price' | 'currency' | 'inventory' | 'category' | 'brand' | 'description'>;
+
+const SEED_PRODUCTS: SeedProduct[] = [
+  { name: 'iPhone 15 Pro Max', price: 159900, currency: 'INR', inventory: 50, category: 'smartphones', brand: 'Apple', description: 'Latest flagship smartphone with titanium design' },
+  { name: 'MacBook Pro M3', price: 199900, currency: 'INR', inventory: 25, category: 'laptops', brand: 'Apple', description: 'Powerful laptop for professionals' },
+  { name: 'Samsung Galaxy S24', price: 74900, currency: 'INR', inventory: 80, category: 'smartphones', brand: 'Samsung', description: 'Premium Android smartphone' },
+  { name: 'Dell XPS 13', price: 89900, currency: 'INR', inventory: 30, category: 'laptops', brand: 'Dell', description: 'Ultrabook with stunning display' },
+  { name: 'Sony WH-1000XM5', price: 34900, currency: 'INR', inventory: 100, category: 'audio', brand: 'Sony', description: 'Industry-leading noise canceling headphones' },
+  { name: 'iPad Air M2', price: 59900, currency: 'INR', inventory: 40, category: 'tablets', brand: 'Apple', description: 'Versatile tablet for creativity and productivity' },
+  { name: 'AirPods Pro 2', price: 24900, currency: 'INR', inventory: 150, category: 'audio', brand: 'Apple', description: 'Active noise cancellation wireless earbuds' },
+  { name: 'HP Pavilion Gaming', price: 64900, currency: 'INR', inventory: 35, category: 'laptops', brand: 'HP', description: 'Gaming laptop with RTX graphics' },
+  { name: 'OnePlus 12', price: 64900, currency: 'INR', inventory: 60, category: 'smartphones', brand: 'OnePlus', description: 'Flagship killer with fast charging' },
+  { name: 'Lenovo ThinkPad X1', price: 149900, currency: 'INR', inventory: 20, category: 'laptops', brand: 'Lenovo', description: 'Business laptop with premium build' }
+];
+
+/**
+ * Fresh copies of the seed rows, timestamped `now` one second apart so
+ * `updated_desc` has a stable order
+ */
+export function seedProducts(now: number = Date.now()): Product[] {
+  return SEED_PRODUCTS.map((seed, index) => {
+    const timestamp = new Date(now - (SEED_PRODUCTS.length - index) * 1000).toISOString();
+    return {
+      ...seed,
+      id: `00000000-0000-4000-8000-${(index + 1).toString().padStart(12, '0')}`,
+      image_url: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      version: 1
+    };
+  });
+}
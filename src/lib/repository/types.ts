@@ -0,0 +1,102 @@
+import type { CircuitBreakerStatus } from '@/lib/circuitBreaker';
+import type {
+  Cart,
+  CartItem,
+  ConsistencyMode,
+  GetProductsQuery,
+  Order,
+  PriceChange,
+  Product,
+  ProductVersion
+} from '@/lib/types';
+
+/**
+ * Product Repository
+ *
+ * Data access the API routes and consistency models depend on. Implemented
+ * by SupabaseService (the live database) and MemoryProductRepository (an
+ * in-process store for offline development), selected with DATA_BACKEND.
+ */
+
+export type RepositoryKind = 'supabase' | 'memory';
+
+export interface ProductChanges {
+  price?: number;
+  inventory?: number;
+}
+
+export interface NewCartItem {
+  product_id: string;
+  added_price: number;
+  quantity: number;
+  mode: ConsistencyMode;
+}
+
+export interface ProductRepository {
+  readonly kind: RepositoryKind;
+
+  /**
+   * List products matching the query's filters, sort and page
+   */
+  getProducts(query?: GetProductsQuery, requestId?: string): Promise<Product[]>;
+
+  getProductById(productId: string, requestId?: string): Promise<Product | null>;
+
+  /**
+   * Authoritative id/version/updated_at for staleness checks
+   */
+  getProductVersions(productIds: string[], requestId?: string): Promise<ProductVersion[]>;
+
+  /**
+   * Full rows by ID; missing IDs are omitted
+   */
+  getProductsByIds(productIds: string[], requestId?: string): Promise<Product[]>;
+
+  /**
+   * Apply a write; every write bumps `version` and `updated_at`
+   */
+  updateProduct(productId: string, changes: ProductChanges, requestId?: string): Promise<Product | null>;
+
+  /**
+   * Set inventory only if the version is still `expectedVersion`; null on a conflict
+   */
+  compareAndSetInventory(
+    productId: string,
+    expectedVersion: number,
+    inventory: number,
+    requestId?: string
+  ): Promise<Product | null>;
+
+  getOrCreateCart(sessionId: string, requestId?: string): Promise<Cart>;
+
+  getCart(cartId: string, requestId?: string): Promise<Cart | null>;
+
+  /**
+   * Add an item to a cart; null when the cart is already checked out
+   */
+  addCartItem(cartId: string, item: NewCartItem, requestId?: string): Promise<CartItem | null>;
+
+  /**
+   * The order a cart was checked out with, or null while it is open
+   */
+  getOrder(cartId: string, requestId?: string): Promise<Order | null>;
+
+  /**
+   * Record a cart's order; null when the cart already has one (one order per cart)
+   */
+  createOrder(
+    cartId: string,
+    totalAmount: number,
+    priceChanges: PriceChange[],
+    requestId?: string
+  ): Promise<Order | null>;
+
+  healthCheck(requestId?: string): Promise<boolean>;
+
+  /**
+   * Database attempts made for a request so far (including retries), then forget them
+   */
+  takeAttempts(requestId: string): number;
+
+  getCircuitStatus(): CircuitBreakerStatus;
+}
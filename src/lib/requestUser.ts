@@ -0,0 +1,206 @@
+import { createClient, isAuthApiError } from '@supabase/supabase-js';
+import type { NextRequest } from 'next/server';
+import { createLogger } from '@/lib/logger';
+
+/**
+ * Request User Resolution
+ *
+ * Resolves the signed-in Supabase user behind a server-side request from its
+ * session cookie (`sb-{project}-auth-token`, possibly split into `.0`, `.1`
+ * ... chunks and `base64-` encoded, as written by Supabase's SSR helpers),
+ * together with the `user_profiles.role` that tiers rate limits and gates
+ * admin features.
+ *
+ * The access token is verified with Supabase Auth and the role read with the
+ * user's own token (row-level security allows reading one's own profile).
+ * Results are cached per instance by token, so a session costs two Supabase
+ * round trips per SESSION_CACHE_TTL_MS rather than per request. Requests
+ * without a usable session, and any lookup that fails or exceeds
+ * SESSION_LOOKUP_TIMEOUT_MS, resolve to null (anonymous). Callers can
+ * ration the uncached lookups (`allowLookup`), since every new token - forged
+ * or not - costs a Supabase Auth call.
+ */
+
+export type UserRole = 'user' | 'researcher' | 'admin';
+
+export interface RequestUser {
+  id: string;
+  role: UserRole;
+}
+
+interface CachedUser {
+  user: RequestUser | null;
+  expiresAt: number;
+}
+
+const USER_ROLES: UserRole[] = ['user', 'researcher', 'admin'];
+
+const SESSION_CACHE_TTL_MS = parseInt(process.env.SESSION_CACHE_TTL_MS || '60000', 10);
+const SESSION_LOOKUP_TIMEOUT_MS = parseInt(process.env.SESSION_LOOKUP_TIMEOUT_MS || '1000', 10);
+const SESSION_CACHE_MAX_ENTRIES = 1000;
+
+const sessionCache = new Map<string, CachedUser>();
+
+export interface ResolveRequestUserOptions {
+  /**
+   * Asked before an uncached token is sent to Supabase Auth; resolving
+   * false treats the request as anonymous without a lookup
+   */
+  allowLookup?: () => Promise<boolean>;
+}
+
+/**
+ * Name of the Supabase session cookie for the configured project
+ */
+function sessionCookieName(): string | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const projectId = supabaseUrl?.split('//')[1]?.split('.')[0];
+  return projectId ? `sb-${projectId}-auth-token` : null;
+}
+
+/**
+ * Reassemble the session cookie (whole or chunked) and pull out the access token
+ */
+function readAccessToken(request: NextRequest): string | null {
+  const name = sessionCookieName();
+  if (!name) {
+    return null;
+  }
+
+  let value = request.cookies.get(name)?.value;
+  if (!value) {
+    const chunks: string[] = [];
+    for (let i = 0; ; i++) {
+      const chunk = request.cookies.get(`${name}.${i}`)?.value;
+      if (!chunk) break;
+      chunks.push(chunk);
+    }
+    value = chunks.join('');
+  }
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const json = value.startsWith('base64-')
+      ? Buffer.from(value.slice('base64-'.length), 'base64url').toString('utf8')
+      : decodeURIComponent(value);
+    const session = JSON.parse(json);
+
+    // Older helpers stored [access_token, refresh_token, ...]
+    const accessToken = Array.isArray(session) ? session[0] : session?.access_token;
+    return typeof accessToken === 'string' && accessToken ? accessToken : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry (epoch ms) claimed by a JWT, without verifying it
+ */
+function tokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1] ?? '', 'base64url').toString('utf8'));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+async function lookupUser(accessToken: string): Promise<RequestUser | null> {
+  const client = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { Authorization: `Bearer ${accessToken}` } }
+  });
+
+  const { data: { user }, error } = await client.auth.getUser(accessToken);
+  if (error) {
+    // Auth rejected the token; anything else (network, 5xx) says nothing about it
+    if (isAuthApiError(error) && error.status < 500) {
+      return null;
+    }
+    throw error;
+  }
+  if (!user) {
+    return null;
+  }
+
+  const { data: profile, error: profileError } = await client
+    .from('user_profiles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (profileError) {
+    throw new Error(`Failed to read user profile: ${profileError.message}`);
+  }
+
+  // Users without a profile row get the column default
+  const role: UserRole = USER_ROLES.includes(profile?.role) ? profile?.role : 'user';
+  return { id: user.id, role };
+}
+
+function remember(accessToken: string, user: RequestUser | null, now: number): void {
+  const expiry = tokenExpiry(accessToken);
+  sessionCache.set(accessToken, {
+    user,
+    expiresAt: Math.min(now + SESSION_CACHE_TTL_MS, expiry ?? Infinity)
+  });
+
+  // Drop the oldest entries (Map keeps insertion order)
+  while (sessionCache.size > SESSION_CACHE_MAX_ENTRIES) {
+    const oldest = sessionCache.keys().next().value;
+    if (oldest === undefined) break;
+    sessionCache.delete(oldest);
+  }
+}
+
+/**
+ * The signed-in user behind a request, or null for anonymous requests
+ */
+export async function resolveRequestUser(
+  request: NextRequest,
+  { allowLookup }: ResolveRequestUserOptions = {}
+): Promise<RequestUser | null> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+    return null;
+  }
+
+  const accessToken = readAccessToken(request);
+  if (!accessToken) {
+    return null;
+  }
+
+  const now = Date.now();
+  const expiry = tokenExpiry(accessToken);
+  if (expiry !== null && expiry <= now) {
+    return null;
+  }
+
+  const cached = sessionCache.get(accessToken);
+  if (cached && cached.expiresAt > now) {
+    return cached.user;
+  }
+
+  if (allowLookup && !(await allowLookup())) {
+    return null;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Session lookup timeout')), SESSION_LOOKUP_TIMEOUT_MS);
+    });
+    const user = await Promise.race([lookupUser(accessToken), timeout]);
+
+    // Invalid tokens are remembered too, so a bad cookie can't hammer Supabase Auth
+    remember(accessToken, user, now);
+    return user;
+  } catch (error) {
+    createLogger('request-user').warn('Session lookup failed - treating request as anonymous', {
+      error: (error as Error).message
+    });
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPreflightHandler, SecurityConfig, withSecurity } from './security';
+
+const CREDENTIALED: SecurityConfig = { corsOrigins: ['https://app.example.com'], allowCredentials: true };
+const PUBLIC: SecurityConfig = { corsOrigins: ['*'], allowCredentials: false };
+
+function request(method: string, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('http://api.example.com/api/products/1', {
+    method,
+    headers: { host: 'api.example.com', ...headers }
+  });
+}
+
+describe('withSecurity', () => {
+  const handler = vi.fn(async () => NextResponse.json({ ok: true }));
+
+  beforeEach(() => {
+    handler.mockClear();
+  });
+
+  it('rejects a disallowed origin with 403 before running the handler', async () => {
+    const response = await withSecurity(handler, CREDENTIALED)(
+      request('PATCH', { origin: 'https://evil.example.com' })
+    );
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Origin not allowed' });
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    expect(response.headers.get('Access-Control-Allow-Credentials')).toBeNull();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('echoes an allowed origin with credentials', async () => {
+    const response = await withSecurity(handler, CREDENTIALED)(
+      request('PATCH', { origin: 'https://app.example.com' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+    expect(response.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+    expect(response.headers.get('Vary')).toBe('Origin');
+    expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('keeps the handler\'s own Vary alongside Origin', async () => {
+    const varying = vi.fn(async () => NextResponse.json({ ok: true }, { headers: { Vary: 'X-Session-Token' } }));
+    const response = await withSecurity(varying, CREDENTIALED)(
+      request('GET', { origin: 'https://app.example.com' })
+    );
+
+    expect(response.headers.get('Vary')).toBe('X-Session-Token, Origin');
+  });
+
+  it('answers any origin with a wildcard on public profiles', async () => {
+    const response = await withSecurity(handler, PUBLIC)(
+      request('GET', { origin: 'https://anywhere.example.org' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(response.headers.get('Access-Control-Allow-Credentials')).toBeNull();
+  });
+
+  it('never lets a wildcard through on credentialed profiles', async () => {
+    const response = await withSecurity(handler, { corsOrigins: ['*'], allowCredentials: true })(
+      request('PATCH', { origin: 'https://evil.example.com' })
+    );
+
+    expect(response.status).toBe(403);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('allows same-origin requests and requests without an Origin', async () => {
+    const sameOrigin = await withSecurity(handler, CREDENTIALED)(
+      request('PATCH', { origin: 'http://api.example.com' })
+    );
+    const noOrigin = await withSecurity(handler, CREDENTIALED)(request('PATCH'));
+
+    expect(sameOrigin.status).toBe(200);
+    expect(noOrigin.status).toBe(200);
+    expect(noOrigin.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createPreflightHandler', () => {
+  it('answers an allowed preflight with the CORS headers', async () => {
+    const response = await createPreflightHandler(CREDENTIALED)(
+      request('OPTIONS', { origin: 'https://app.example.com', 'access-control-request-method': 'PATCH' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+    expect(response.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+    expect(response.headers.get('Access-Control-Allow-Methods')).toContain('PATCH');
+    expect(response.headers.get('Access-Control-Allow-Headers')).toContain('X-Session-Token');
+  });
+
+  it('rejects a preflight from a disallowed origin with 403', async () => {
+    const response = await createPreflightHandler(CREDENTIALED)(
+      request('OPTIONS', { origin: 'https://evil.example.com', 'access-control-request-method': 'PATCH' })
+    );
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+  });
+});
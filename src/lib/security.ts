@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/logger';
 
 /**
  * Security Utilities for LatentSee API
@@ -21,21 +22,83 @@ const DEFAULT_SECURITY_CONFIG: SecurityConfig = {
   allowCredentials: true
 };
 
+const logger = createLogger('security');
+
+/**
+ * Read a comma-separated origin list (e.g. CORS_ADMIN_ORIGINS), falling back to `defaults`
+ */
+function originsFromEnv(name: string, defaults: string[]): string[] {
+  const configured = process.env[name]?.split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+
+  return configured && configured.length > 0 ? configured : defaults;
+}
+
+/**
+ * In development any localhost port is allowed, matched on the hostname
+ * rather than a substring so `localhost.evil.com` doesn't qualify
+ */
+function isLocalDevelopmentOrigin(origin: string): boolean {
+  if (process.env.NODE_ENV !== 'development') return false;
+
+  try {
+    const { hostname } = new URL(origin);
+    return hostname === 'localhost' || hostname === '127.0.0.1';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Browsers send Origin on same-origin writes too (the dashboard calling its
+ * own API); those aren't cross-origin and need no allow-list entry
+ */
+function isSameOrigin(request: NextRequest, origin: string): boolean {
+  const host = request.headers.get('x-forwarded-host') || request.headers.get('host');
+  if (!host) return false;
+
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a cross-origin `origin` may call an endpoint. A wildcard only
+ * counts for profiles without credentials: browsers refuse credentialed
+ * responses to `*`, and echoing any origin back would defeat the allow-list.
+ */
+function isAllowedOrigin(origin: string, config: SecurityConfig): boolean {
+  return (!config.allowCredentials && config.corsOrigins.includes('*')) ||
+         config.corsOrigins.includes(origin) ||
+         isLocalDevelopmentOrigin(origin);
+}
+
 /**
  * Standard CORS headers for API responses
+ *
+ * Allowed origins are echoed back (with credentials when the profile allows
+ * them); public profiles answer `*`. Disallowed origins get no
+ * Access-Control-Allow-Origin at all, so the browser withholds the response.
  */
 export function getCorsHeaders(request?: NextRequest, config?: Partial<SecurityConfig>): Record<string, string> {
   const securityConfig = { ...DEFAULT_SECURITY_CONFIG, ...config };
   const origin = request?.headers.get('origin') || '';
-  
-  // Check if the origin is allowed
-  const isAllowedOrigin = securityConfig.corsOrigins.includes('*') || 
-                         securityConfig.corsOrigins.includes(origin) ||
-                         (process.env.NODE_ENV === 'development' && origin.includes('localhost'));
-  
+  const isPublic = !securityConfig.allowCredentials && securityConfig.corsOrigins.includes('*');
+  const isAllowed = origin !== '' && isAllowedOrigin(origin, securityConfig);
+
   return {
-    'Access-Control-Allow-Origin': isAllowedOrigin ? origin : securityConfig.corsOrigins[0] || '*',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    ...(isPublic
+      ? { 'Access-Control-Allow-Origin': '*' }
+      : {
+        ...(isAllowed ? { 'Access-Control-Allow-Origin': origin } : {}),
+        ...(isAllowed && securityConfig.allowCredentials ? { 'Access-Control-Allow-Credentials': 'true' } : {}),
+        // The response depends on Origin, so shared caches must key on it
+        'Vary': 'Origin'
+      }),
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
     'Access-Control-Allow-Headers': [
       'Content-Type',
       'Authorization', 
@@ -44,7 +107,8 @@ export function getCorsHeaders(request?: NextRequest, config?: Partial<SecurityC
       'Origin',
       'Cache-Control',
       'If-None-Match',
-      'X-Request-ID'
+      'X-Request-ID',
+      'X-Session-Token'
     ].join(', '),
     'Access-Control-Expose-Headers': [
       'X-Cache-Status',
@@ -57,8 +121,7 @@ export function getCorsHeaders(request?: NextRequest, config?: Partial<SecurityC
       'ETag',
       'Retry-After'
     ].join(', '),
-    'Access-Control-Max-Age': '86400',
-    ...(securityConfig.allowCredentials ? { 'Access-Control-Allow-Credentials': 'true' } : {})
+    'Access-Control-Max-Age': '86400'
   };
 }
 
@@ -91,6 +154,11 @@ export function getSecurityHeaders(): Record<string, string> {
 
 /**
  * Apply security headers to any NextResponse
+ *
+ * CORS headers always come from the profile. Headers a route exposes itself
+ * (Access-Control-Expose-Headers) or varies on (Vary) are kept alongside
+ * the standard ones, and a route's own Cache-Control wins over the no-cache
+ * default.
  */
 export function applySecurityHeaders(
   response: NextResponse,
@@ -98,12 +166,26 @@ export function applySecurityHeaders(
   config?: Partial<SecurityConfig>
 ): NextResponse {
   const corsHeaders = getCorsHeaders(request, config);
-  const securityHeaders = getSecurityHeaders();
-  
-  // Apply all headers
-  Object.entries({ ...corsHeaders, ...securityHeaders }).forEach(([key, value]) => {
+  const routeExposed = response.headers.get('Access-Control-Expose-Headers');
+  if (routeExposed) {
+    const exposed = new Set([...corsHeaders['Access-Control-Expose-Headers'].split(', '), ...routeExposed.split(/,\s*/)]);
+    corsHeaders['Access-Control-Expose-Headers'] = Array.from(exposed).join(', ');
+  }
+  const routeVary = response.headers.get('Vary');
+  if (routeVary && corsHeaders['Vary']) {
+    const vary = new Set([...routeVary.split(/,\s*/), corsHeaders['Vary']]);
+    corsHeaders['Vary'] = Array.from(vary).join(', ');
+  }
+
+  Object.entries(corsHeaders).forEach(([key, value]) => {
     response.headers.set(key, value);
   });
+
+  Object.entries(getSecurityHeaders()).forEach(([key, value]) => {
+    if (!response.headers.has(key)) {
+      response.headers.set(key, value);
+    }
+  });
   
   return response;
 }
@@ -126,10 +208,7 @@ export function isValidOrigin(request: NextRequest, config?: Partial<SecurityCon
   // Allow requests with no origin (like direct API calls)
   if (!origin) return true;
   
-  // Check against allowed origins
-  return securityConfig.corsOrigins.includes('*') ||
-         securityConfig.corsOrigins.includes(origin) ||
-         (process.env.NODE_ENV === 'development' && origin.includes('localhost'));
+  return isSameOrigin(request, origin) || isAllowedOrigin(origin, securityConfig);
 }
 
 /**
@@ -179,30 +258,44 @@ export function validateRequestSize(request: NextRequest, maxSizeKB: number = 10
 
 /**
  * Security middleware wrapper for API routes
+ *
+ * Every route handler is exported through this (see SECURITY_PROFILES), so
+ * origin checks, preflights and security headers are applied in one place.
+ *
+ * @example
+ * export const GET = withSecurity(getProducts, SECURITY_PROFILES.PUBLIC_API);
+ * export const OPTIONS = createPreflightHandler(SECURITY_PROFILES.PUBLIC_API);
  */
-export function withSecurity(
-  handler: (request: NextRequest, ...args: any[]) => Promise<NextResponse>,
+export function withSecurity<TArgs extends unknown[]>(
+  handler: (request: NextRequest, ...args: TArgs) => Promise<NextResponse>,
   config?: Partial<SecurityConfig>
 ) {
-  return async (request: NextRequest, ...args: any[]): Promise<NextResponse> => {
+  return async (request: NextRequest, ...args: TArgs): Promise<NextResponse> => {
+    // Validate origin (preflights included, so a disallowed origin gets a clear 403)
+    if (!isValidOrigin(request, config)) {
+      logger.warn('Request rejected - origin not allowed', {
+        origin: request.headers.get('origin'),
+        method: request.method,
+        path: request.nextUrl.pathname
+      });
+      return applySecurityHeaders(
+        NextResponse.json({ error: 'Origin not allowed' }, { status: 403 }),
+        request,
+        config
+      );
+    }
+
     // Handle preflight requests
     if (request.method === 'OPTIONS') {
       return createPreflightResponse(request, config);
     }
     
-    // Validate origin
-    if (!isValidOrigin(request, config)) {
-      return NextResponse.json(
-        { error: 'Origin not allowed' },
-        { status: 403 }
-      );
-    }
-    
     // Validate request size
     if (!validateRequestSize(request)) {
-      return NextResponse.json(
-        { error: 'Request too large' },
-        { status: 413 }
+      return applySecurityHeaders(
+        NextResponse.json({ error: 'Request too large' }, { status: 413 }),
+        request,
+        config
       );
     }
     
@@ -210,7 +303,10 @@ export function withSecurity(
       const response = await handler(request, ...args);
       return applySecurityHeaders(response, request, config);
     } catch (error) {
-      console.error('Security middleware error:', error);
+      logger.error('Unhandled error in secured route', error as Error, {
+        method: request.method,
+        path: request.nextUrl.pathname
+      });
       const errorResponse = NextResponse.json(
         { error: 'Internal server error' },
         { status: 500 }
@@ -221,28 +317,44 @@ export function withSecurity(
 }
 
 /**
- * Rate limiting and security configuration for different endpoint types
+ * OPTIONS export for a route; withSecurity answers the preflight itself
+ */
+export function createPreflightHandler(config?: Partial<SecurityConfig>) {
+  return withSecurity(async (request: NextRequest) => createPreflightResponse(request, config), config);
+}
+
+/**
+ * Security configuration for different endpoint types
+ *
+ * - PUBLIC_API: reads anyone may embed; no cookies cross-origin
+ * - CREDENTIALED_API: writes and session-bound data; credentialed CORS for listed
+ *   origins. A CORS policy only: routes do no authentication of their own
+ * - ADMIN_API: admin endpoints; credentialed CORS for listed origins
+ *
+ * Origin lists are comma-separated env vars (CORS_PUBLIC_ORIGINS,
+ * CORS_CREDENTIALED_ORIGINS, CORS_ADMIN_ORIGINS) read at startup. Same-origin
+ * requests are always allowed.
  */
 export const SECURITY_PROFILES = {
   PUBLIC_API: {
-    corsOrigins: ['*'],
+    corsOrigins: originsFromEnv('CORS_PUBLIC_ORIGINS', ['*']),
     allowCredentials: false
   },
   
-  AUTHENTICATED_API: {
-    corsOrigins: process.env.NODE_ENV === 'production' 
+  CREDENTIALED_API: {
+    corsOrigins: originsFromEnv('CORS_CREDENTIALED_ORIGINS', process.env.NODE_ENV === 'production' 
       ? ['https://latentsee.com']
-      : ['http://localhost:3000'],
+      : ['http://localhost:3000']),
     allowCredentials: true
   },
   
   ADMIN_API: {
-    corsOrigins: process.env.NODE_ENV === 'production'
+    corsOrigins: originsFromEnv('CORS_ADMIN_ORIGINS', process.env.NODE_ENV === 'production'
       ? ['https://admin.latentsee.com']
-      : ['http://localhost:3000'],
+      : ['http://localhost:3000']),
     allowCredentials: true
   }
-};
+} satisfies Record<string, SecurityConfig>;
 
 /**
  * Generate nonce for CSP
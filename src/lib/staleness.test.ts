@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { repository } from '@/lib/repository';
+import { measureStaleness } from './staleness';
+
+// No Supabase settings under test, so this is the in-memory repository
+describe('measureStaleness', () => {
+  it('reports products the database has moved past', async () => {
+    const [served] = await repository.getProducts({ limit: 1, offset: 0, sort: 'updated_desc', fields: 'full' });
+    await repository.updateProduct(served.id, { inventory: served.inventory + 1 });
+    await repository.updateProduct(served.id, { inventory: served.inventory + 2 });
+
+    const report = await measureStaleness([served], 'request');
+
+    expect(report).toMatchObject({ checked: true, checkedItems: 1, staleItems: 1, maxVersionLag: 2 });
+  });
+
+  it("leaves the request's database attempts untouched", async () => {
+    const [served] = await repository.getProducts({ limit: 1, offset: 0, sort: 'updated_desc', fields: 'full' }, 'cache-hit');
+    repository.takeAttempts('cache-hit');
+
+    await measureStaleness([served], 'cache-hit');
+
+    expect(repository.takeAttempts('cache-hit')).toBe(0);
+  });
+});
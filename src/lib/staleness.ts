@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from 'uuid';
+import { repository } from '@/lib/repository';
+import { createLogger } from '@/lib/logger';
+import { Product } from '@/lib/types';
+
+/**
+ * Staleness Measurement for Cached Responses
+ *
+ * Compares the product versions a cached route is about to serve with the
+ * authoritative versions in the database, so consistency violations can be
+ * charted alongside latency.
+ *
+ * Checks cost an extra database round trip, so they run when the client asks
+ * (`verify_staleness=true`) or for a sampled fraction of cached responses
+ * (STALENESS_SAMPLE_RATE, 0-1, default 0).
+ */
+
+export interface StalenessReport {
+  checked: boolean;
+  checkedItems: number;
+  staleItems: number;
+  maxVersionLag: number;
+  /**
+   * Longest time any served item has been out of date: now minus the
+   * authoritative updated_at of the newer version
+   */
+  maxStalenessMs: number;
+  checkDuration: number;
+}
+
+const SAMPLE_RATE = Math.min(1, Math.max(0, parseFloat(process.env.STALENESS_SAMPLE_RATE || '0') || 0));
+
+export const UNCHECKED_STALENESS: StalenessReport = {
+  checked: false,
+  checkedItems: 0,
+  staleItems: 0,
+  maxVersionLag: 0,
+  maxStalenessMs: 0,
+  checkDuration: 0
+};
+
+/**
+ * Decide whether this response gets a staleness check
+ */
+export function shouldVerifyStaleness(searchParams: URLSearchParams): boolean {
+  const requested = searchParams.get('verify_staleness');
+  if (requested === 'true') return true;
+  if (requested === 'false') return false;
+  return SAMPLE_RATE > 0 && Math.random() < SAMPLE_RATE;
+}
+
+/**
+ * Compare served products against their current database versions
+ *
+ * Never throws: a failed check is logged and reported as unchecked.
+ */
+export async function measureStaleness(
+  products: Product[],
+  requestId: string = uuidv4()
+): Promise<StalenessReport> {
+  const logger = createLogger(requestId);
+  const startTime = performance.now();
+  // Counted apart from the request, so the check doesn't show up in its X-DB-Attempts
+  const checkId = `${requestId}:staleness`;
+
+  try {
+    const current = await repository.getProductVersions(products.map(p => p.id), checkId);
+    const currentById = new Map(current.map(v => [v.id, v]));
+    const now = Date.now();
+
+    let staleItems = 0;
+    let maxVersionLag = 0;
+    let maxStalenessMs = 0;
+
+    for (const product of products) {
+      const authoritative = currentById.get(product.id);
+      if (!authoritative || authoritative.version <= product.version) continue;
+
+      staleItems++;
+      maxVersionLag = Math.max(maxVersionLag, authoritative.version - product.version);
+      maxStalenessMs = Math.max(maxStalenessMs, now - new Date(authoritative.updated_at).getTime());
+    }
+
+    const report: StalenessReport = {
+      checked: true,
+      checkedItems: products.length,
+      staleItems,
+      maxVersionLag,
+      maxStalenessMs: Math.max(0, Math.round(maxStalenessMs)),
+      checkDuration: Math.round((performance.now() - startTime) * 100) / 100
+    };
+
+    logger.info('Staleness check completed', { ...report });
+    return report;
+  } catch (error) {
+    logger.error('Staleness check failed', error as Error);
+    return UNCHECKED_STALENESS;
+  } finally {
+    repository.takeAttempts(checkId);
+  }
+}
+
+/**
+ * Response headers describing a staleness report
+ */
+export function stalenessHeaders(report: StalenessReport): Record<string, string> {
+  return {
+    'X-Staleness-Checked': report.checked.toString(),
+    'X-Stale-Items': report.staleItems.toString(),
+    'X-Max-Version-Lag': report.maxVersionLag.toString(),
+    'X-Staleness-Age': `${report.maxStalenessMs}ms`,
+    'X-Staleness-Check-Time': `${report.checkDuration}ms`
+  };
+}
@@ -1,26 +1,69 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
+import type { ZodIssue } from 'zod';
 import { createLogger } from '@/lib/logger';
 import { 
   Product, 
   GetProductsQuery, 
   DatabaseError, 
   ValidationError, 
-  TimeoutError,
-  DatabaseConfig 
+  DatabaseConfig,
+  ProductVersion,
+  Cart,
+  CartItem,
+  Order,
+  PriceChange,
+  ProductFields,
+  ProductSchema,
+  ProductSummarySchema
 } from '@/lib/types';
+import { PRODUCT_SORT_KEYS } from '@/lib/pagination';
+import type { CircuitBreakerStatus } from '@/lib/circuitBreaker';
+import { DatabaseExecutor, loadExecutorConfig } from '@/lib/repository/executor';
+import { faultInjector } from '@/lib/repository/faults';
+import type { NewCartItem, ProductChanges, ProductRepository } from '@/lib/repository/types';
+
+/**
+ * Columns selected for each product list projection
+ */
+const PRODUCT_COLUMNS: Record<ProductFields, string> = {
+  summary: 'id, name, price, category, updated_at, created_at, version',
+  full: '*'
+};
+
+/**
+ * A product row that failed schema validation (ValidationError details)
+ */
+interface InvalidProductRow {
+  index: number;
+  id: unknown;
+  issues: ZodIssue[];
+}
+
+/**
+ * Quote a value for a PostgREST logical filter (`or=(...)`), where commas,
+ * dots and parentheses are otherwise syntax
+ */
+function filterValue(value: string | number): string {
+  if (typeof value === 'number') {
+    return value.toString();
+  }
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
 
 /**
  * Production-grade Supabase client with connection pooling, 
  * comprehensive error handling, and observability
  */
-class SupabaseService {
+export class SupabaseService implements ProductRepository {
+  readonly kind = 'supabase' as const;
   private client: SupabaseClient;
   private config: DatabaseConfig;
-  private logger = createLogger('supabase-service');
+  private executor: DatabaseExecutor;
 
   constructor() {
     this.config = this.validateConfig();
+    this.executor = new DatabaseExecutor('supabase', this.config, faultInjector);
     this.client = createClient(this.config.url, this.config.anonKey, {
       auth: {
         autoRefreshToken: true,
@@ -63,51 +106,22 @@ class SupabaseService {
     return {
       url,
       anonKey,
-      maxRetries: parseInt(process.env.DB_MAX_RETRIES || '3', 10),
-      timeoutMs: parseInt(process.env.DB_TIMEOUT_MS || '5000', 10)
+      ...loadExecutorConfig()
     };
   }
 
   /**
-   * Creates a timeout promise that rejects after specified milliseconds
+   * Database attempts made for a request so far (including retries), then forget them
    */
-  private createTimeoutPromise<T>(timeoutMs: number): Promise<T> {
-    return new Promise((_, reject) => {
-      setTimeout(() => {
-        reject(new TimeoutError(`Operation timed out after ${timeoutMs}ms`, timeoutMs));
-      }, timeoutMs);
-    });
+  takeAttempts(requestId: string): number {
+    return this.executor.takeAttempts(requestId);
   }
 
   /**
-   * Executes a database operation with timeout and retry logic
+   * Circuit breaker state, for health reporting
    */
-  private async executeWithTimeout<T>(
-    operation: () => Promise<T>,
-    operationName: string,
-    requestId: string = uuidv4()
-  ): Promise<T> {
-    const logger = createLogger(requestId);
-    
-    return logger.timeFunction(`supabase.${operationName}`, async () => {
-      try {
-        return await Promise.race([
-          operation(),
-          this.createTimeoutPromise<T>(this.config.timeoutMs)
-        ]);
-      } catch (error) {
-        if (error instanceof TimeoutError) {
-          logger.error(`Database operation ${operationName} timed out`, error);
-          throw error;
-        }
-        
-        logger.error(`Database operation ${operationName} failed`, error as Error);
-        throw new DatabaseError(
-          `Failed to execute ${operationName}: ${(error as Error).message}`,
-          error
-        );
-      }
-    });
+  getCircuitStatus(): CircuitBreakerStatus {
+    return this.executor.getCircuitStatus();
   }
 
   /**
@@ -118,21 +132,31 @@ class SupabaseService {
    * @returns Promise<Product[]> - Array of validated products
    */
   async getProducts(
-    query: GetProductsQuery = { limit: 10, offset: 0 },
+    query: GetProductsQuery = { limit: 10, offset: 0, sort: 'updated_desc', fields: 'full' },
     requestId: string = uuidv4()
   ): Promise<Product[]> {
     const logger = createLogger(requestId);
     
-    return this.executeWithTimeout(async () => {
+    return this.executor.execute(async (signal) => {
       logger.info('Fetching products from database', { query });
 
+      // `id` breaks ties on the sort column so the order (and every cursor) is total
+      const { column, ascending } = PRODUCT_SORT_KEYS[query.sort];
       let queryBuilder = this.client
         .from('products')
-        .select('id, name, price, category, updated_at, created_at, version')
-        .order('updated_at', { ascending: false })
+        .select(PRODUCT_COLUMNS[query.fields])
+        .order(column, { ascending })
+        .order('id', { ascending })
         .limit(query.limit);
 
-      if (query.offset > 0) {
+      if (query.cursor) {
+        // Keyset: rows strictly after the cursor's (sort value, id)
+        const op = ascending ? 'gt' : 'lt';
+        const value = filterValue(query.cursor.value);
+        queryBuilder = queryBuilder.or(
+          `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${query.cursor.id})`
+        );
+      } else if (query.offset > 0) {
         queryBuilder = queryBuilder.range(query.offset, query.offset + query.limit - 1);
       }
 
@@ -140,7 +164,30 @@ class SupabaseService {
         queryBuilder = queryBuilder.eq('category', query.category);
       }
 
-      const { data, error } = await queryBuilder;
+      if (query.brand) {
+        queryBuilder = queryBuilder.eq('brand', query.brand);
+      }
+
+      if (query.min_price !== undefined) {
+        queryBuilder = queryBuilder.gte('price', query.min_price);
+      }
+
+      if (query.max_price !== undefined) {
+        queryBuilder = queryBuilder.lte('price', query.max_price);
+      }
+
+      if (query.in_stock !== undefined) {
+        queryBuilder = query.in_stock
+          ? queryBuilder.gt('inventory', 0)
+          : queryBuilder.eq('inventory', 0);
+      }
+
+      if (query.q) {
+        const pattern = filterValue(`*${query.q}*`);
+        queryBuilder = queryBuilder.or(`name.ilike.${pattern},description.ilike.${pattern}`);
+      }
+
+      const { data, error } = await queryBuilder.abortSignal(signal);
 
       if (error) {
         logger.error('Supabase query failed', new Error(error.message), { 
@@ -155,26 +202,36 @@ class SupabaseService {
         return [];
       }
 
-      // Validate returned data structure
-      try {
-        const validatedProducts = data.map(item => {
-          // Basic runtime validation - Zod validation would be overkill here
-          // since we control the SELECT fields
-          if (!item.id || !item.name || typeof item.price !== 'number') {
-            throw new ValidationError(`Invalid product data structure: ${JSON.stringify(item)}`);
-          }
-          return item as Product;
-        });
+      // Validate every row so a failure reports all malformed rows, not just the first
+      const schema = query.fields === 'full' ? ProductSchema : ProductSummarySchema;
+      const invalidRows: InvalidProductRow[] = [];
+      const validatedProducts: Product[] = [];
 
-        logger.info('Successfully fetched and validated products', { 
-          count: validatedProducts.length 
-        });
-        
-        return validatedProducts;
-      } catch (validationError) {
-        logger.error('Product data validation failed', validationError as Error);
+      data.forEach((row, index) => {
+        const result = schema.safeParse(row);
+        if (result.success) {
+          // Summary rows carry only the projected columns
+          validatedProducts.push(result.data as Product);
+        } else {
+          invalidRows.push({ index, id: (row as { id?: unknown }).id, issues: result.error.issues });
+        }
+      });
+
+      if (invalidRows.length > 0) {
+        const validationError = new ValidationError(
+          `${invalidRows.length} of ${data.length} product rows failed validation`,
+          invalidRows
+        );
+        logger.error('Product data validation failed', validationError, { invalidRows });
         throw validationError;
       }
+
+      logger.info('Successfully fetched and validated products', { 
+        count: validatedProducts.length,
+        fields: query.fields
+      });
+      
+      return validatedProducts;
     }, 'getProducts', requestId);
   }
 
@@ -191,13 +248,14 @@ class SupabaseService {
   ): Promise<Product | null> {
     const logger = createLogger(requestId);
     
-    return this.executeWithTimeout(async () => {
+    return this.executor.execute(async (signal) => {
       logger.info('Fetching product by ID', { productId });
 
       const { data, error } = await this.client
         .from('products')
         .select('*')
         .eq('id', productId)
+        .abortSignal(signal)
         .single();
 
       if (error) {
@@ -227,6 +285,412 @@ class SupabaseService {
     }, 'getProductById', requestId);
   }
 
+  /**
+   * Fetch the authoritative version of each product - for staleness checks
+   * 
+   * @param productIds - Product UUIDs to look up
+   * @param requestId - Request tracking ID
+   * @returns Promise<ProductVersion[]> - Current id/version/updated_at per product found
+   */
+  async getProductVersions(
+    productIds: string[],
+    requestId: string = uuidv4()
+  ): Promise<ProductVersion[]> {
+    const logger = createLogger(requestId);
+
+    if (productIds.length === 0) {
+      return [];
+    }
+    
+    return this.executor.execute(async (signal) => {
+      const { data, error } = await this.client
+        .from('products')
+        .select('id, version, updated_at')
+        .in('id', productIds)
+        .abortSignal(signal);
+
+      if (error) {
+        logger.error('Supabase version query failed', new Error(error.message), { 
+          code: error.code,
+          details: error.details 
+        });
+        throw new DatabaseError(`Database query failed: ${error.message}`, error);
+      }
+
+      return (data ?? []) as ProductVersion[];
+    }, 'getProductVersions', requestId);
+  }
+
+  /**
+   * Update a product's price and/or inventory
+   * 
+   * The products trigger bumps `version` and `updated_at` on every update,
+   * so the returned row carries the new authoritative version.
+   * 
+   * @param productId - Product UUID
+   * @param changes - Fields to update
+   * @param requestId - Request tracking ID
+   * @returns Promise<Product | null> - Updated product or null if not found
+   */
+  async updateProduct(
+    productId: string,
+    changes: ProductChanges,
+    requestId: string = uuidv4()
+  ): Promise<Product | null> {
+    const logger = createLogger(requestId);
+    
+    // Not retried: if a timed-out attempt committed, the products trigger would bump `version` again
+    return this.executor.execute(async (signal) => {
+      logger.info('Updating product', { productId, changes });
+
+      const { data, error } = await this.client
+        .from('products')
+        .update(changes)
+        .eq('id', productId)
+        .select('*')
+        .abortSignal(signal)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          // No rows matched
+          logger.info('Product not found for update', { productId });
+          return null;
+        }
+        logger.error('Supabase update failed', new Error(error.message), { 
+          code: error.code,
+          details: error.details 
+        });
+        throw new DatabaseError(`Database update failed: ${error.message}`, error);
+      }
+
+      if (!data || !data.id || typeof data.price !== 'number') {
+        throw new ValidationError(`Invalid product data structure: ${JSON.stringify(data)}`);
+      }
+
+      logger.info('Successfully updated product', { productId, version: data.version });
+      return data as Product;
+    }, 'updateProduct', requestId, { retry: false });
+  }
+
+  /**
+   * Set a product's inventory only if its version is still `expectedVersion`
+   * 
+   * Optimistic concurrency: the products trigger bumps `version` on every
+   * update, so a concurrent write makes this a no-op and the caller retries.
+   * 
+   * @param productId - Product UUID
+   * @param expectedVersion - Version the new inventory was computed from
+   * @param inventory - New inventory level
+   * @param requestId - Request tracking ID
+   * @returns Promise<Product | null> - Updated product, or null on a version conflict
+   */
+  async compareAndSetInventory(
+    productId: string,
+    expectedVersion: number,
+    inventory: number,
+    requestId: string = uuidv4()
+  ): Promise<Product | null> {
+    const logger = createLogger(requestId);
+
+    return this.executor.execute(async (signal) => {
+      const { data, error } = await this.client
+        .from('products')
+        .update({ inventory })
+        .eq('id', productId)
+        .eq('version', expectedVersion)
+        .select('*')
+        .abortSignal(signal)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          // Version moved on (or product gone) - nothing was written
+          logger.info('Inventory compare-and-set conflict', { productId, expectedVersion });
+          return null;
+        }
+        logger.error('Supabase inventory update failed', new Error(error.message), { 
+          code: error.code,
+          details: error.details 
+        });
+        throw new DatabaseError(`Database update failed: ${error.message}`, error);
+      }
+
+      if (!data || !data.id || typeof data.inventory !== 'number') {
+        throw new ValidationError(`Invalid product data structure: ${JSON.stringify(data)}`);
+      }
+
+      logger.info('Inventory compare-and-set succeeded', { productId, inventory, version: data.version });
+      return data as Product;
+    }, 'compareAndSetInventory', requestId, { retry: false });
+  }
+
+  /**
+   * Fetch full product rows by ID - authoritative prices for checkout
+   * 
+   * @param productIds - Product UUIDs to look up
+   * @param requestId - Request tracking ID
+   * @returns Promise<Product[]> - Products found (missing IDs are omitted)
+   */
+  async getProductsByIds(
+    productIds: string[],
+    requestId: string = uuidv4()
+  ): Promise<Product[]> {
+    const logger = createLogger(requestId);
+
+    if (productIds.length === 0) {
+      return [];
+    }
+
+    return this.executor.execute(async (signal) => {
+      const { data, error } = await this.client
+        .from('products')
+        .select('*')
+        .in('id', productIds)
+        .abortSignal(signal);
+
+      if (error) {
+        logger.error('Supabase query failed', new Error(error.message), { 
+          code: error.code,
+          details: error.details 
+        });
+        throw new DatabaseError(`Database query failed: ${error.message}`, error);
+      }
+
+      return (data ?? []) as Product[];
+    }, 'getProductsByIds', requestId);
+  }
+
+  /**
+   * Return the newest open cart for a session, creating one if every cart
+   * it has is checked out
+   * 
+   * @param sessionId - Client session identifier
+   * @param requestId - Request tracking ID
+   * @returns Promise<Cart> - Cart with its items
+   */
+  async getOrCreateCart(
+    sessionId: string,
+    requestId: string = uuidv4()
+  ): Promise<Cart> {
+    const logger = createLogger(requestId);
+
+    const existing = await this.executor.execute(async (signal) => {
+      const { data, error: findError } = await this.client
+        .from('carts')
+        .select('*, items:cart_items(*), orders(id)')
+        .eq('session_id', sessionId)
+        .is('orders', null) // open carts only: checked-out carts have an order
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .abortSignal(signal);
+
+      if (findError) {
+        logger.error('Supabase cart lookup failed', new Error(findError.message), { 
+          code: findError.code,
+          details: findError.details 
+        });
+        throw new DatabaseError(`Database query failed: ${findError.message}`, findError);
+      }
+
+      if (!data || data.length === 0) {
+        return null;
+      }
+      const { orders: _orders, ...cart } = data[0];
+      return cart as Cart;
+    }, 'getOrCreateCart', requestId);
+
+    if (existing) {
+      return existing;
+    }
+
+    // Not retried: a timed-out insert may have committed, and a retry would open a second cart
+    return this.executor.execute(async (signal) => {
+      const { data, error } = await this.client
+        .from('carts')
+        .insert({ session_id: sessionId })
+        .select('*')
+        .abortSignal(signal)
+        .single();
+
+      if (error) {
+        logger.error('Supabase cart insert failed', new Error(error.message), { 
+          code: error.code,
+          details: error.details 
+        });
+        throw new DatabaseError(`Database insert failed: ${error.message}`, error);
+      }
+
+      logger.info('Created cart', { cartId: data.id });
+      return { ...data, items: [] } as Cart;
+    }, 'getOrCreateCart', requestId, { retry: false });
+  }
+
+  /**
+   * Fetch a cart with its items
+   * 
+   * @param cartId - Cart UUID
+   * @param requestId - Request tracking ID
+   * @returns Promise<Cart | null> - Cart or null if not found
+   */
+  async getCart(
+    cartId: string,
+    requestId: string = uuidv4()
+  ): Promise<Cart | null> {
+    const logger = createLogger(requestId);
+
+    return this.executor.execute(async (signal) => {
+      const { data, error } = await this.client
+        .from('carts')
+        .select('*, items:cart_items(*)')
+        .eq('id', cartId)
+        .abortSignal(signal)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          logger.info('Cart not found', { cartId });
+          return null;
+        }
+        logger.error('Supabase cart query failed', new Error(error.message), { 
+          code: error.code,
+          details: error.details 
+        });
+        throw new DatabaseError(`Database query failed: ${error.message}`, error);
+      }
+
+      return data as Cart;
+    }, 'getCart', requestId);
+  }
+
+  /**
+   * Add an item to a cart at the price the shopper saw
+   * 
+   * @param cartId - Cart UUID
+   * @param item - Product, observed price, quantity and the mode the price was read with
+   * @param requestId - Request tracking ID
+   * @returns Promise<CartItem | null> - Inserted cart item, or null if the cart is checked out
+   */
+  async addCartItem(
+    cartId: string,
+    item: NewCartItem,
+    requestId: string = uuidv4()
+  ): Promise<CartItem | null> {
+    const logger = createLogger(requestId);
+
+    return this.executor.execute(async (signal) => {
+      const { data, error } = await this.client
+        .from('cart_items')
+        .insert({ cart_id: cartId, ...item })
+        .select('*')
+        .abortSignal(signal)
+        .single();
+
+      if (error) {
+        // check_violation from the trigger that closes checked-out carts
+        if (error.code === '23514' && error.message.includes('checked out')) {
+          logger.warn('Cart item rejected - cart already checked out', { cartId });
+          return null;
+        }
+        logger.error('Supabase cart item insert failed', new Error(error.message), { 
+          code: error.code,
+          details: error.details 
+        });
+        throw new DatabaseError(`Database insert failed: ${error.message}`, error);
+      }
+
+      // Keep the cart's updated_at in step with its contents
+      await this.client
+        .from('carts')
+        .update({ updated_at: new Date().toISOString() })
+        .eq('id', cartId)
+        .abortSignal(signal);
+
+      logger.info('Added cart item', { cartId, productId: item.product_id, mode: item.mode });
+      return data as CartItem;
+    }, 'addCartItem', requestId, { retry: false });
+  }
+
+  /**
+   * Fetch the order a cart was checked out with
+   * 
+   * @param cartId - Cart UUID
+   * @param requestId - Request tracking ID
+   * @returns Promise<Order | null> - The cart's order, or null while it is open
+   */
+  async getOrder(
+    cartId: string,
+    requestId: string = uuidv4()
+  ): Promise<Order | null> {
+    const logger = createLogger(requestId);
+
+    return this.executor.execute(async (signal) => {
+      const { data, error } = await this.client
+        .from('orders')
+        .select('*')
+        .eq('cart_id', cartId)
+        .abortSignal(signal)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Supabase order query failed', new Error(error.message), { 
+          code: error.code,
+          details: error.details 
+        });
+        throw new DatabaseError(`Database query failed: ${error.message}`, error);
+      }
+
+      return data as Order | null;
+    }, 'getOrder', requestId);
+  }
+
+  /**
+   * Record an order for a cart
+   * 
+   * @param cartId - Cart UUID
+   * @param totalAmount - Total at checkout prices
+   * @param priceChanges - Items whose price drifted since they were added
+   * @param requestId - Request tracking ID
+   * @returns Promise<Order | null> - Inserted order, or null if the cart already has one
+   */
+  async createOrder(
+    cartId: string,
+    totalAmount: number,
+    priceChanges: PriceChange[],
+    requestId: string = uuidv4()
+  ): Promise<Order | null> {
+    const logger = createLogger(requestId);
+
+    return this.executor.execute(async (signal) => {
+      const { data, error } = await this.client
+        .from('orders')
+        .insert({
+          cart_id: cartId,
+          total_amount: totalAmount,
+          price_changes: priceChanges
+        })
+        .select('*')
+        .abortSignal(signal)
+        .single();
+
+      if (error) {
+        // unique_violation on orders.cart_id: another checkout got there first
+        if (error.code === '23505') {
+          logger.warn('Order rejected - cart already checked out', { cartId });
+          return null;
+        }
+        logger.error('Supabase order insert failed', new Error(error.message), { 
+          code: error.code,
+          details: error.details 
+        });
+        throw new DatabaseError(`Database insert failed: ${error.message}`, error);
+      }
+
+      logger.info('Created order', { cartId, orderId: data.id, priceChanges: priceChanges.length });
+      return data as Order;
+    }, 'createOrder', requestId, { retry: false });
+  }
+
   /**
    * Health check for database connectivity
    */
@@ -234,10 +698,11 @@ class SupabaseService {
     const logger = createLogger(requestId);
     
     try {
-      await this.executeWithTimeout(async () => {
+      await this.executor.execute(async (signal) => {
         const { data, error } = await this.client
           .from('products')
-          .select('count', { count: 'exact', head: true });
+          .select('count', { count: 'exact', head: true })
+          .abortSignal(signal);
         
         if (error) {
           throw new DatabaseError(`Health check failed: ${error.message}`, error);
@@ -254,33 +719,3 @@ class SupabaseService {
     }
   }
 }
-
-// Singleton instance
-let supabaseService: SupabaseService | null = null;
-
-/**
- * Get singleton instance of SupabaseService
- * 
- * This ensures connection reuse across requests in serverless environments
- * while still allowing for proper error handling on initialization
- */
-export function getSupabaseService(): SupabaseService {
-  if (!supabaseService) {
-    try {
-      supabaseService = new SupabaseService();
-    } catch (error) {
-      // Re-throw with more context for debugging
-      throw new Error(
-        `Failed to initialize Supabase service: ${(error as Error).message}\n\n` +
-        'Please ensure your .env.local file contains:\n' +
-        '- NEXT_PUBLIC_SUPABASE_URL\n' +
-        '- NEXT_PUBLIC_SUPABASE_ANON_KEY\n\n' +
-        'And that you have run the database migrations in the migrations/ folder.'
-      );
-    }
-  }
-  return supabaseService;
-}
-
-// Export for direct use in API routes
-export const supabase = getSupabaseService();
\ No newline at end of file
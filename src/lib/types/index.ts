@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { CursorSchema, ProductSortSchema } from '@/lib/pagination';
 
 /**
  * Database Types - Strongly typed schema definitions
@@ -12,20 +13,59 @@ export const ProductSchema = z.object({
   currency: z.string().length(3, 'Currency must be 3 characters').default('INR'),
   inventory: z.number().int().min(0, 'Inventory cannot be negative').default(100),
   category: z.string().min(1, 'Category is required').max(100, 'Category name too long'),
-  image_url: z.string().url().optional().or(z.literal('')),
-  description: z.string().optional(),
-  brand: z.string().max(100).optional(),
-  updated_at: z.string().datetime('Invalid datetime format'),
-  created_at: z.string().datetime('Invalid datetime format'),
+  // Nullable columns come back as null from the database
+  image_url: z.string().url().or(z.literal('')).nullish(),
+  description: z.string().nullish(),
+  brand: z.string().max(100).nullish(),
+  updated_at: z.string().datetime({ offset: true, message: 'Invalid datetime format' }),
+  created_at: z.string().datetime({ offset: true, message: 'Invalid datetime format' }),
   version: z.number().int().min(1, 'Version must be positive integer')
 });
 
 // API Request/Response schemas
+// Columns a product list returns: summary skips inventory, currency and descriptive fields
+export const ProductFieldsSchema = z.enum(['summary', 'full']);
+
+export const ProductSummarySchema = ProductSchema.pick({
+  id: true,
+  name: true,
+  price: true,
+  category: true,
+  updated_at: true,
+  created_at: true,
+  version: true
+});
+
+// `cursor` (keyset, from metadata.next_cursor) and `offset` are alternatives
 export const GetProductsQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(10),
   offset: z.coerce.number().int().min(0).default(0),
-  category: z.string().max(100).optional()
-});
+  category: z.string().max(100).optional(),
+  brand: z.string().max(100).optional(),
+  min_price: z.coerce.number().int().min(0).optional(), // paise/cents, inclusive
+  max_price: z.coerce.number().int().min(0).optional(),
+  in_stock: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  // Case-insensitive match on name or description; normalized so equal searches share cache entries
+  q: z.string().trim().toLowerCase().min(1).max(100).optional(),
+  sort: ProductSortSchema.default('updated_desc'),
+  fields: ProductFieldsSchema.default('full'),
+  cursor: CursorSchema.optional()
+}).refine(
+  query => !(query.cursor && query.offset > 0),
+  { message: 'cursor and offset cannot be combined', path: ['cursor'] }
+).refine(
+  query => !query.cursor || query.cursor.sort === query.sort,
+  { message: 'cursor was issued for a different sort', path: ['cursor'] }
+).refine(
+  query => query.min_price === undefined || query.max_price === undefined || query.min_price <= query.max_price,
+  { message: 'min_price cannot exceed max_price', path: ['min_price'] }
+);
+
+// Product ID path/query parameter
+export const ProductIdSchema = z.string().uuid('Invalid product ID format');
+
+// Bounded-staleness read bound in milliseconds (0 always reads the database)
+export const MaxStalenessSchema = z.coerce.number().int().min(0).max(300000);
 
 export const ApiResponseSchema = z.object({
   data: z.array(ProductSchema).optional(),
@@ -34,7 +74,9 @@ export const ApiResponseSchema = z.object({
     requestId: z.string().uuid(),
     timestamp: z.string().datetime(),
     duration: z.number().min(0),
-    count: z.number().int().min(0).optional()
+    count: z.number().int().min(0).optional(),
+    next_cursor: z.string().nullable().optional(), // null on the last page
+    fault_profile: z.string().optional() // Injected fault profile the response ran under
   })
 });
 
@@ -48,10 +90,211 @@ export const SingleProductResponseSchema = z.object({
     duration: z.number().min(0),
     mode: z.string().optional(),
     served_from_cache: z.boolean().optional(),
-    is_fresh: z.boolean().optional()
+    is_fresh: z.boolean().optional(),
+    fault_profile: z.string().optional()
   })
 });
 
+// Cache invalidation policies applied after a write
+// - none: leave cached entries to expire on their own
+// - key: drop only the cached keys that contain the written product
+// - tag: drop every cached key tagged with the product's category
+export const InvalidationPolicySchema = z.enum(['none', 'key', 'tag']);
+
+// Product write (price/inventory) request body
+export const UpdateProductSchema = z.object({
+  price: z.number().int().min(0, 'Price must be non-negative').optional(),
+  inventory: z.number().int().min(0, 'Inventory cannot be negative').optional(),
+  invalidation: InvalidationPolicySchema.default('key')
+}).refine(
+  body => body.price !== undefined || body.inventory !== undefined,
+  { message: 'At least one of price or inventory is required' }
+);
+
+export const UpdateProductResponseSchema = z.object({
+  product: ProductSchema.optional(),
+  error: z.string().optional(),
+  invalidation: z.object({
+    policy: InvalidationPolicySchema,
+    tags: z.array(z.string()),
+    ttl_keys: z.number().int().min(0),
+    lru_keys: z.number().int().min(0)
+  }).optional(),
+  metadata: z.object({
+    requestId: z.string().uuid(),
+    timestamp: z.string().datetime(),
+    duration: z.number().min(0),
+    fault_profile: z.string().optional()
+  })
+});
+
+// How a cart item's price was read (cart_items.mode)
+export const ConsistencyModeSchema = z.enum(['fresh', 'fast', 'smart', 'session']);
+
+// Cart schemas (carts, cart_items and orders tables)
+export const CartItemSchema = z.object({
+  id: z.number().int(),
+  cart_id: z.string().uuid(),
+  product_id: z.string().uuid(),
+  added_price: z.number().int().min(0), // Price the shopper saw when adding
+  quantity: z.number().int().min(1),
+  mode: ConsistencyModeSchema,
+  added_at: z.string()
+});
+
+export const CartSchema = z.object({
+  id: z.string().uuid(),
+  session_id: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  items: z.array(CartItemSchema).default([])
+});
+
+// Drift between the price a shopper saw and the authoritative price at checkout
+export const PriceChangeSchema = z.object({
+  product_id: z.string().uuid(),
+  mode: ConsistencyModeSchema,
+  quantity: z.number().int().min(1),
+  added_price: z.number().int().min(0),
+  checkout_price: z.number().int().min(0),
+  difference: z.number().int() // checkout_price - added_price, per unit
+});
+
+export const OrderSchema = z.object({
+  id: z.number().int(),
+  cart_id: z.string().uuid(),
+  total_amount: z.number().int().min(0),
+  price_changes: z.array(PriceChangeSchema).nullable(),
+  created_at: z.string()
+});
+
+// Cart ID path parameter
+export const CartIdSchema = z.string().uuid('Invalid cart ID format');
+
+// Cart request bodies
+export const CreateCartSchema = z.object({
+  session_id: z.string().min(1, 'Session ID is required').max(255)
+});
+
+export const AddCartItemSchema = z.object({
+  product_id: ProductIdSchema,
+  quantity: z.number().int().min(1).max(100).default(1),
+  mode: ConsistencyModeSchema.default('fresh')
+});
+
+export const CartResponseSchema = z.object({
+  cart: CartSchema.optional(),
+  item: CartItemSchema.optional(),
+  order: OrderSchema.optional(),
+  price_changes: z.array(PriceChangeSchema).optional(),
+  error: z.string().optional(),
+  metadata: z.object({
+    requestId: z.string().uuid(),
+    timestamp: z.string().datetime(),
+    duration: z.number().min(0),
+    fault_profile: z.string().optional()
+  })
+});
+
+// Inventory reservation request body - `mode` is how the client read the stock level
+export const ReserveInventorySchema = z.object({
+  quantity: z.number().int().min(1).max(100).default(1),
+  mode: ConsistencyModeSchema.default('fresh'),
+  invalidation: InvalidationPolicySchema.default('key')
+});
+
+// Outcome of a compare-and-swap reservation on products.version
+export const ReservationSchema = z.object({
+  product_id: z.string().uuid(),
+  quantity: z.number().int().min(1),
+  mode: ConsistencyModeSchema,
+  // reserved, or refused because real stock ran out / the version kept moving
+  outcome: z.enum(['reserved', 'insufficient_stock', 'conflict']),
+  observed_inventory: z.number().int().min(0), // Stock level the mode served
+  observed_version: z.number().int().min(1),
+  inventory: z.number().int().min(0), // Authoritative stock after the attempt
+  version: z.number().int().min(1),
+  attempts: z.number().int().min(1),
+  conflicts: z.number().int().min(0), // Version mismatches retried
+  oversell: z.boolean() // Observed stock allowed the purchase, real stock did not
+});
+
+export const ReserveInventoryResponseSchema = z.object({
+  reservation: ReservationSchema.optional(),
+  error: z.string().optional(),
+  metadata: z.object({
+    requestId: z.string().uuid(),
+    timestamp: z.string().datetime(),
+    duration: z.number().min(0),
+    fault_profile: z.string().optional()
+  })
+});
+
+// Fault injection (see src/lib/repository/faults.ts)
+export const RepositoryOperationSchema = z.enum([
+  'getProducts',
+  'getProductById',
+  'getProductVersions',
+  'getProductsByIds',
+  'updateProduct',
+  'compareAndSetInventory',
+  'getOrCreateCart',
+  'getCart',
+  'addCartItem',
+  'getOrder',
+  'createOrder',
+  'healthCheck'
+]);
+
+const LatencyMsSchema = z.number().min(0).max(60000);
+
+// Latency added before each database attempt
+export const LatencyDistributionSchema = z.discriminatedUnion('distribution', [
+  z.object({ distribution: z.literal('none') }),
+  z.object({ distribution: z.literal('fixed'), ms: LatencyMsSchema }),
+  z.object({ distribution: z.literal('uniform'), min_ms: LatencyMsSchema, max_ms: LatencyMsSchema }),
+  z.object({ distribution: z.literal('normal'), mean_ms: LatencyMsSchema, stddev_ms: LatencyMsSchema }),
+  z.object({ distribution: z.literal('exponential'), mean_ms: LatencyMsSchema })
+]).refine(
+  latency => latency.distribution !== 'uniform' || latency.min_ms <= latency.max_ms,
+  { message: 'min_ms cannot exceed max_ms' }
+);
+
+// Faults for one operation; rates are per attempt, so retries roll again
+export const FaultRuleSchema = z.object({
+  latency: LatencyDistributionSchema.default({ distribution: 'none' }),
+  error_rate: z.number().min(0).max(1).default(0), // Retryable connection error
+  timeout_rate: z.number().min(0).max(1).default(0), // Hang until the attempt times out
+  outage: z.boolean().default(false) // Every attempt fails
+});
+
+export const FaultProfileSchema = z.object({
+  name: z.string().trim().min(1).max(64).regex(/^[\w.-]+$/, 'Use letters, digits, dot, dash or underscore'),
+  default: FaultRuleSchema.default({}),
+  // Replace the default rule for individual operations (e.g. a partial outage)
+  operations: z.record(RepositoryOperationSchema, FaultRuleSchema).default({})
+});
+
+// Rate-limit admin API (see src/lib/rateLimit/control.ts)
+export const RateLimitAlgorithmSchema = z.enum(['fixed-window', 'sliding-log', 'sliding-window', 'token-bucket']);
+
+// Temporarily replace one RATE_LIMITS entry; omitted fields keep the entry's value
+export const RateLimitOverrideRequestSchema = z.object({
+  pattern: z.string().min(1).max(200), // RATE_LIMITS key, e.g. /api/check-fast or default
+  requests: z.number().int().min(1).max(100000),
+  window_ms: z.number().int().min(1000).max(24 * 60 * 60 * 1000).optional(),
+  algorithm: RateLimitAlgorithmSchema.optional(),
+  ttl_seconds: z.number().int().min(1).max(24 * 60 * 60).default(3600)
+}).strict();
+
+export const RateLimitActivityQuerySchema = z.object({
+  top: z.coerce.number().int().min(1).max(100).default(10),
+  minutes: z.coerce.number().int().min(1).max(60).default(15)
+});
+
+// Client whose limiter state is reset: `user:{id}` or `ip:{address}`
+export const RateLimitClientIdSchema = z.string().max(200).regex(/^(user|ip):.+$/, 'Expected user:{id} or ip:{address}');
+
 // Error types for better error handling
 export class DatabaseError extends Error {
   constructor(message: string, public readonly cause?: unknown) {
@@ -67,6 +310,14 @@ export class ValidationError extends Error {
   }
 }
 
+// Raised without calling the database while its circuit breaker is open
+export class CircuitOpenError extends DatabaseError {
+  constructor(message: string, public readonly retryAfterMs: number) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
 export class TimeoutError extends Error {
   constructor(message: string, public readonly timeoutMs: number) {
     super(message);
@@ -77,15 +328,40 @@ export class TimeoutError extends Error {
 // TypeScript types derived from Zod schemas
 export type Product = z.infer<typeof ProductSchema>;
 export type GetProductsQuery = z.infer<typeof GetProductsQuerySchema>;
+export type ProductFields = z.infer<typeof ProductFieldsSchema>;
 export type ApiResponse = z.infer<typeof ApiResponseSchema>;
 export type SingleProductResponse = z.infer<typeof SingleProductResponseSchema>;
+export type InvalidationPolicy = z.infer<typeof InvalidationPolicySchema>;
+export type UpdateProductRequest = z.infer<typeof UpdateProductSchema>;
+export type UpdateProductResponse = z.infer<typeof UpdateProductResponseSchema>;
+export type ProductVersion = Pick<Product, 'id' | 'version' | 'updated_at'>;
+export type ConsistencyMode = z.infer<typeof ConsistencyModeSchema>;
+export type CartItem = z.infer<typeof CartItemSchema>;
+export type Cart = z.infer<typeof CartSchema>;
+export type PriceChange = z.infer<typeof PriceChangeSchema>;
+export type Order = z.infer<typeof OrderSchema>;
+export type AddCartItemRequest = z.infer<typeof AddCartItemSchema>;
+export type CartResponse = z.infer<typeof CartResponseSchema>;
+export type ReserveInventoryRequest = z.infer<typeof ReserveInventorySchema>;
+export type Reservation = z.infer<typeof ReservationSchema>;
+export type ReserveInventoryResponse = z.infer<typeof ReserveInventoryResponseSchema>;
+export type RepositoryOperation = z.infer<typeof RepositoryOperationSchema>;
+export type LatencyDistribution = z.infer<typeof LatencyDistributionSchema>;
+export type FaultRule = z.infer<typeof FaultRuleSchema>;
+export type FaultProfile = z.infer<typeof FaultProfileSchema>;
+export type RateLimitOverrideRequest = z.infer<typeof RateLimitOverrideRequestSchema>;
+export type RateLimitActivityQuery = z.infer<typeof RateLimitActivityQuerySchema>;
 
 // Configuration types
 export interface DatabaseConfig {
   url: string;
   anonKey: string;
-  maxRetries: number;
-  timeoutMs: number;
+  maxRetries: number; // Retries after the first attempt
+  retryBaseDelayMs: number;
+  timeoutMs: number; // Per attempt
+  breakerFailureThreshold: number; // Consecutive failed calls that open the circuit
+  breakerResetMs: number; // Time open before a trial call
+  breakerHalfOpenCalls: number;
 }
 
 export interface RequestMetadata {
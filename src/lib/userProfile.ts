@@ -65,10 +65,10 @@ export interface PerformanceMetric {
   session_id?: string;
   user_id: string;
   request_id: string;
-  consistency_model: 'neural_authority' | 'neural_cache' | 'smart_memory';
+  consistency_model: 'neural_authority' | 'neural_cache' | 'smart_memory' | 'session_guard';
   endpoint: string;
   latency: number;
-  cache_status?: 'HIT' | 'MISS' | 'STALE';
+  cache_status?: 'HIT' | 'MISS' | 'STALE' | 'COALESCED' | 'EVICTED' | 'BYPASS' | 'FALLBACK';
   response_size?: number;
   user_agent?: string;
   client_ip?: string;
@@ -1,5 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  getEndpointRateLimits,
+  matchEndpoint,
+  RATE_LIMITS,
+  RateLimitDecision,
+  RateLimitTier,
+  resolveEndpointRule,
+  SESSION_LOOKUP_LIMIT
+} from '@/lib/rateLimit';
+import { resolveRequestUser } from '@/lib/requestUser';
+import { applySecurityHeaders, SECURITY_PROFILES } from '@/lib/security';
 
 /**
  * Rate Limiting Middleware for LatentSee API
@@ -8,48 +19,28 @@ import { v4 as uuidv4 } from 'uuid';
  * 1. Global API rate limiting
  * 2. Per-IP rate limiting 
  * 3. Per-endpoint specific limits
- * 4. Authenticated user rate limits
+ * 4. Authenticated user rate limits (per user, tiered by role)
  * 
  * Features:
- * - Token bucket algorithm for smooth rate limiting
+ * - Selectable algorithm per endpoint (fixed window, sliding log, sliding
+ *   window counter, token bucket), shared with `applyRateLimit`
  * - Different limits for different endpoints
- * - IP-based tracking with sliding window
+ * - Per-user tracking for signed-in users (Supabase session cookie),
+ *   IP-based tracking for anonymous traffic
  * - Graceful degradation and retry headers
  * - Memory-efficient cleanup of expired entries
+ * - Usage tracking and temporary limit overrides (/api/admin/rate-limits)
+ * - Limits shared across instances with RATE_LIMIT_STORE=redis (the
+ *   middleware runs on the Node.js runtime so it can reach Redis)
+ *
+ * CORS is left to each route's security profile (see src/lib/security.ts):
+ * preflights pass straight through, and 429s carry the headers the route's
+ * own responses would.
  */
 
-// Rate limiting configurations
-interface RateLimitConfig {
-  requests: number;
-  windowMs: number;
-  message?: string;
-  skipSuccessfulRequests?: boolean;
-}
-
-const RATE_LIMITS: Record<string, RateLimitConfig> = {
-  // API endpoints - more restrictive
-  '/api/check-fast': { requests: 100, windowMs: 60 * 1000 }, // 100 requests per minute
-  '/api/always-fresh': { requests: 50, windowMs: 60 * 1000 }, // 50 requests per minute
-  '/api/smart-memory': { requests: 75, windowMs: 60 * 1000 }, // 75 requests per minute
-  
-  // Health check - more lenient
-  '/api/health': { requests: 200, windowMs: 60 * 1000 }, // 200 requests per minute
-  
-  // Auth endpoints - more restrictive to prevent abuse
-  '/api/auth': { requests: 10, windowMs: 60 * 1000 }, // 10 requests per minute
-  
-  // Global fallback
-  default: { requests: 200, windowMs: 60 * 1000 } // 200 requests per minute
-};
-
-// Memory store for rate limit tracking
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-  firstRequest: number;
-}
-
-const rateLimitStore = new Map<string, RateLimitEntry>();
+// Limiter state keyed by client and endpoint (per instance unless RATE_LIMIT_STORE=redis).
+// Endpoint limits live in src/lib/rateLimit/endpoints.ts so the admin API can override them.
+const { store: rateLimitStore, control: rateLimitControl } = getEndpointRateLimits();
 
 // Cleanup expired entries every 5 minutes
 const CLEANUP_INTERVAL = 5 * 60 * 1000;
@@ -59,12 +50,7 @@ function cleanupExpiredEntries(): void {
   const now = Date.now();
   if (now - lastCleanup < CLEANUP_INTERVAL) return;
   
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (now > entry.resetTime) {
-      rateLimitStore.delete(key);
-    }
-  }
-  
+  void rateLimitStore.cleanup();
   lastCleanup = now;
 }
 
@@ -80,106 +66,59 @@ function getClientIdentifier(request: NextRequest): string {
                    remoteAddress || 
                    'unknown';
   
-  // For authenticated requests, we could also include user ID
-  // const userId = request.headers.get('x-user-id');
-  // return userId ? `user:${userId}` : `ip:${clientIp}`;
-  
   return `ip:${clientIp}`;
 }
 
-function getRateLimitConfig(pathname: string): RateLimitConfig {
-  // Check for exact matches first
-  if (RATE_LIMITS[pathname]) {
-    return RATE_LIMITS[pathname];
-  }
-  
-  // Check for prefix matches
-  for (const [pattern, config] of Object.entries(RATE_LIMITS)) {
-    if (pattern !== 'default' && pathname.startsWith(pattern)) {
-      return config;
-    }
-  }
-  
-  return RATE_LIMITS.default;
+interface ClientIdentity {
+  clientId: string;
+  tier: RateLimitTier;
+}
+
+/**
+ * Signed-in users get their own bucket, so users sharing an IP (a lab
+ * behind one NAT) don't limit each other; everyone else is keyed by IP.
+ * Uncached session lookups spend the IP's SESSION_LOOKUP_LIMIT first; once
+ * it runs out the request counts as anonymous against the IP's limit.
+ */
+async function identifyClient(request: NextRequest): Promise<ClientIdentity> {
+  const ipClientId = getClientIdentifier(request);
+  const user = await resolveRequestUser(request, {
+    allowLookup: async () => (await rateLimitStore.consume(`${ipClientId}:session-lookup`, SESSION_LOOKUP_LIMIT)).allowed
+  });
+  
+  return user
+    ? { clientId: `user:${user.id}`, tier: user.role }
+    : { clientId: ipClientId, tier: 'anonymous' };
 }
 
-function isRateLimited(clientId: string, pathname: string): {
-  limited: boolean;
-  limit: number;
-  remaining: number;
-  resetTime: number;
-  retryAfter?: number;
-} {
+type RateLimitCheck = RateLimitDecision & { limited: boolean };
+
+async function isRateLimited({ clientId, tier }: ClientIdentity, pathname: string, method: string): Promise<RateLimitCheck> {
   cleanupExpiredEntries();
   
-  const config = getRateLimitConfig(pathname);
-  const now = Date.now();
-  const windowStart = now - config.windowMs;
-  
-  const key = `${clientId}:${pathname}`;
-  const entry = rateLimitStore.get(key);
-  
-  if (!entry) {
-    // First request from this client for this endpoint
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + config.windowMs,
-      firstRequest: now
-    });
-    
-    return {
-      limited: false,
-      limit: config.requests,
-      remaining: config.requests - 1,
-      resetTime: now + config.windowMs
-    };
-  }
-  
-  // Check if the window has expired
-  if (now > entry.resetTime) {
-    // Reset the counter for a new window
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + config.windowMs,
-      firstRequest: now
-    });
-    
-    return {
-      limited: false,
-      limit: config.requests,
-      remaining: config.requests - 1,
-      resetTime: now + config.windowMs
-    };
-  }
-  
-  // Within the current window
-  if (entry.count >= config.requests) {
-    // Rate limit exceeded
-    const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
-    
-    return {
-      limited: true,
-      limit: config.requests,
-      remaining: 0,
-      resetTime: entry.resetTime,
-      retryAfter
-    };
-  }
-  
-  // Increment counter
-  entry.count++;
-  rateLimitStore.set(key, entry);
+  const endpoint = matchEndpoint(pathname, method);
+  const rule = resolveEndpointRule(endpoint, tier, await rateLimitControl.getOverrides());
+  // Method-scoped entries get their own state, so reads of the same path
+  // (counted under another entry and algorithm) don't reset it
+  const key = RATE_LIMITS[endpoint].methods ? `${clientId}:${pathname}:${method}` : `${clientId}:${pathname}`;
+  const decision = await rateLimitStore.consume(key, rule);
+  void rateLimitControl.recordRequest(clientId, endpoint, decision.allowed);
   
-  return {
-    limited: false,
-    limit: config.requests,
-    remaining: config.requests - entry.count,
-    resetTime: entry.resetTime
-  };
+  return { ...decision, limited: !decision.allowed };
+}
+
+/**
+ * Security profile the route behind `pathname` is exported with
+ */
+function securityProfileFor(pathname: string) {
+  if (pathname.startsWith('/api/admin/')) return SECURITY_PROFILES.ADMIN_API;
+  if (pathname.startsWith('/api/cart') || pathname.startsWith('/api/products/')) return SECURITY_PROFILES.CREDENTIALED_API;
+  return SECURITY_PROFILES.PUBLIC_API;
 }
 
 function createRateLimitResponse(
-  rateLimitResult: ReturnType<typeof isRateLimited>,
+  request: NextRequest,
+  rateLimitResult: RateLimitCheck,
   requestId: string,
   clientId: string
 ): NextResponse {
@@ -208,16 +147,10 @@ function createRateLimitResponse(
     response.headers.set('Retry-After', rateLimitResult.retryAfter.toString());
   }
   
-  // CORS headers
-  response.headers.set('Access-Control-Allow-Origin', '*');
-  response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  response.headers.set('Access-Control-Expose-Headers', 'X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After');
-  
-  return response;
+  return applySecurityHeaders(response, request, securityProfileFor(request.nextUrl.pathname));
 }
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const requestId = uuidv4();
   
   // Skip rate limiting for certain paths
@@ -239,31 +172,25 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
   
-  // Handle preflight CORS requests
+  // Preflights aren't rate limited; the route answers them with its security profile
   if (request.method === 'OPTIONS') {
-    return new NextResponse(null, {
-      status: 200,
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-        'Access-Control-Max-Age': '86400'
-      }
-    });
+    return NextResponse.next();
   }
   
   try {
-    const clientId = getClientIdentifier(request);
-    const rateLimitResult = isRateLimited(clientId, pathname);
+    const identity = await identifyClient(request);
+    const { clientId } = identity;
+    const rateLimitResult = await isRateLimited(identity, pathname, request.method);
     
     if (rateLimitResult.limited) {
       console.log(`Rate limit exceeded for ${clientId} on ${pathname}`, {
         requestId,
+        tier: identity.tier,
         limit: rateLimitResult.limit,
         resetTime: new Date(rateLimitResult.resetTime).toISOString()
       });
       
-      return createRateLimitResponse(rateLimitResult, requestId, clientId);
+      return createRateLimitResponse(request, rateLimitResult, requestId, clientId);
     }
     
     // Add rate limit headers to successful requests
@@ -289,6 +216,8 @@ export function middleware(request: NextRequest) {
 }
 
 export const config = {
+  // Node.js rather than edge, so a Redis rate-limit store can be reached over TCP
+  runtime: 'nodejs',
   matcher: [
     /*
      * Match all request paths except for the ones starting with: